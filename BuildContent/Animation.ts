@@ -0,0 +1,55 @@
+import { AnimationDirection } from "./Types"
+import { Error } from "./Misc"
+
+type AsepriteTag = {
+    readonly name: string
+    readonly from: number
+    readonly to: number
+    readonly direction: string
+    // Given by newer versions of Aseprite when a tag does not loop forever.
+    readonly repeat?: string
+}
+
+// Converts the tags of an Aseprite file to content under the given content name.  Tags of a single frame become frames, while all others become animations.
+function ConvertAsepriteTags<TFrame>(filename: string, contentNamePrefix: string, tags: AsepriteTag[], frames: TFrame[]): { [contentName: string]: TFrame | { readonly Animation: true, readonly Frames: TFrame[], readonly Direction: AnimationDirection, readonly Looping: boolean } } {
+    const output: { [contentName: string]: TFrame | { readonly Animation: true, readonly Frames: TFrame[], readonly Direction: AnimationDirection, readonly Looping: boolean } } = {}
+    for (const tag of tags) {
+        // path.join might be clever with content named "/" here.
+        // We don't want that as we have fonts, etc.
+        const contentName = `${contentNamePrefix}/${tag.name}`
+        if (tag.from == tag.to) {
+            output[contentName] = frames[tag.from]
+            continue
+        }
+        if (tag.direction != "forward" && tag.direction != "reverse" && tag.direction != "pingpong") Error(`Tag "${tag.name}" in "${filename}" plays in direction "${tag.direction}", which is not supported`)
+        output[contentName] = {
+            Animation: true,
+            Frames: frames.slice(tag.from, tag.to + 1),
+            Direction: tag.direction as AnimationDirection,
+            Looping: !tag.repeat || tag.repeat == "0"
+        }
+    }
+    return output
+}
+
+// Lists the frames of an animation in the order in which they are shown during a single pass.  This must match the engines' playback.
+function AnimationSequence<T>(frames: T[], direction: AnimationDirection, looping: boolean): T[] {
+    const output: T[] = []
+    if (direction == "reverse") {
+        for (let frame = frames.length - 1; frame >= 0; frame--) output.push(frames[frame])
+    } else {
+        for (const frame of frames) output.push(frame)
+        // When looping, the first frame is not repeated at the end as it is shown again immediately afterward.
+        if (direction == "pingpong") for (let frame = frames.length - 2; frame >= (looping ? 1 : 0); frame--) output.push(frames[frame])
+    }
+    return output
+}
+
+// Determines how long a single pass through an animation takes.
+function AnimationDurationSeconds(frameDurationsSeconds: number[], direction: AnimationDirection, looping: boolean): number {
+    let output = 0
+    for (const durationSeconds of AnimationSequence(frameDurationsSeconds, direction, looping)) output += durationSeconds
+    return output
+}
+
+export { AsepriteTag, ConvertAsepriteTags, AnimationSequence, AnimationDurationSeconds }
\ No newline at end of file
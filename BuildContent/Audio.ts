@@ -7,7 +7,7 @@ import path = require("path")
 const vorbis = require("libvorbis.js")
 const lamejs = require("lamejs")
 
-function PreprocessRawAudio(filename: string, channelData: Float32Array[], sampleRate: number, then: (channelDAta: Float32Array[], gain: number) => void) {
+function PreprocessRawAudio(filename: string, channelData: Float32Array[], sampleRate: number, then: (channelDAta: Float32Array[], gain: number, leadingSamplesTrimmed: number) => void) {
     channelData = channelData.slice()
 
     if (sampleRate != 44100) Error(`File "${filename}" uses a sample rate of ${sampleRate}; 44100 was expected`)
@@ -56,7 +56,58 @@ function PreprocessRawAudio(filename: string, channelData: Float32Array[], sampl
         channelData[0] = new Float32Array(channelData[0].slice(0, -trailing))
         channelData[1] = new Float32Array(channelData[1].slice(0, -trailing))
     } else console.log(`There are no trailing samples which can be trimmed (left ${trailingLeft}, right ${trailingRight})`)
-    then(channelData, gain)
+    then(channelData, gain, leading)
+}
+
+type LoopSamples = {
+    readonly Start: number
+    readonly End?: number
+}
+
+// Reads the first loop from a WAV file's "smpl" chunk, as written by most samplers and DAWs.
+function ReadWavLoopSamples(data: Buffer): LoopSamples | undefined {
+    let offset = 12
+    while (offset + 8 <= data.byteLength) {
+        const id = data.toString("ascii", offset, offset + 4)
+        const size = data.readUInt32LE(offset + 4)
+        if (id == "smpl" && size >= 36 + 24 && data.readUInt32LE(offset + 8 + 28)) {
+            const loop = offset + 8 + 36
+            return {
+                Start: data.readUInt32LE(loop + 8),
+                // The end of a loop is inclusive.
+                End: data.readUInt32LE(loop + 12) + 1
+            }
+        }
+        // Chunks are padded to an even number of bytes.
+        offset += 8 + size + size % 2
+    }
+    return undefined
+}
+
+// Reads loop points from a JSON file alongside the audio file; "Example.music.wav" is paired with "Example.music.json".
+// This should contain { "LoopStartSeconds": number, "LoopEndSeconds": number }, where LoopEndSeconds is optional and defaults to the end of the file.
+function ReadLoopSamplesSidecar(filename: string, then: (loop: LoopSamples | undefined) => void): void {
+    const sidecarFilename = `${RemoveExtension(filename)}.json`
+    fs.readFile(sidecarFilename, "utf8", (err, data) => {
+        if (err && err.code == "ENOENT") {
+            then(undefined)
+            return
+        }
+        Error(err)
+        console.log(`Reading loop points from "${sidecarFilename}"...`)
+        let parsed: any
+        try {
+            parsed = JSON.parse(data)
+        } catch (e) {
+            Error(`File "${sidecarFilename}" is not valid JSON`)
+        }
+        if (!parsed || typeof parsed.LoopStartSeconds != "number" || parsed.LoopStartSeconds < 0) Error(`File "${sidecarFilename}" does not specify a valid LoopStartSeconds`)
+        if (parsed.LoopEndSeconds !== undefined && (typeof parsed.LoopEndSeconds != "number" || parsed.LoopEndSeconds <= parsed.LoopStartSeconds)) Error(`File "${sidecarFilename}" does not specify a valid LoopEndSeconds`)
+        then({
+            Start: Math.round(parsed.LoopStartSeconds * 44100),
+            End: parsed.LoopEndSeconds === undefined ? undefined : Math.round(parsed.LoopEndSeconds * 44100)
+        })
+    })
 }
 
 function WritePlanarAudio(directory: string, channelData: Float32Array[], then: () => void): void {
@@ -83,7 +134,7 @@ function WriteInterleavedAudio(directory: string, channelData: Float32Array[], t
     })
 }
 
-function SetupAudioImports<Imported>(contentType: ContentType<Imported, any, any>, writeRawPlanarOnImport: boolean, writeRawInterleavedOnImport: boolean, encodeOnImport: boolean, convertToContentData: (directory: string, gain: number) => Imported) {
+function SetupAudioImports<Imported>(contentType: ContentType<Imported, any, any>, writeRawPlanarOnImport: boolean, writeRawInterleavedOnImport: boolean, encodeOnImport: boolean, readLoopPointsOnImport: boolean, convertToContentData: (directory: string, gain: number, loopStartSeconds: number, loopEndSeconds: number) => Imported) {
     new ContentTypeImport<Imported>(contentType, "wav", (filename, then) => {
         console.log(`Reading "${filename}"...`)
         fs.readFile(filename, (err, data) => {
@@ -93,36 +144,55 @@ function SetupAudioImports<Imported>(contentType: ContentType<Imported, any, any
                 readonly sampleRate: number
                 readonly channelData: Float32Array[]
             } = wav.decode(data)
-            PreprocessRawAudio(filename, decoded.channelData, decoded.sampleRate, (channelData, gain) => {
-                const directory = path.join("Temp", "Content", "Imported", filename)
 
-                if (writeRawPlanarOnImport)
-                    WritePlanarAudio(directory, channelData, AfterWritingRawPlanar)
-                else
-                    AfterWritingRawPlanar()
+            if (readLoopPointsOnImport)
+                ReadLoopSamplesSidecar(filename, loop => AfterReadingLoopPoints(loop || ReadWavLoopSamples(data)))
+            else
+                AfterReadingLoopPoints(undefined)
+
+            function AfterReadingLoopPoints(loop: LoopSamples | undefined) {
+                PreprocessRawAudio(filename, decoded.channelData, decoded.sampleRate, (channelData, gain, leadingSamplesTrimmed) => {
+                    const directory = path.join("Temp", "Content", "Imported", filename)
 
-                function AfterWritingRawPlanar() {
-                    if (writeRawInterleavedOnImport)
-                        WriteInterleavedAudio(directory, channelData, AfterWritingRawInterleaved)
+                    // Loop points refer to the original file, so must be adjusted for any silence which was trimmed.
+                    const samples = channelData[0].length
+                    let loopStart = 0
+                    let loopEnd = samples
+                    if (loop) {
+                        console.log(`Loop points are samples ${loop.Start} to ${loop.End === undefined ? "the end" : loop.End}`)
+                        loopStart = Math.max(0, Math.min(samples, loop.Start - leadingSamplesTrimmed))
+                        if (loop.End !== undefined) loopEnd = Math.max(0, Math.min(samples, loop.End - leadingSamplesTrimmed))
+                        if (loopEnd <= loopStart) Error(`File "${filename}" has loop points which do not contain any audio after trimming silence`)
+                    }
+
+                    if (writeRawPlanarOnImport)
+                        WritePlanarAudio(directory, channelData, AfterWritingRawPlanar)
                     else
-                        AfterWritingRawInterleaved()
+                        AfterWritingRawPlanar()
 
-                    function AfterWritingRawInterleaved() {
-                        if (encodeOnImport)
-                            EncodeAudioInMemory(directory, channelData, AfterEncoding)
+                    function AfterWritingRawPlanar() {
+                        if (writeRawInterleavedOnImport)
+                            WriteInterleavedAudio(directory, channelData, AfterWritingRawInterleaved)
                         else
-                            AfterEncoding()
+                            AfterWritingRawInterleaved()
 
-                        function AfterEncoding() {
-                            const content: { [name: string]: Imported } = {}
-                            content[RemoveExtension(RemoveExtension(filename))] = convertToContentData(directory, gain)
-                            then(content)
+                        function AfterWritingRawInterleaved() {
+                            if (encodeOnImport)
+                                EncodeAudioInMemory(directory, channelData, AfterEncoding)
+                            else
+                                AfterEncoding()
+
+                            function AfterEncoding() {
+                                const content: { [name: string]: Imported } = {}
+                                content[RemoveExtension(RemoveExtension(filename))] = convertToContentData(directory, gain, loopStart / 44100, loopEnd / 44100)
+                                then(content)
+                            }
                         }
                     }
-                }
-            })
+                })
+            }
         })
-    })
+    }, readLoopPointsOnImport ? ["json"] : [])
 }
 
 const Encoders: { [name: string]: (channelData: Float32Array[], then: (buffer: Buffer) => void) => void } = {
@@ -1,5 +1,6 @@
-import { ImportedBackgroundFrame, PackedBackgroundFrame, BackgroundPackingHeader } from "./../Types"
+import { ImportedBackgroundFrame, PackedBackgroundFrame, ImportedBackground, PackedBackground, BackgroundPackingHeader } from "./../Types"
 import { ContentType } from "./../ContentType"
+import { AnimationDurationSeconds } from "./../Animation"
 import { Error, RemoveExtension } from "./../Misc"
 
 import fs = require("fs")
@@ -7,26 +8,43 @@ import path = require("path")
 import cpr = require("cpr")
 const pngjs = require("pngjs")
 
-const BackgroundContentType = new ContentType<ImportedBackgroundFrame, PackedBackgroundFrame, BackgroundPackingHeader>("background", (imported, then) => {
+const BackgroundContentType = new ContentType<ImportedBackground, PackedBackground, BackgroundPackingHeader>("background", (imported, then) => {
     console.info("Loading all background frames; finding duplicates and copying to output directory...")
+    // Animations are packed frame by frame, then reassembled.
+    type ImportedFrame = {
+        readonly ContentName: string
+        // Undefined when this is not part of an animation.
+        readonly AnimationFrame: number | undefined
+        readonly Frame: ImportedBackgroundFrame
+    }
+    const importedFrames: ImportedFrame[] = []
+    for (const contentName in imported) {
+        const importedBackground = imported[contentName]
+        if (importedBackground.Animation) {
+            for (let frame = 0; frame < importedBackground.Frames.length; frame++) importedFrames.push({ ContentName: contentName, AnimationFrame: frame, Frame: importedBackground.Frames[frame] })
+        } else importedFrames.push({ ContentName: contentName, AnimationFrame: undefined, Frame: importedBackground })
+    }
+
     type UnpackedFrame = {
         readonly Imported: ImportedBackgroundFrame
         readonly Users: {
             readonly ContentName: string
+            readonly AnimationFrame: number | undefined
             readonly DurationSeconds: number
         }[]
         readonly Png: any
     }
     const packedFrames: UnpackedFrame[] = []
-    let remainingFrames = Object.keys(imported).length
+    let remainingFrames = importedFrames.length
     if (!remainingFrames) {
         console.info("There are no frames to pack")
         then({}, {})
         return
     }
 
-    for (const contentName in imported) {
-        const importedFrame = imported[contentName]
+    for (const frame of importedFrames) {
+        const contentName = frame.AnimationFrame === undefined ? frame.ContentName : `${frame.ContentName}/${frame.AnimationFrame}`
+        const importedFrame = frame.Frame
         if (importedFrame.Empty) {
             console.log(`Background frame "${contentName}" is empty`)
             FrameCompleted()
@@ -67,7 +85,8 @@ const BackgroundContentType = new ContentType<ImportedBackgroundFrame, PackedBac
                 if (match) {
                     console.warn(`Background frame "${contentName}" is identical to background frame "${match.Users[0].ContentName}"`)
                     match.Users.push({
-                        ContentName: contentName,
+                        ContentName: frame.ContentName,
+                        AnimationFrame: frame.AnimationFrame,
                         DurationSeconds: importedFrame.DurationSeconds
                     })
                     FrameCompleted()
@@ -75,7 +94,8 @@ const BackgroundContentType = new ContentType<ImportedBackgroundFrame, PackedBac
                     match = {
                         Imported: importedFrame,
                         Users: [{
-                            ContentName: contentName,
+                            ContentName: frame.ContentName,
+                            AnimationFrame: frame.AnimationFrame,
                             DurationSeconds: importedFrame.DurationSeconds
                         }],
                         Png: png
@@ -98,23 +118,40 @@ const BackgroundContentType = new ContentType<ImportedBackgroundFrame, PackedBac
         remainingFrames--
         if (remainingFrames) return
         console.info("All frames copied, listing packed content...")
-        const collapsed: { [contentName: string]: PackedBackgroundFrame } = {}
+        const collapsed: { [contentName: string]: PackedBackground } = {}
+        const animationFrames: { [contentName: string]: PackedBackgroundFrame[] } = {}
+        function Collapse(contentName: string, animationFrame: number | undefined, packedFrame: PackedBackgroundFrame) {
+            if (animationFrame === undefined) collapsed[contentName] = packedFrame
+            else (animationFrames[contentName] = animationFrames[contentName] || [])[animationFrame] = packedFrame
+        }
         for (let i = 0; i < packedFrames.length; i++) {
             const packed = packedFrames[i]
             for (const user of packed.Users) {
                 if (packed.Imported.Empty) throw "This should never happen; required to satisfy type checker"
-                collapsed[user.ContentName] = {
+                Collapse(user.ContentName, user.AnimationFrame, {
                     Empty: false,
                     Id: i,
                     WidthPixels: packed.Imported.WidthPixels,
                     HeightPixels: packed.Imported.HeightPixels,
-                    DurationSeconds: packed.Imported.DurationSeconds
-                }
+                    DurationSeconds: user.DurationSeconds
+                })
             }
         }
-        for (const contentName in imported) if (imported[contentName].Empty) collapsed[contentName] = {
+        for (const frame of importedFrames) if (frame.Frame.Empty) Collapse(frame.ContentName, frame.AnimationFrame, {
             Empty: true,
-            DurationSeconds: imported[contentName].DurationSeconds
+            DurationSeconds: frame.Frame.DurationSeconds
+        })
+        for (const contentName in imported) {
+            const importedBackground = imported[contentName]
+            if (!importedBackground.Animation) continue
+            const frames = animationFrames[contentName]
+            collapsed[contentName] = {
+                Animation: true,
+                Frames: frames,
+                Direction: importedBackground.Direction,
+                Looping: importedBackground.Looping,
+                DurationSeconds: AnimationDurationSeconds(frames.map(frame => frame.DurationSeconds), importedBackground.Direction, importedBackground.Looping)
+            }
         }
         then({}, collapsed)
     }
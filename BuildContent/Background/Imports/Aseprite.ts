@@ -1,14 +1,15 @@
-import { ImportedBackgroundFrame } from "./../../Types"
+import { ImportedBackground, ImportedBackgroundFrame } from "./../../Types"
 import { ContentTypeImport } from "./../../ContentType"
 import { PrepareBackgroundFramePng } from "./Shared"
 import { BackgroundContentType } from "./../ContentType"
 import { RemoveExtension, Error } from "./../../Misc"
+import { AsepriteTag, ConvertAsepriteTags } from "./../../Animation"
 
 import fs = require("fs")
 import path = require("path")
 import child_process = require("child_process")
 
-new ContentTypeImport<ImportedBackgroundFrame>(BackgroundContentType, "ase", (filename, then) => {
+new ContentTypeImport<ImportedBackground>(BackgroundContentType, "ase", (filename, then) => {
     console.log(`Invoking Aseprite to convert background "${filename}"...`)
     const dataPath = path.join("Temp", "Content", "Imported", filename, "data.json")
     child_process.spawn("aseprite", ["--batch", filename, "--data", dataPath, "--list-tags", "--format", "json-array", "--save-as", path.join("Temp", "Content", "Imported", filename, `{frame}.png`)]).on("exit", status => {
@@ -22,12 +23,7 @@ new ContentTypeImport<ImportedBackgroundFrame>(BackgroundContentType, "ase", (fi
                     readonly duration: number
                 }[]
                 readonly meta: {
-                    frameTags: {
-                        readonly name: string
-                        readonly from: number
-                        readonly to: number
-                        readonly direction: "forward" | "reverse" | "pingpong"
-                    }[]
+                    frameTags: AsepriteTag[]
                 }
             } = JSON.parse(dataJson)
 
@@ -45,37 +41,7 @@ new ContentTypeImport<ImportedBackgroundFrame>(BackgroundContentType, "ase", (fi
 
             function AllFramesPrepared() {
                 console.log(`Converting animations from "${dataPath}"...`)
-                const filenameWithoutExtension = RemoveExtension(RemoveExtension(filename))
-
-                const frames: { [contentName: string]: ImportedBackgroundFrame } = {}
-                for (const animation of data.meta.frameTags) {
-                    // path.join might be clever with content named "/" here.
-                    // We don't want that as we have fonts, etc.
-                    if (animation.from == animation.to) {
-                        frames[`${filenameWithoutExtension}/${animation.name}`] = preparedFrames[animation.from]
-                    } else {
-                        for (let frame = 0; frame <= animation.to - animation.from; frame++) {
-                            switch (animation.direction) {
-                                case "forward":
-                                    frames[`${filenameWithoutExtension}/${animation.name}/${frame}`] = preparedFrames[animation.from + frame]
-                                    break
-
-                                case "reverse":
-                                    frames[`${filenameWithoutExtension}/${animation.name}/${frame}`] = preparedFrames[animation.to - frame]
-                                    break
-
-                                case "pingpong":
-                                    frames[`${filenameWithoutExtension}/${animation.name}/${frame}`] = preparedFrames[animation.from + frame]
-                                    if (frame > 0 && frame + animation.from < animation.to) {
-                                        frames[`${filenameWithoutExtension}/${animation.name}/${(animation.to - animation.from) + frame}`] = preparedFrames[animation.to - frame]
-                                    }
-                                    break
-                            }
-                        }
-                    }
-                }
-
-                then(frames)
+                then(ConvertAsepriteTags(filename, RemoveExtension(RemoveExtension(filename)), data.meta.frameTags, preparedFrames))
             }
         })
     })
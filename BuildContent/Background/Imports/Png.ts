@@ -1,4 +1,4 @@
-import { ImportedBackgroundFrame } from "./../../Types"
+import { ImportedBackground } from "./../../Types"
 import { ContentTypeImport } from "./../../ContentType"
 import { PrepareBackgroundFramePng } from "./Shared"
 import { BackgroundContentType } from "./../ContentType"
@@ -6,9 +6,9 @@ import { RemoveExtension } from "./../../Misc"
 
 import path = require("path")
 
-new ContentTypeImport<ImportedBackgroundFrame>(BackgroundContentType, "png", (filename, then) => {
+new ContentTypeImport<ImportedBackground>(BackgroundContentType, "png", (filename, then) => {
     PrepareBackgroundFramePng(filename, 0, path.join("Temp", "Content", "Imported", filename, "Background.png"), backgroundFrame => {
-        const frames: { [contentName: string]: ImportedBackgroundFrame } = {}
+        const frames: { [contentName: string]: ImportedBackground } = {}
         frames[RemoveExtension(RemoveExtension(filename))] = backgroundFrame
         then(frames)
     })
@@ -9,7 +9,9 @@ class ContentType<Imported, Packed, PackingHeader> {
 }
 
 class ContentTypeImport<Imported> {
-    constructor(public readonly ContentType: ContentType<Imported, any, any>, public readonly SecondExtension: string, public readonly Import: (filename: string, then: (content: { [contentName: string]: Imported }) => void) => void) {
+    // Sidecar files sit beside the files imported, replacing their second extension, and configure how they are imported (Example.music.wav is configured by Example.music.json, for example).
+    // Imports may also give the last modified times of any other files read, so that the file is imported again when they change.
+    constructor(public readonly ContentType: ContentType<Imported, any, any>, public readonly SecondExtension: string, public readonly Import: (filename: string, then: (content: { [contentName: string]: Imported }, dependencies?: { [filename: string]: number }) => void) => void, public readonly SidecarExtensions: string[] = []) {
         ContentType.ContentTypeImports.push(this)
     }
 }
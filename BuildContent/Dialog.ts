@@ -13,7 +13,7 @@ const DialogContentType = new ContentType<ImportedDialog, PackedDialog, DialogPa
     then({}, output)
 }, then => then({}))
 
-SetupAudioImports<ImportedDialog>(DialogContentType, false, true, true, (directory, gain) => ({
+SetupAudioImports<ImportedDialog>(DialogContentType, false, true, true, false, (directory, gain) => ({
     Directory: directory,
     Gain: gain
 }))
\ No newline at end of file
@@ -5,6 +5,9 @@ require("./Background/Imports/Png")
 require("./Sound")
 require("./Music")
 require("./Dialog")
+require("./Tilemap/Imports/Csv")
+require("./Map/Imports/Tmx")
+require("./Map/Imports/Json")
 import { GenerateContentTreeFromBuild, GenerateCodeFromContentTree } from "./Tree"
 
 import fs = require("fs")
@@ -13,10 +16,12 @@ const rimraf = require("rimraf")
 import mkdirp = require("mkdirp")
 import { ContentTypes } from "./ContentType"
 import { Error, EndsWith, MinifyImages } from "./Misc"
-import { Build } from "./Types"
+import { Build, PackedSprite, PackedBackground } from "./Types"
+import { GenerateMapType } from "./Map/Code"
 
 const Build: Build = {
     LastModified: {},
+    Dependencies: {},
     ImportedContent: {},
     PackingHeaders: {},
     PackedContent: {}
@@ -44,6 +49,11 @@ function FindFiles() {
                                     if (EndsWith(fullPath, `.${contentType.FirstExtension}.${contentTypeImport.SecondExtension}`)) {
                                         Build.LastModified[fullPath] = stats.mtime.getTime()
                                     }
+                                    for (const sidecarExtension of contentTypeImport.SidecarExtensions) {
+                                        if (EndsWith(fullPath, `.${contentType.FirstExtension}.${sidecarExtension}`)) {
+                                            Build.LastModified[fullPath] = stats.mtime.getTime()
+                                        }
+                                    }
                                 }
                             }
                             CheckNextFileOrDirectory()
@@ -59,6 +69,7 @@ function FindFiles() {
 
 let PreviousBuild: Build = {
     LastModified: {},
+    Dependencies: {},
     ImportedContent: {},
     PackingHeaders: {},
     PackedContent: {}
@@ -128,7 +139,67 @@ function CompareBuilds() {
         FilesCreated.push(filename)
     }
 
-    DeleteTempFoldersForDeletedOrModifiedContent()
+    // Sidecar files are not imported themselves; the files they configure are imported again instead.
+    const configuredByChangedSidecars: string[] = []
+    FilesCreated = ExcludeSidecars(FilesCreated)
+    FilesModified = ExcludeSidecars(FilesModified)
+    FilesDeleted = ExcludeSidecars(FilesDeleted)
+    for (const filename of configuredByChangedSidecars) {
+        if (!Build.LastModified[filename] || FilesCreated.indexOf(filename) != -1 || FilesModified.indexOf(filename) != -1) continue
+        console.log(`"${filename}" has a sidecar file which has changed.`)
+        FilesModified.push(filename)
+    }
+
+    function ExcludeSidecars(filenames: string[]): string[] {
+        const output: string[] = []
+        for (const filename of filenames) {
+            let configured: string | undefined = undefined
+            for (const contentType of ContentTypes) for (const contentTypeImport of contentType.ContentTypeImports) for (const sidecarExtension of contentTypeImport.SidecarExtensions) {
+                // A sidecar file could configure a file of any second extension the content type imports, so only those which exist are considered.
+                const candidate = `${filename.slice(0, -sidecarExtension.length)}${contentTypeImport.SecondExtension}`
+                if (EndsWith(filename, `.${contentType.FirstExtension}.${sidecarExtension}`) && (configured === undefined || Build.LastModified[candidate])) configured = candidate
+            }
+            if (configured === undefined) output.push(filename)
+            else configuredByChangedSidecars.push(configured)
+        }
+        return output
+    }
+
+    CheckDependencies()
+}
+
+function CheckDependencies() {
+    console.info("Checking the dependencies of unmodified content...")
+    const remaining: string[] = []
+    for (const filename in PreviousBuild.Dependencies) if (Build.LastModified[filename] && FilesModified.indexOf(filename) == -1) remaining.push(filename)
+    TakeNext()
+    function TakeNext() {
+        const filename = remaining.pop()
+        if (!filename) {
+            DeleteTempFoldersForDeletedOrModifiedContent()
+            return
+        }
+        const dependencies = PreviousBuild.Dependencies[filename]
+        const unchecked = Object.keys(dependencies)
+        CheckNextDependency()
+        function CheckNextDependency() {
+            const dependency = unchecked.pop()
+            if (!dependency) {
+                Build.Dependencies[filename as string] = dependencies
+                TakeNext()
+                return
+            }
+            fs.stat(dependency, (err, stats) => {
+                if (!err && stats.mtime.getTime() == dependencies[dependency]) {
+                    CheckNextDependency()
+                    return
+                }
+                console.log(`"${filename}" depends upon "${dependency}", which has been modified or deleted.`)
+                FilesModified.push(filename as string)
+                TakeNext()
+            })
+        }
+    }
 }
 
 function DeleteTempFoldersForDeletedOrModifiedContent() {
@@ -163,9 +234,10 @@ function ImportContent() {
                 for (const contentType of ContentTypes) {
                     for (const contentTypeImport of contentType.ContentTypeImports) {
                         if (EndsWith(filename, `.${contentType.FirstExtension}.${contentTypeImport.SecondExtension}`)) {
-                            contentTypeImport.Import(filename, imported => {
+                            contentTypeImport.Import(filename, (imported, dependencies) => {
                                 Build.ImportedContent[contentType.FirstExtension] = Build.ImportedContent[contentType.FirstExtension] || {}
                                 Build.ImportedContent[contentType.FirstExtension][filename] = imported
+                                if (dependencies) Build.Dependencies[filename] = dependencies
                                 remainingToImport--
                                 console.info(`Imported "${filename}", ${remainingToImport} remaining...`)
                                 if (!remainingToImport) Pack()
@@ -244,11 +316,13 @@ function MinifySpritesAndBackgrounds() {
 function GenerateTypes() {
     console.info("Generating types...")
     const types = GenerateCodeFromContentTree(GenerateContentTreeFromBuild(Build), true, {
-        sprite: () => "SpriteFrame",
-        background: () => "BackgroundFrame",
+        sprite: (sprite: PackedSprite) => sprite.Animation ? "SpriteAnimation" : "SpriteFrame",
+        background: (background: PackedBackground) => background.Animation ? "BackgroundAnimation" : "BackgroundFrame",
         sound: () => "Sound",
         music: () => "Music",
-        dialog: () => "Dialog"
+        dialog: () => "Dialog",
+        tilemap: () => "TilemapLayout",
+        map: GenerateMapType
     })
 
     console.info("Writing types to \"Temp/Content/Types.ts\"...")
@@ -0,0 +1,30 @@
+import { PackedMap } from "./../Types"
+
+// Matches GenerateCodeFromContentTree, so that names which are quoted there are quoted here, and are not mangled.
+function PropertyName(name: string): string {
+    return /^[A-Za-z_][0-9A-Za-z_]+$/.test(name) ? name : JSON.stringify(name)
+}
+
+// Generates an expression which refers to content by its name, such as "Game/Demos/Grass" to "Content.Demos.Grass".
+function ContentReference(contentName: string): string {
+    // Skip "Game".
+    return `Content${contentName.split(/[\/\\]/).slice(1).map(fragment => /^[A-Za-z_][0-9A-Za-z_]+$/.test(fragment) ? `.${fragment}` : `[${JSON.stringify(fragment)}]`).join("")}`
+}
+
+function GenerateMapCode(map: PackedMap): string {
+    const layers = map.TileLayers.map(layer => `${PropertyName(layer.Name)}: new TilemapLayout(${map.Columns}, ${map.Rows}, [${layer.Tiles.join(", ")}])`)
+    // The properties of objects are always quoted, as they are not strongly typed, so are likely to be looked up by strings.
+    const objectLayers = map.ObjectLayers.map(layer => `${PropertyName(layer.Name)}: [${layer.Objects.map(object => `{ Name: ${JSON.stringify(object.Name)}, Type: ${JSON.stringify(object.Type)}, VirtualPixelsFromLeft: ${object.LeftPixels}, VirtualPixelsFromTop: ${object.TopPixels}, WidthVirtualPixels: ${object.WidthPixels}, HeightVirtualPixels: ${object.HeightPixels}, RotationDegrees: ${object.RotationDegrees}, Tile: ${object.Tile}, Properties: { ${object.Properties.map(property => `${JSON.stringify(property.Name)}: ${JSON.stringify(property.Value)}`).join(", ")} } }`).join(", ")}]`)
+    const properties = map.Properties.map(property => `${PropertyName(property.Name)}: ${JSON.stringify(property.Value)}`)
+    // Content cannot refer to other content while it is being created, so the tileset is looked up when first used.
+    return `new TiledMap(${map.Columns}, ${map.Rows}, ${map.TileWidthPixels}, ${map.TileHeightPixels}, function () { return [${map.Tileset.map(ContentReference).join(", ")}] }, { ${layers.join(", ")} }, { ${objectLayers.join(", ")} }, { ${properties.join(", ")} })`
+}
+
+function GenerateMapType(map: PackedMap): string {
+    const layers = map.TileLayers.map(layer => `readonly ${PropertyName(layer.Name)}: TilemapLayout`)
+    const objectLayers = map.ObjectLayers.map(layer => `readonly ${PropertyName(layer.Name)}: TiledObject[]`)
+    const properties = map.Properties.map(property => `readonly ${PropertyName(property.Name)}: ${typeof property.Value}`)
+    return `TiledMap & { readonly Layers: { ${layers.join(", ")} }, readonly ObjectLayers: { ${objectLayers.join(", ")} }, readonly Properties: { ${properties.join(", ")} } }`
+}
+
+export { GenerateMapCode, GenerateMapType }
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { ImportedMap, PackedMap, MapPackingHeader } from "./../Types"
+import { ContentType } from "./../ContentType"
+
+const MapContentType = new ContentType<ImportedMap, PackedMap, MapPackingHeader>("map", (imported, then) => {
+    const output: { [contentName: string]: PackedMap } = {}
+    for (const name in imported) output[name] = imported[name]
+    then({}, output)
+}, then => then({}))
+
+export { MapContentType }
\ No newline at end of file
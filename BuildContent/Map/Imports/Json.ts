@@ -0,0 +1,76 @@
+import { ImportedMap } from "./../../Types"
+import { ContentTypeImport } from "./../../ContentType"
+import { MapContentType } from "./../ContentType"
+import { Error } from "./../../Misc"
+import { TiledJsonLayer, TiledJsonMap, TiledTileset, TiledTileLayer, TiledMap, ParseJson, JsonArray, CheckDimension, ParseJsonProperties, ParseJsonTileset, ImportTiledMap } from "./Shared"
+
+import fs = require("fs")
+import path = require("path")
+
+new ContentTypeImport<ImportedMap>(MapContentType, "json", (filename, then) => {
+    console.log(`Loading map "${filename}"...`)
+    fs.readFile(filename, "utf8", (err, data) => {
+        Error(err)
+        const map = ParseJson(filename, data) as TiledJsonMap
+        if ((map.orientation || "orthogonal") != "orthogonal") Error(`"${filename}" is not an orthogonal map, which is the only orientation supported`)
+        if (map.infinite) Error(`"${filename}" is an infinite map, which is not supported`)
+
+        const tilesets = JsonArray(filename, "The tilesets", map.tilesets).map((tileset): TiledTileset => {
+            if (typeof tileset.firstgid != "number") Error(`A tileset in "${filename}" has no numeric "firstgid"`)
+            if (!tileset.source) return ParseJsonTileset(filename, tileset, tileset.firstgid as number)
+            return {
+                FirstGid: tileset.firstgid as number,
+                Source: path.join(path.dirname(filename), tileset.source),
+                Tiles: []
+            }
+        })
+
+        const tileLayers: TiledTileLayer[] = []
+        const objectLayers: TiledMap["ObjectLayers"] = []
+        // Groups of layers are flattened, as only the names of layers are kept.
+        Recurse(JsonArray(filename, "The layers", map.layers))
+        function Recurse(layers: TiledJsonLayer[]) {
+            for (const layer of layers) switch (layer.type) {
+                case "tilelayer":
+                    tileLayers.push({
+                        Name: layer.name || "",
+                        Encoding: layer.encoding,
+                        Compression: layer.compression,
+                        Data: layer.data || []
+                    })
+                    break
+                case "objectgroup":
+                    objectLayers.push({
+                        Name: layer.name || "",
+                        Objects: JsonArray(filename, `The objects of layer "${layer.name}"`, layer.objects).map(object => ({
+                            Name: object.name || "",
+                            // Tiled 1.9 renamed "type" to "class".
+                            Type: object.type || object.class || "",
+                            LeftPixels: object.x || 0,
+                            TopPixels: object.y || 0,
+                            WidthPixels: object.width || 0,
+                            HeightPixels: object.height || 0,
+                            RotationDegrees: object.rotation || 0,
+                            Gid: object.gid || 0,
+                            Properties: ParseJsonProperties(filename, object.properties, object.propertytypes)
+                        }))
+                    })
+                    break
+                case "group":
+                    Recurse(JsonArray(filename, `The layers of group "${layer.name}"`, layer.layers))
+                    break
+            }
+        }
+
+        ImportTiledMap(filename, {
+            Columns: CheckDimension(filename, "width", map.width),
+            Rows: CheckDimension(filename, "height", map.height),
+            TileWidthPixels: CheckDimension(filename, "tilewidth", map.tilewidth),
+            TileHeightPixels: CheckDimension(filename, "tileheight", map.tileheight),
+            Tilesets: tilesets,
+            TileLayers: tileLayers,
+            ObjectLayers: objectLayers,
+            Properties: ParseJsonProperties(filename, map.properties, map.propertytypes)
+        }, then)
+    })
+})
\ No newline at end of file
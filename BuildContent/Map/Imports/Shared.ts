@@ -0,0 +1,405 @@
+import { ImportedMap, MapObject, MapProperty } from "./../../Types"
+import { Error, EndsWith, RemoveExtension } from "./../../Misc"
+
+import fs = require("fs")
+import path = require("path")
+import zlib = require("zlib")
+
+// As parsed by xml2js; attributes are kept in "$", text in "_", and children in arrays named after their elements.
+// Elements without attributes or children are parsed as strings.
+type XmlElement = string | {
+    readonly $?: { readonly [name: string]: string }
+    readonly _?: string
+    readonly [name: string]: undefined | string | { readonly [name: string]: string } | XmlElement[]
+}
+
+type XmlRoot = { readonly [name: string]: XmlElement | undefined }
+
+const xml2js: {
+    parseString(xml: string, then: (err: object | null, root: XmlRoot | null) => void): void
+} = require("xml2js")
+
+// Tiled's JSON format, as parsed.  This is not trusted; anything required is checked before use.
+type TiledJsonPropertyValue = string | number | boolean
+
+type TiledJsonProperties = {
+    readonly name: string
+    readonly type?: string
+    readonly value: TiledJsonPropertyValue
+}[] | { readonly [name: string]: TiledJsonPropertyValue }
+
+type TiledJsonTileset = {
+    readonly firstgid?: number
+    readonly source?: string
+    readonly image?: string
+    readonly tiles?: {
+        readonly id: number
+        readonly image?: string
+        readonly animation?: {}[]
+    }[]
+}
+
+type TiledJsonObject = {
+    readonly name?: string
+    readonly type?: string
+    readonly class?: string
+    readonly x?: number
+    readonly y?: number
+    readonly width?: number
+    readonly height?: number
+    readonly rotation?: number
+    readonly gid?: number
+    readonly properties?: TiledJsonProperties
+    readonly propertytypes?: { readonly [name: string]: string }
+}
+
+type TiledJsonLayer = {
+    readonly type: "tilelayer" | "objectgroup" | "group" | "imagelayer"
+    readonly name?: string
+    readonly encoding?: string
+    readonly compression?: string
+    readonly data?: string | number[]
+    readonly objects?: TiledJsonObject[]
+    readonly layers?: TiledJsonLayer[]
+}
+
+type TiledJsonMap = {
+    readonly orientation?: string
+    readonly infinite?: boolean
+    readonly width: number
+    readonly height: number
+    readonly tilewidth: number
+    readonly tileheight: number
+    readonly tilesets?: TiledJsonTileset[]
+    readonly layers?: TiledJsonLayer[]
+    readonly properties?: TiledJsonProperties
+    readonly propertytypes?: { readonly [name: string]: string }
+}
+
+// Tiled's file formats are normalized to these before being converted to content.
+type TiledTile = {
+    readonly Id: number
+    // Relative to the working directory.
+    readonly Image: string
+}
+
+type TiledTileset = {
+    readonly FirstGid: number
+    // When given, Tiles is empty, and is instead loaded from this file, relative to the working directory.
+    readonly Source?: string
+    readonly Tiles: TiledTile[]
+}
+
+type TiledTileLayer = {
+    readonly Name: string
+    readonly Encoding?: string
+    readonly Compression?: string
+    readonly Data: string | number[]
+}
+
+type TiledObject = {
+    readonly Name: string
+    readonly Type: string
+    readonly LeftPixels: number
+    readonly TopPixels: number
+    readonly WidthPixels: number
+    readonly HeightPixels: number
+    readonly RotationDegrees: number
+    // 0 when this is not a tile object.
+    readonly Gid: number
+    readonly Properties: MapProperty[]
+}
+
+type TiledMap = {
+    readonly Columns: number
+    readonly Rows: number
+    readonly TileWidthPixels: number
+    readonly TileHeightPixels: number
+    readonly Tilesets: TiledTileset[]
+    readonly TileLayers: TiledTileLayer[]
+    readonly ObjectLayers: {
+        readonly Name: string
+        readonly Objects: TiledObject[]
+    }[]
+    readonly Properties: MapProperty[]
+}
+
+function ParseXml(filename: string, xml: string, then: (root: XmlRoot) => void): void {
+    xml2js.parseString(xml, (err, root) => {
+        if (err) Error(`Failed to parse "${filename}": ${err}`)
+        // Empty documents are parsed as null.
+        then(root || {})
+    })
+}
+
+function ParseJson(filename: string, json: string): { readonly [name: string]: {} | undefined } {
+    let parsed: {} | null = null
+    try {
+        parsed = JSON.parse(json)
+    } catch (e) {
+        Error(`Failed to parse "${filename}": ${e}`)
+    }
+    if (!parsed || typeof parsed != "object" || parsed instanceof Array) Error(`"${filename}" does not contain a JSON object`)
+    return parsed as { readonly [name: string]: {} | undefined }
+}
+
+// Optional arrays may be omitted, but must be arrays when given.
+function JsonArray<T>(filename: string, description: string, array: T[] | undefined): T[] {
+    if (array === undefined) return []
+    if (!(array instanceof Array)) Error(`${description} in "${filename}" is not an array`)
+    return array
+}
+
+// The dimensions of a map are copied into the generated content, so must be given.
+function CheckDimension(filename: string, name: string, value: number): number {
+    if (typeof value != "number" || !(value > 0) || value % 1) Error(`"${filename}" does not specify a positive whole number for "${name}"`)
+    return value
+}
+
+function XmlChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+    if (!element || typeof element == "string") return []
+    const children = element[name]
+    return children instanceof Array ? children : []
+}
+
+function XmlAttribute(element: XmlElement | undefined, name: string): string | undefined {
+    if (!element || typeof element == "string") return undefined
+    return element.$ && element.$[name]
+}
+
+function XmlNumber(element: XmlElement | undefined, name: string, fallback: number): number {
+    const value = XmlAttribute(element, name)
+    return value === undefined ? fallback : parseFloat(value)
+}
+
+function XmlText(element: XmlElement | undefined): string {
+    if (typeof element == "string") return element
+    return element && element._ || ""
+}
+
+function ConvertProperty(filename: string, name: string, type: string, value: TiledJsonPropertyValue): MapProperty {
+    if (type == "int" || type == "float" || type == "object") return { Name: name, Value: typeof value == "number" ? value : parseFloat(`${value}`) }
+    if (type == "bool") return { Name: name, Value: value === true || value == "true" }
+    if (type != "string" && type != "color" && type != "file") Error(`Property "${name}" in "${filename}" is of type "${type}", which is not supported`)
+    return { Name: name, Value: `${value}` }
+}
+
+function ParseXmlProperties(filename: string, element: XmlElement | undefined): MapProperty[] {
+    const output: MapProperty[] = []
+    for (const properties of XmlChildren(element, "properties")) for (const property of XmlChildren(properties, "property")) {
+        // Multi-line strings are stored as text rather than as an attribute.
+        const value = XmlAttribute(property, "value")
+        output.push(ConvertProperty(filename, XmlAttribute(property, "name") || "", XmlAttribute(property, "type") || "string", value === undefined ? XmlText(property) : value))
+    }
+    return output
+}
+
+function ParseJsonProperties(filename: string, properties: TiledJsonProperties | undefined, propertyTypes: { readonly [name: string]: string } | undefined): MapProperty[] {
+    if (!properties) return []
+    // Older versions of Tiled stored properties as an object, with their types in a separate object.
+    if (!(properties instanceof Array)) {
+        const values = properties
+        return Object.keys(values).map(name => ConvertProperty(filename, name, propertyTypes && propertyTypes[name] || typeof values[name] == "number" && "float" || typeof values[name] == "boolean" && "bool" || "string", values[name]))
+    }
+    return properties.map(property => ConvertProperty(filename, property.name, property.type || "string", property.value))
+}
+
+function ParseXmlTileset(filename: string, element: XmlElement | undefined, firstGid: number): TiledTileset {
+    if (XmlChildren(element, "image").length) Error(`A tileset in "${filename}" is based on a single image; only collections of images, each of which is a sprite, are supported`)
+    return {
+        FirstGid: firstGid,
+        Tiles: XmlChildren(element, "tile").map(tile => {
+            if (XmlChildren(tile, "animation").length) Error(`Tile ${XmlAttribute(tile, "id")} of a tileset in "${filename}" is animated, which is not supported; animate the sprite itself instead`)
+            const image = XmlChildren(tile, "image")[0]
+            const source = XmlAttribute(image, "source")
+            if (!source) Error(`Tile ${XmlAttribute(tile, "id")} of a tileset in "${filename}" has no image`)
+            return {
+                Id: XmlNumber(tile, "id", 0),
+                Image: path.join(path.dirname(filename), source as string)
+            }
+        })
+    }
+}
+
+function ParseJsonTileset(filename: string, tileset: TiledJsonTileset, firstGid: number): TiledTileset {
+    if (tileset.image) Error(`A tileset in "${filename}" is based on a single image; only collections of images, each of which is a sprite, are supported`)
+    return {
+        FirstGid: firstGid,
+        Tiles: JsonArray(filename, "The tiles of a tileset", tileset.tiles).map(tile => {
+            if (tile.animation) Error(`Tile ${tile.id} of a tileset in "${filename}" is animated, which is not supported; animate the sprite itself instead`)
+            if (typeof tile.id != "number") Error(`A tile of a tileset in "${filename}" has no numeric "id"`)
+            const image = tile.image
+            if (!image) Error(`Tile ${tile.id} of a tileset in "${filename}" has no image`)
+            return {
+                Id: tile.id,
+                Image: path.join(path.dirname(filename), image as string)
+            }
+        })
+    }
+}
+
+// External tilesets are recorded in dependencies, so that maps using them are imported again when they change.
+function LoadTileset(tileset: TiledTileset, dependencies: { [filename: string]: number }, then: (tileset: TiledTileset) => void): void {
+    const source = tileset.Source
+    if (!source) {
+        then(tileset)
+        return
+    }
+    console.log(`Loading tileset "${source}"...`)
+    fs.stat(source, (err, stats) => {
+        Error(err)
+        dependencies[source] = stats.mtime.getTime()
+        fs.readFile(source, "utf8", (err, data) => {
+            Error(err)
+            if (EndsWith(source, ".json")) then(ParseJsonTileset(source, ParseJson(source, data) as TiledJsonTileset, tileset.FirstGid))
+            else ParseXml(source, data, root => then(ParseXmlTileset(source, root.tileset, tileset.FirstGid)))
+        })
+    })
+}
+
+function DecodeTileLayer(filename: string, layer: TiledTileLayer, then: (gids: number[]) => void): void {
+    const data = layer.Data
+    if (typeof data != "string") {
+        then(data)
+        return
+    }
+    if (layer.Encoding == "csv") {
+        then(data.split(",").map(gid => parseFloat(gid)))
+        return
+    }
+    if (layer.Encoding != "base64") Error(`Layer "${layer.Name}" in "${filename}" uses "${layer.Encoding}" encoding, which is not supported`)
+    const buffer = Buffer.from(data.trim(), "base64")
+    if (!layer.Compression) {
+        then(ReadGids(buffer))
+        return
+    }
+    if (layer.Compression != "zlib" && layer.Compression != "gzip") Error(`Layer "${layer.Name}" in "${filename}" uses "${layer.Compression}" compression, which is not supported`)
+    // Unzipping detects whether zlib or gzip was used.
+    zlib.unzip(buffer, (err, unzipped) => {
+        Error(err)
+        then(ReadGids(unzipped))
+    })
+
+    function ReadGids(buffer: Buffer): number[] {
+        const gids: number[] = []
+        for (let offset = 0; offset + 4 <= buffer.length; offset += 4) gids.push(buffer.readUInt32LE(offset))
+        return gids
+    }
+}
+
+// Validates a map from Tiled against sprite content, then converts it to content.
+function ImportTiledMap(filename: string, map: TiledMap, then: (content: { [contentName: string]: ImportedMap }, dependencies: { [filename: string]: number }) => void): void {
+    const dependencies: { [filename: string]: number } = {}
+    const tilesets: TiledTileset[] = []
+    const tileset: string[] = []
+    const indicesByGid: { [gid: number]: number } = {}
+
+    LoadNextTileset()
+
+    function LoadNextTileset() {
+        const next = map.Tilesets[tilesets.length]
+        if (!next) {
+            ValidateTiles()
+            return
+        }
+        LoadTileset(next, dependencies, loaded => {
+            tilesets.push(loaded)
+            LoadNextTileset()
+        })
+    }
+
+    function ValidateTiles() {
+        console.log(`Validating tilesets used by "${filename}"...`)
+        const remaining: { Gid: number, Image: string }[] = []
+        for (const loaded of tilesets) for (const tile of loaded.Tiles) remaining.push({ Gid: loaded.FirstGid + tile.Id, Image: path.normalize(tile.Image) })
+        remaining.reverse()
+        ValidateNextTile()
+
+        function ValidateNextTile() {
+            const tile = remaining.pop()
+            if (!tile) {
+                DecodeTileLayers()
+                return
+            }
+            // Each tile must itself be imported as a sprite, which is then referenced by the generated code.
+            if (!EndsWith(tile.Image, ".sprite.png")) Error(`Tile ${tile.Gid} of "${filename}" uses "${tile.Image}", which is not sprite content; images must be named "*.sprite.png"`)
+            if (path.relative("Game", tile.Image).slice(0, 2) == "..") Error(`Tile ${tile.Gid} of "${filename}" uses "${tile.Image}", which is outside of the Game directory`)
+            fs.stat(tile.Image, (err, stats) => {
+                if (err || !stats.isFile()) Error(`Tile ${tile.Gid} of "${filename}" uses "${tile.Image}", which does not exist`)
+                // The map is imported again should the sprite change, so that its removal is reported rather than leaving a reference to missing content.
+                dependencies[tile.Image] = stats.mtime.getTime()
+                const contentName = RemoveExtension(RemoveExtension(tile.Image))
+                let index = tileset.indexOf(contentName)
+                if (index == -1) {
+                    index = tileset.length
+                    tileset.push(contentName)
+                }
+                indicesByGid[tile.Gid] = index
+                ValidateNextTile()
+            })
+        }
+    }
+
+    function ConvertGid(gid: number, description: string): number {
+        if (!gid) return -1
+        // The highest bits are used by Tiled to flag mirrored or rotated tiles.
+        if (gid >= 0x20000000) Error(`${description} in "${filename}" is flipped or rotated, which is not supported`)
+        const index = indicesByGid[gid]
+        if (index === undefined) Error(`${description} in "${filename}" uses tile ${gid}, which is not in any of its tilesets`)
+        return index
+    }
+
+    const tileLayers: ImportedMap["TileLayers"] = []
+
+    function DecodeTileLayers() {
+        const layer = map.TileLayers[tileLayers.length]
+        if (!layer) {
+            Convert()
+            return
+        }
+        for (const other of tileLayers) if (other.Name == layer.Name) Error(`"${filename}" contains more than one tile layer named "${layer.Name}"`)
+        DecodeTileLayer(filename, layer, gids => {
+            if (gids.length != map.Columns * map.Rows) Error(`Layer "${layer.Name}" in "${filename}" contains ${gids.length} tiles, but the map is ${map.Columns}x${map.Rows}`)
+            tileLayers.push({
+                Name: layer.Name,
+                Tiles: gids.map(gid => ConvertGid(gid, `A tile in layer "${layer.Name}"`))
+            })
+            DecodeTileLayers()
+        })
+    }
+
+    function Convert() {
+        const objectLayers: ImportedMap["ObjectLayers"] = []
+        for (const layer of map.ObjectLayers) {
+            for (const other of objectLayers) if (other.Name == layer.Name) Error(`"${filename}" contains more than one object layer named "${layer.Name}"`)
+            objectLayers.push({
+                Name: layer.Name,
+                Objects: layer.Objects.map((object): MapObject => ({
+                    Name: object.Name,
+                    Type: object.Type,
+                    LeftPixels: object.LeftPixels,
+                    TopPixels: object.TopPixels,
+                    WidthPixels: object.WidthPixels,
+                    HeightPixels: object.HeightPixels,
+                    RotationDegrees: object.RotationDegrees,
+                    Tile: ConvertGid(object.Gid, `Object "${object.Name}" in layer "${layer.Name}"`),
+                    Properties: object.Properties
+                }))
+            })
+        }
+        const content: { [contentName: string]: ImportedMap } = {}
+        content[RemoveExtension(RemoveExtension(filename))] = {
+            Columns: map.Columns,
+            Rows: map.Rows,
+            TileWidthPixels: map.TileWidthPixels,
+            TileHeightPixels: map.TileHeightPixels,
+            Tileset: tileset,
+            TileLayers: tileLayers,
+            ObjectLayers: objectLayers,
+            Properties: map.Properties
+        }
+        then(content, dependencies)
+    }
+}
+
+export { XmlElement, TiledJsonTileset, TiledJsonLayer, TiledJsonMap, TiledTileset, TiledTileLayer, TiledObject, TiledMap, ParseXml, ParseJson, JsonArray, CheckDimension, XmlChildren, XmlAttribute, XmlNumber, XmlText, ParseXmlProperties, ParseJsonProperties, ParseXmlTileset, ParseJsonTileset, ImportTiledMap }
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { ImportedMap } from "./../../Types"
+import { ContentTypeImport } from "./../../ContentType"
+import { MapContentType } from "./../ContentType"
+import { Error } from "./../../Misc"
+import { XmlElement, TiledTileset, TiledTileLayer, TiledMap, ParseXml, CheckDimension, XmlChildren, XmlAttribute, XmlNumber, XmlText, ParseXmlProperties, ParseXmlTileset, ImportTiledMap } from "./Shared"
+
+import fs = require("fs")
+import path = require("path")
+
+new ContentTypeImport<ImportedMap>(MapContentType, "tmx", (filename, then) => {
+    console.log(`Loading map "${filename}"...`)
+    fs.readFile(filename, "utf8", (err, data) => {
+        Error(err)
+        ParseXml(filename, data, root => {
+            const map = root.map
+            if (map === undefined) Error(`"${filename}" does not contain a map`)
+            if ((XmlAttribute(map, "orientation") || "orthogonal") != "orthogonal") Error(`"${filename}" is not an orthogonal map, which is the only orientation supported`)
+            if (XmlAttribute(map, "infinite") == "1") Error(`"${filename}" is an infinite map, which is not supported`)
+
+            const tilesets = XmlChildren(map, "tileset").map((tileset): TiledTileset => {
+                const firstGid = XmlNumber(tileset, "firstgid", 1)
+                const source = XmlAttribute(tileset, "source")
+                if (!source) return ParseXmlTileset(filename, tileset, firstGid)
+                return {
+                    FirstGid: firstGid,
+                    Source: path.join(path.dirname(filename), source),
+                    Tiles: []
+                }
+            })
+
+            const tileLayers: TiledTileLayer[] = []
+            const objectLayers: TiledMap["ObjectLayers"] = []
+            // Groups of layers are flattened, as only the names of layers are kept.
+            Recurse(map)
+            function Recurse(element: XmlElement | undefined) {
+                for (const layer of XmlChildren(element, "layer")) {
+                    const data = XmlChildren(layer, "data")[0]
+                    const encoding = XmlAttribute(data, "encoding")
+                    tileLayers.push({
+                        Name: XmlAttribute(layer, "name") || "",
+                        Encoding: encoding,
+                        Compression: XmlAttribute(data, "compression"),
+                        Data: encoding ? XmlText(data) : XmlChildren(data, "tile").map(tile => XmlNumber(tile, "gid", 0))
+                    })
+                }
+                for (const objectGroup of XmlChildren(element, "objectgroup")) objectLayers.push({
+                    Name: XmlAttribute(objectGroup, "name") || "",
+                    Objects: XmlChildren(objectGroup, "object").map(object => ({
+                        Name: XmlAttribute(object, "name") || "",
+                        // Tiled 1.9 renamed "type" to "class".
+                        Type: XmlAttribute(object, "type") || XmlAttribute(object, "class") || "",
+                        LeftPixels: XmlNumber(object, "x", 0),
+                        TopPixels: XmlNumber(object, "y", 0),
+                        WidthPixels: XmlNumber(object, "width", 0),
+                        HeightPixels: XmlNumber(object, "height", 0),
+                        RotationDegrees: XmlNumber(object, "rotation", 0),
+                        Gid: XmlNumber(object, "gid", 0),
+                        Properties: ParseXmlProperties(filename, object)
+                    }))
+                })
+                for (const group of XmlChildren(element, "group")) Recurse(group)
+            }
+
+            ImportTiledMap(filename, {
+                Columns: CheckDimension(filename, "width", XmlNumber(map, "width", NaN)),
+                Rows: CheckDimension(filename, "height", XmlNumber(map, "height", NaN)),
+                TileWidthPixels: CheckDimension(filename, "tilewidth", XmlNumber(map, "tilewidth", NaN)),
+                TileHeightPixels: CheckDimension(filename, "tileheight", XmlNumber(map, "tileheight", NaN)),
+                Tilesets: tilesets,
+                TileLayers: tileLayers,
+                ObjectLayers: objectLayers,
+                Properties: ParseXmlProperties(filename, map)
+            }, then)
+        })
+    })
+})
\ No newline at end of file
@@ -8,12 +8,16 @@ const MusicContentType = new ContentType<ImportedMusic, PackedMusic, MusicPackin
     for (const name in imported) output[name] = {
         Id: id++,
         Directory: imported[name].Directory,
-        Gain: imported[name].Gain
+        Gain: imported[name].Gain,
+        LoopStartSeconds: imported[name].LoopStartSeconds,
+        LoopEndSeconds: imported[name].LoopEndSeconds
     }
     then({}, output)
 }, then => then({}))
 
-SetupAudioImports<ImportedMusic>(MusicContentType, false, true, true, (directory, gain) => ({
+SetupAudioImports<ImportedMusic>(MusicContentType, false, true, true, true, (directory, gain, loopStartSeconds, loopEndSeconds) => ({
     Directory: directory,
-    Gain: gain
+    Gain: gain,
+    LoopStartSeconds: loopStartSeconds,
+    LoopEndSeconds: loopEndSeconds
 }))
\ No newline at end of file
@@ -58,7 +58,7 @@ const SoundContentType = new ContentType<ImportedSound, PackedSound, SoundPackin
 }, then => EncodeAudioInMemory("Temp/Content/Packed/sound", [new Float32Array([0]), new Float32Array([0])], () => then({}))
 )
 
-SetupAudioImports<ImportedSound>(SoundContentType, true, true, false, (directory, gain) => ({
+SetupAudioImports<ImportedSound>(SoundContentType, true, true, false, false, (directory, gain) => ({
     Directory: directory,
     Gain: gain
 }))
\ No newline at end of file
@@ -1,27 +1,47 @@
-import { ImportedSpriteFrame, PackedSpriteFrame, SpritePackingHeader } from "./../Types"
+import { SpriteSlice, ImportedSpriteFrame, PackedSpriteFrame, ImportedSprite, PackedSprite, SpritePackingHeader } from "./../Types"
 import { Error, ScaleUpFromMemoryToFakeNearestNeighbor } from "./../Misc"
 import { ContentType } from "./../ContentType"
+import { AnimationDurationSeconds } from "./../Animation"
 
 import fs = require("fs")
 const pngjs = require("pngjs")
 
-const SpriteContentType = new ContentType<ImportedSpriteFrame, PackedSpriteFrame, SpritePackingHeader>("sprite", (imported, then) => {
+const SpriteContentType = new ContentType<ImportedSprite, PackedSprite, SpritePackingHeader>("sprite", (imported, then) => {
     console.info("Loading all sprite frames...")
+    // Animations are packed frame by frame, then reassembled.
+    type ImportedFrame = {
+        readonly ContentName: string
+        // Undefined when this is not part of an animation.
+        readonly AnimationFrame: number | undefined
+        readonly Frame: ImportedSpriteFrame
+    }
+    const importedFrames: ImportedFrame[] = []
+    for (const contentName in imported) {
+        const importedSprite = imported[contentName]
+        if (importedSprite.Animation) {
+            for (let frame = 0; frame < importedSprite.Frames.length; frame++) importedFrames.push({ ContentName: contentName, AnimationFrame: frame, Frame: importedSprite.Frames[frame] })
+        } else importedFrames.push({ ContentName: contentName, AnimationFrame: undefined, Frame: importedSprite })
+    }
+
     type UnpackedFrame = {
         readonly Imported: ImportedSpriteFrame
         readonly Users: {
             readonly ContentName: string
+            readonly AnimationFrame: number | undefined
             readonly OffsetLeftPixels: number
             readonly OffsetTopPixels: number
             readonly DurationSeconds: number
+            readonly Events: string[]
+            readonly Slices: SpriteSlice[]
         }[]
         readonly Png: any
     }
     const unpackedFrames: UnpackedFrame[] = []
-    let remainingFrames = Object.keys(imported).length
+    let remainingFrames = importedFrames.length
 
-    for (const contentName in imported) {
-        const importedFrame = imported[contentName]
+    for (const frame of importedFrames) {
+        const contentName = frame.AnimationFrame === undefined ? frame.ContentName : `${frame.ContentName}/${frame.AnimationFrame}`
+        const importedFrame = frame.Frame
         if (importedFrame.Empty) {
             console.log(`Sprite frame "${contentName}" is empty`)
             FrameCompleted()
@@ -70,10 +90,13 @@ const SpriteContentType = new ContentType<ImportedSpriteFrame, PackedSpriteFrame
                     unpackedFrames.push(match)
                 }
                 match.Users.push({
-                    ContentName: contentName,
+                    ContentName: frame.ContentName,
+                    AnimationFrame: frame.AnimationFrame,
                     OffsetLeftPixels: importedFrame.OffsetLeftPixels,
                     OffsetTopPixels: importedFrame.OffsetTopPixels,
-                    DurationSeconds: importedFrame.DurationSeconds
+                    DurationSeconds: importedFrame.DurationSeconds,
+                    Events: importedFrame.Events,
+                    Slices: importedFrame.Slices
                 })
                 FrameCompleted()
             })
@@ -318,10 +341,15 @@ const SpriteContentType = new ContentType<ImportedSpriteFrame, PackedSpriteFrame
             writeStream.on("error", Error).on("close", () => {
                 ScaleUpFromMemoryToFakeNearestNeighbor(atlas, "Temp/Content/Packed/sprite/AtlasPrescaled.png", 4, () => {
                     console.log("Listing packed content...")
-                    const collapsed: { [contentName: string]: PackedSpriteFrame } = {}
+                    const collapsed: { [contentName: string]: PackedSprite } = {}
+                    const animationFrames: { [contentName: string]: PackedSpriteFrame[] } = {}
+                    const Collapse = (contentName: string, animationFrame: number | undefined, packedFrame: PackedSpriteFrame) => {
+                        if (animationFrame === undefined) collapsed[contentName] = packedFrame
+                        else (animationFrames[contentName] = animationFrames[contentName] || [])[animationFrame] = packedFrame
+                    }
                     for (const packed of packedFrames) {
                         for (const user of packed.Unpacked.Users) {
-                            collapsed[user.ContentName] = {
+                            Collapse(user.ContentName, user.AnimationFrame, {
                                 Empty: false,
                                 AtlasLeftPixels: packed.Left + 1,
                                 AtlasTopPixels: packed.Top + 1,
@@ -329,13 +357,29 @@ const SpriteContentType = new ContentType<ImportedSpriteFrame, PackedSpriteFrame
                                 HeightPixels: packed.Unpacked.Png.height - 2,
                                 OffsetLeftPixels: user.OffsetLeftPixels,
                                 OffsetTopPixels: user.OffsetTopPixels,
-                                DurationSeconds: user.DurationSeconds
-                            }
+                                DurationSeconds: user.DurationSeconds,
+                                Events: user.Events,
+                                Slices: user.Slices
+                            })
                         }
                     }
-                    for (const contentName in imported) if (imported[contentName].Empty) collapsed[contentName] = {
+                    for (const frame of importedFrames) if (frame.Frame.Empty) Collapse(frame.ContentName, frame.AnimationFrame, {
                         Empty: true,
-                        DurationSeconds: imported[contentName].DurationSeconds
+                        DurationSeconds: frame.Frame.DurationSeconds,
+                        Events: frame.Frame.Events,
+                        Slices: frame.Frame.Slices
+                    })
+                    for (const contentName in imported) {
+                        const importedSprite = imported[contentName]
+                        if (!importedSprite.Animation) continue
+                        const frames = animationFrames[contentName]
+                        collapsed[contentName] = {
+                            Animation: true,
+                            Frames: frames,
+                            Direction: importedSprite.Direction,
+                            Looping: importedSprite.Looping,
+                            DurationSeconds: AnimationDurationSeconds(frames.map(frame => frame.DurationSeconds), importedSprite.Direction, importedSprite.Looping)
+                        }
                     }
                     then({
                         AtlasWidthPixels: atlasWidth,
@@ -1,17 +1,89 @@
-import { ImportedSpriteFrame } from "./../../Types"
+import { ImportedSprite, ImportedSpriteFrame, SpriteSlice } from "./../../Types"
 import { ContentTypeImport } from "./../../ContentType"
 import { PrepareSpriteFramePng } from "./Shared"
 import { SpriteContentType } from "./../ContentType"
-import { RemoveExtension, Error } from "./../../Misc"
+import { Error, RemoveExtension } from "./../../Misc"
+import { AsepriteTag, ConvertAsepriteTags } from "./../../Animation"
 
 import fs = require("fs")
 import path = require("path")
 import child_process = require("child_process")
 
-new ContentTypeImport<ImportedSpriteFrame>(SpriteContentType, "ase", (filename, then) => {
-    console.log(`Invoking Aseprite to convert sprite "${filename}"...`)
-    const dataPath = path.join("Temp", "Content", "Imported", filename, "data.json")
-    child_process.spawn("aseprite", ["--batch", filename, "--data", dataPath, "--list-tags", "--format", "json-array", "--save-as", path.join("Temp", "Content", "Imported", filename, `{frame}.png`)]).on("exit", status => {
+import mkdirp = require("mkdirp")
+
+// Layers can be exported as separate content, configured by a sidecar file listing the layers to include in each variant:
+// { "Plain": ["Body", "Head"], "Armoured": ["Body", "Head", "Armour"] }
+// Hero.sprite.ase would then be imported as Hero/Plain/Walk, Hero/Armoured/Walk, etc. instead of Hero/Walk.
+type SpriteVariant = {
+    readonly Name: string
+    readonly Layers: string[]
+}
+
+// As parsed from the sidecar file, before being checked.
+type SpriteVariantsSidecar = { readonly [variant: string]: {} | null }
+
+function SidecarLayersValid(layers: {} | null): layers is string[] {
+    if (!(layers instanceof Array) || !layers.length) return false
+    for (const layer of layers) if (typeof layer != "string") return false
+    return true
+}
+
+new ContentTypeImport<ImportedSprite>(SpriteContentType, "ase", (filename, then) => {
+    const sidecarFilename = `${RemoveExtension(filename)}.layers.json`
+    const contentName = RemoveExtension(RemoveExtension(filename))
+    console.log(`Checking for sidecar file "${sidecarFilename}"...`)
+    fs.readFile(sidecarFilename, "utf8", (err, sidecarJson) => {
+        if (err && err.code == "ENOENT") {
+            ImportAsepriteSprite(filename, path.join("Temp", "Content", "Imported", filename), contentName, undefined, then)
+            return
+        }
+        Error(err)
+        let sidecar: {} | null = null
+        try {
+            sidecar = JSON.parse(sidecarJson)
+        } catch (e) {
+            Error(`Failed to parse "${sidecarFilename}": ${e}`)
+        }
+        if (!sidecar || typeof sidecar != "object" || sidecar instanceof Array) Error(`"${sidecarFilename}" must be an object, mapping the names of variants to the layers they include`)
+        const variantLayers = sidecar as SpriteVariantsSidecar
+        const variants: SpriteVariant[] = []
+        for (const name in variantLayers) {
+            // Variant names become part of content names.
+            if (!name || name.indexOf("/") != -1 || name.indexOf("\\") != -1) Error(`"${sidecarFilename}" contains a variant named "${name}"; variant names cannot be empty or contain "/" or "\\"`)
+            const layers = variantLayers[name]
+            if (!SidecarLayersValid(layers)) Error(`Variant "${name}" in "${sidecarFilename}" must be an array of the names of the layers it includes`)
+            variants.push({ Name: name, Layers: layers as string[] })
+        }
+        if (!variants.length) Error(`"${sidecarFilename}" does not contain any variants`)
+        const output: { [contentName: string]: ImportedSprite } = {}
+        ImportNextVariant()
+
+        function ImportNextVariant() {
+            const variant = variants.pop()
+            if (!variant) {
+                then(output)
+                return
+            }
+            const directory = path.join("Temp", "Content", "Imported", filename, variant.Name)
+            mkdirp(directory, err => {
+                Error(err)
+                ImportAsepriteSprite(filename, directory, `${contentName}/${variant.Name}`, variant, imported => {
+                    for (const importedContentName in imported) output[importedContentName] = imported[importedContentName]
+                    ImportNextVariant()
+                })
+            })
+        }
+    })
+}, ["layers.json"])
+
+// Imports every frame of an Aseprite file, or only the layers of a variant when given.  Identical frames, such as those in which a variant's extra layers are empty, are merged when packed.
+function ImportAsepriteSprite(filename: string, directory: string, contentName: string, variant: SpriteVariant | undefined, then: (content: { [contentName: string]: ImportedSprite }) => void): void {
+    console.log(variant ? `Invoking Aseprite to convert variant "${variant.Name}" of sprite "${filename}"...` : `Invoking Aseprite to convert sprite "${filename}"...`)
+    const dataPath = path.join(directory, "data.json")
+    // Layers must be given before the file they are to be taken from.
+    const layerArguments: string[] = []
+    if (variant) for (const layer of variant.Layers) layerArguments.push("--layer", layer)
+    child_process.spawn("aseprite", ["--batch"].concat(layerArguments).concat([filename, "--data", dataPath, "--list-tags", "--list-layers", "--list-slices", "--format", "json-array", "--save-as", path.join(directory, `{frame}.png`)])).on("exit", status => {
         if (status != 0) Error(`Failed to invoke Aseprite to convert sprite "${filename}"`)
         console.log(`Loading "${dataPath}"...`)
         fs.readFile(dataPath, "utf8", (err, dataJson) => {
@@ -20,22 +92,87 @@ new ContentTypeImport<ImportedSpriteFrame>(SpriteContentType, "ase", (filename,
             const data: {
                 readonly frames: {
                     readonly duration: number
+                    readonly sourceSize: {
+                        readonly w: number
+                        readonly h: number
+                    }
                 }[]
                 readonly meta: {
-                    frameTags: {
+                    frameTags: AsepriteTag[]
+                    readonly layers?: {
                         readonly name: string
-                        readonly from: number
-                        readonly to: number
-                        readonly direction: "forward" | "reverse" | "pingpong"
+                        readonly cels?: {
+                            readonly frame: number
+                            readonly data?: string
+                        }[]
+                    }[]
+                    readonly slices?: {
+                        readonly name: string
+                        // Each key applies from its frame until the next key.
+                        readonly keys: {
+                            readonly frame: number
+                            readonly bounds: {
+                                readonly x: number
+                                readonly y: number
+                                readonly w: number
+                                readonly h: number
+                            }
+                            // Relative to the top left corner of the bounds.
+                            readonly pivot?: {
+                                readonly x: number
+                                readonly y: number
+                            }
+                        }[]
                     }[]
                 }
             } = JSON.parse(dataJson)
 
+            const layers = data.meta.layers || []
+            if (variant) for (const layer of variant.Layers) if (!layers.some(other => other.name == layer)) Error(`Variant "${variant.Name}" of "${filename}" includes layer "${layer}", which does not exist`)
+
+            // Aseprite stores user data on cels, so the user data of every cel of a frame becomes events of that frame.
+            // Multiple events can be separated by commas or whitespace.
+            const events: string[][] = data.frames.map(() => [])
+            for (const layer of layers) for (const cel of layer.cels || []) {
+                if (variant && variant.Layers.indexOf(layer.name) == -1) continue
+                if (!cel.data) continue
+                for (const event of cel.data.split(/[\s,]+/)) if (event && events[cel.frame].indexOf(event) == -1) events[cel.frame].push(event)
+            }
+
+            // A slice with a pivot moves the origin of the frames it is in from the center to the pivot.
+            const origins: ({ readonly LeftPixels: number, readonly TopPixels: number } | undefined)[] = []
+            const slices: SpriteSlice[][] = []
+            for (let frame = 0; frame < data.frames.length; frame++) {
+                const sourceSize = data.frames[frame].sourceSize
+                let origin: { readonly Name: string, readonly LeftPixels: number, readonly TopPixels: number } | undefined = undefined
+                const frameSlices: { readonly Name: string, readonly Bounds: { readonly x: number, readonly y: number, readonly w: number, readonly h: number } }[] = []
+                for (const slice of data.meta.slices || []) {
+                    let key: typeof slice.keys[0] | undefined = undefined
+                    for (const other of slice.keys) if (other.frame <= frame && (!key || other.frame > key.frame)) key = other
+                    if (!key || key.bounds.w <= 0 || key.bounds.h <= 0) continue
+                    for (const other of frameSlices) if (other.Name == slice.name) Error(`Frame ${frame} of "${filename}" contains more than one slice named "${slice.name}"`)
+                    frameSlices.push({ Name: slice.name, Bounds: key.bounds })
+                    if (!key.pivot) continue
+                    if (origin) Error(`Frame ${frame} of "${filename}" contains slices "${origin.Name}" and "${slice.name}", which both have pivots; only one pivot can be used as the origin`)
+                    origin = { Name: slice.name, LeftPixels: key.bounds.x + key.pivot.x, TopPixels: key.bounds.y + key.pivot.y }
+                }
+                origins.push(origin)
+                const originLeftPixels = origin ? origin.LeftPixels : sourceSize.w / 2
+                const originTopPixels = origin ? origin.TopPixels : sourceSize.h / 2
+                slices.push(frameSlices.map(slice => ({
+                    Name: slice.Name,
+                    LeftPixels: slice.Bounds.x - originLeftPixels,
+                    TopPixels: slice.Bounds.y - originTopPixels,
+                    WidthPixels: slice.Bounds.w,
+                    HeightPixels: slice.Bounds.h
+                })))
+            }
+
             let remainingFrames = data.frames.length
             const preparedFrames: ImportedSpriteFrame[] = []
             console.log(`Preparing frames from "${dataPath}"...`)
             for (const frame in data.frames) {
-                PrepareSpriteFramePng(path.join("Temp", "Content", "Imported", filename, `${frame}.png`), data.frames[frame].duration / 1000, path.join("Temp", "Content", "Imported", filename, `${frame}.trimmed.png`), preparedFrame => {
+                PrepareSpriteFramePng(path.join(directory, `${frame}.png`), data.frames[frame].duration / 1000, events[frame], slices[frame], origins[frame], path.join(directory, `${frame}.trimmed.png`), preparedFrame => {
                     frame // Workaround for a TypeScript transpilation bug (possibly #17632).
                     preparedFrames[frame] = preparedFrame
                     remainingFrames--
@@ -45,38 +182,8 @@ new ContentTypeImport<ImportedSpriteFrame>(SpriteContentType, "ase", (filename,
 
             function AllFramesPrepared() {
                 console.log(`Converting animations from "${dataPath}"...`)
-                const filenameWithoutExtension = RemoveExtension(RemoveExtension(filename))
-
-                const frames: { [contentName: string]: ImportedSpriteFrame } = {}
-                for (const animation of data.meta.frameTags) {
-                    // path.join might be clever with content named "/" here.
-                    // We don't want that as we have fonts, etc.
-                    if (animation.from == animation.to) {
-                        frames[`${filenameWithoutExtension}/${animation.name}`] = preparedFrames[animation.from]
-                    } else {
-                        for (let frame = 0; frame <= animation.to - animation.from; frame++) {
-                            switch (animation.direction) {
-                                case "forward":
-                                    frames[`${filenameWithoutExtension}/${animation.name}/${frame}`] = preparedFrames[animation.from + frame]
-                                    break
-
-                                case "reverse":
-                                    frames[`${filenameWithoutExtension}/${animation.name}/${frame}`] = preparedFrames[animation.to - frame]
-                                    break
-
-                                case "pingpong":
-                                    frames[`${filenameWithoutExtension}/${animation.name}/${frame}`] = preparedFrames[animation.from + frame]
-                                    if (frame > 0 && frame + animation.from < animation.to) {
-                                        frames[`${filenameWithoutExtension}/${animation.name}/${(animation.to - animation.from) + frame}`] = preparedFrames[animation.to - frame]
-                                    }
-                                    break
-                            }
-                        }
-                    }
-                }
-
-                then(frames)
+                then(ConvertAsepriteTags(filename, contentName, data.meta.frameTags, preparedFrames))
             }
         })
     })
-})
\ No newline at end of file
+}
\ No newline at end of file
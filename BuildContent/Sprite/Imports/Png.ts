@@ -1,4 +1,4 @@
-import { ImportedSpriteFrame } from "./../../Types"
+import { ImportedSprite } from "./../../Types"
 import { ContentTypeImport } from "./../../ContentType"
 import { PrepareSpriteFramePng } from "./Shared"
 import { SpriteContentType } from "./../ContentType"
@@ -6,9 +6,9 @@ import { RemoveExtension } from "./../../Misc"
 
 import path = require("path")
 
-new ContentTypeImport<ImportedSpriteFrame>(SpriteContentType, "png", (filename, then) => {
-    PrepareSpriteFramePng(filename, 0, path.join("Temp", "Content", "Imported", filename, "Sprite.png"), spriteFrame => {
-        const frames: { [contentName: string]: ImportedSpriteFrame } = {}
+new ContentTypeImport<ImportedSprite>(SpriteContentType, "png", (filename, then) => {
+    PrepareSpriteFramePng(filename, 0, [], [], undefined, path.join("Temp", "Content", "Imported", filename, "Sprite.png"), spriteFrame => {
+        const frames: { [contentName: string]: ImportedSprite } = {}
         frames[RemoveExtension(RemoveExtension(filename))] = spriteFrame
         then(frames)
     })
@@ -1,10 +1,11 @@
 import { Error } from "./../../Misc"
-import { ImportedSpriteFrame } from "./../../Types"
+import { ImportedSpriteFrame, SpriteSlice } from "./../../Types"
 
 import fs = require("fs")
 const pngjs = require("pngjs")
 
-function PrepareSpriteFramePng(filename: string, durationSeconds: number, trimmedFilename: string, then: (spriteFrame: ImportedSpriteFrame) => void) {
+// The origin is relative to the top left corner of the untrimmed frame, and defaults to its center.
+function PrepareSpriteFramePng(filename: string, durationSeconds: number, events: string[], slices: SpriteSlice[], origin: { readonly LeftPixels: number, readonly TopPixels: number } | undefined, trimmedFilename: string, then: (spriteFrame: ImportedSpriteFrame) => void) {
     const untrimmedPng = new pngjs.PNG()
     fs.createReadStream(filename).on("error", Error).pipe(untrimmedPng).on("error", Error).on("parsed", () => {
         let trimLeft = 0
@@ -23,7 +24,9 @@ function PrepareSpriteFramePng(filename: string, durationSeconds: number, trimme
         if (trimLeft == untrimmedPng.width) {
             then({
                 Empty: true,
-                DurationSeconds: durationSeconds
+                DurationSeconds: durationSeconds,
+                Events: events,
+                Slices: slices
             })
             return
         }
@@ -95,9 +98,11 @@ function PrepareSpriteFramePng(filename: string, durationSeconds: number, trimme
             then({
                 Empty: false,
                 PngFilename: trimmedFilename,
-                OffsetLeftPixels: trimLeft - untrimmedPng.width / 2,
-                OffsetTopPixels: trimTop - untrimmedPng.height / 2,
-                DurationSeconds: durationSeconds
+                OffsetLeftPixels: trimLeft - (origin ? origin.LeftPixels : untrimmedPng.width / 2),
+                OffsetTopPixels: trimTop - (origin ? origin.TopPixels : untrimmedPng.height / 2),
+                DurationSeconds: durationSeconds,
+                Events: events,
+                Slices: slices
             })
         })
     })
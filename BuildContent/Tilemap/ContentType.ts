@@ -0,0 +1,14 @@
+import { ImportedTilemap, PackedTilemap, TilemapPackingHeader } from "./../Types"
+import { ContentType } from "./../ContentType"
+
+const TilemapContentType = new ContentType<ImportedTilemap, PackedTilemap, TilemapPackingHeader>("tilemap", (imported, then) => {
+    const output: { [contentName: string]: PackedTilemap } = {}
+    for (const name in imported) output[name] = {
+        Columns: imported[name].Columns,
+        Rows: imported[name].Rows,
+        Tiles: imported[name].Tiles
+    }
+    then({}, output)
+}, then => then({}))
+
+export { TilemapContentType }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { ImportedTilemap } from "./../../Types"
+import { ContentTypeImport } from "./../../ContentType"
+import { TilemapContentType } from "./../ContentType"
+import { Error, RemoveExtension } from "./../../Misc"
+
+import fs = require("fs")
+
+// Each line is a row of comma-separated indices into a tileset, where -1 or nothing is empty.
+new ContentTypeImport<ImportedTilemap>(TilemapContentType, "csv", (filename, then) => {
+    fs.readFile(filename, "utf8", (err, data) => {
+        Error(err)
+        const lines = data.split(/\r?\n/)
+        // Editors often add a trailing line break.
+        while (lines.length && !lines[lines.length - 1].trim()) lines.pop()
+        const rows = lines.map(line => line.split(",").map(cell => cell.trim()))
+        const columns = rows.length ? rows[0].length : 0
+        const tiles: number[] = []
+        rows.forEach((row, rowIndex) => {
+            if (row.length != columns) Error(`Row ${rowIndex + 1} of "${filename}" has ${row.length} columns, but the first row has ${columns}`)
+            row.forEach((cell, columnIndex) => {
+                if (!cell) {
+                    tiles.push(-1)
+                    return
+                }
+                if (!/^-?\d+$/.test(cell) || +cell < -1) Error(`Column ${columnIndex + 1} of row ${rowIndex + 1} of "${filename}" is "${cell}", which is not a tile index`)
+                tiles.push(+cell)
+            })
+        })
+        const tilemaps: { [contentName: string]: ImportedTilemap } = {}
+        tilemaps[RemoveExtension(RemoveExtension(filename))] = {
+            Columns: columns,
+            Rows: rows.length,
+            Tiles: tiles
+        }
+        then(tilemaps)
+    })
+})
\ No newline at end of file
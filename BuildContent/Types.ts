@@ -7,6 +7,9 @@ type Configuration = {
 type Build = {
     LastModified: { [filename: string]: number }
 
+    // The files which content was imported from besides its own, such as the tilesets of maps, with their last modified times at the time.
+    Dependencies: { [filename: string]: { [dependency: string]: number } }
+
     ImportedContent: {
         [contentTypeFirstExtension: string]: {
             [filename: string]: {
@@ -24,20 +27,37 @@ type Build = {
     }
 }
 
+// A named rectangle within a sprite frame, relative to its origin.
+type SpriteSlice = {
+    readonly Name: string
+    readonly LeftPixels: number
+    readonly TopPixels: number
+    readonly WidthPixels: number
+    readonly HeightPixels: number
+}
+
 type ImportedSpriteFrame =
     {
+        readonly Animation?: undefined
         readonly Empty: false
         readonly PngFilename: string
         readonly OffsetLeftPixels: number
         readonly OffsetTopPixels: number
         readonly DurationSeconds: number
+        // Names of events raised when this frame is shown, such as "footstep".
+        readonly Events: string[]
+        readonly Slices: SpriteSlice[]
     } | {
+        readonly Animation?: undefined
         readonly Empty: true
         readonly DurationSeconds: number
+        readonly Events: string[]
+        readonly Slices: SpriteSlice[]
     }
 
 type PackedSpriteFrame =
     {
+        readonly Animation?: undefined
         readonly Empty: false
         readonly AtlasLeftPixels: number
         readonly AtlasTopPixels: number
@@ -46,11 +66,41 @@ type PackedSpriteFrame =
         readonly OffsetLeftPixels: number
         readonly OffsetTopPixels: number
         readonly DurationSeconds: number
+        readonly Events: string[]
+        readonly Slices: SpriteSlice[]
     } | {
+        readonly Animation?: undefined
         readonly Empty: true
         readonly DurationSeconds: number
+        readonly Events: string[]
+        readonly Slices: SpriteSlice[]
     }
 
+// As exported by Aseprite.
+type AnimationDirection = "forward" | "reverse" | "pingpong"
+
+type ImportedSpriteAnimation = {
+    readonly Animation: true
+    // In the order they were drawn, regardless of direction.
+    readonly Frames: ImportedSpriteFrame[]
+    readonly Direction: AnimationDirection
+    readonly Looping: boolean
+}
+
+type PackedSpriteAnimation = {
+    readonly Animation: true
+    readonly Frames: PackedSpriteFrame[]
+    readonly Direction: AnimationDirection
+    readonly Looping: boolean
+    // The duration of a single pass through the frames, following the direction.
+    readonly DurationSeconds: number
+}
+
+// Sprite content is either a single frame, or an animation (an Aseprite tag).
+type ImportedSprite = ImportedSpriteFrame | ImportedSpriteAnimation
+
+type PackedSprite = PackedSpriteFrame | PackedSpriteAnimation
+
 type SpritePackingHeader = {
     readonly AtlasWidthPixels: number
     readonly AtlasHeightPixels: number
@@ -58,28 +108,51 @@ type SpritePackingHeader = {
 
 type ImportedBackgroundFrame =
     {
+        readonly Animation?: undefined
         readonly Empty: false
         readonly PngFilename: string
         readonly WidthPixels: number
         readonly HeightPixels: number
         readonly DurationSeconds: number
     } | {
+        readonly Animation?: undefined
         readonly Empty: true
         readonly DurationSeconds: number
     }
 
 type PackedBackgroundFrame =
     {
+        readonly Animation?: undefined
         readonly Empty: false
         readonly Id: number
         readonly WidthPixels: number
         readonly HeightPixels: number
         readonly DurationSeconds: number
     } | {
+        readonly Animation?: undefined
         readonly Empty: true
         readonly DurationSeconds: number
     }
 
+type ImportedBackgroundAnimation = {
+    readonly Animation: true
+    readonly Frames: ImportedBackgroundFrame[]
+    readonly Direction: AnimationDirection
+    readonly Looping: boolean
+}
+
+type PackedBackgroundAnimation = {
+    readonly Animation: true
+    readonly Frames: PackedBackgroundFrame[]
+    readonly Direction: AnimationDirection
+    readonly Looping: boolean
+    readonly DurationSeconds: number
+}
+
+type ImportedBackground = ImportedBackgroundFrame | ImportedBackgroundAnimation
+
+type PackedBackground = PackedBackgroundFrame | PackedBackgroundAnimation
+
 type BackgroundPackingHeader = {}
 
 type ImportedSound = {
@@ -99,12 +172,16 @@ type SoundPackingHeader = {}
 type ImportedMusic = {
     readonly Directory: string
     readonly Gain: number
+    readonly LoopStartSeconds: number
+    readonly LoopEndSeconds: number
 }
 
 type PackedMusic = {
     readonly Id: number
     readonly Directory: string
     readonly Gain: number
+    readonly LoopStartSeconds: number
+    readonly LoopEndSeconds: number
 }
 
 type MusicPackingHeader = {}
@@ -122,4 +199,73 @@ type PackedDialog = {
 
 type DialogPackingHeader = {}
 
-export { Configuration, Build, ImportedSpriteFrame, PackedSpriteFrame, SpritePackingHeader, ImportedBackgroundFrame, PackedBackgroundFrame, BackgroundPackingHeader, ImportedSound, PackedSound, SoundPackingHeader, ImportedMusic, PackedMusic, MusicPackingHeader, ImportedDialog, PackedDialog, DialogPackingHeader }
\ No newline at end of file
+type ImportedTilemap = {
+    readonly Columns: number
+    readonly Rows: number
+    readonly Tiles: number[]
+}
+
+type PackedTilemap = {
+    readonly Columns: number
+    readonly Rows: number
+    readonly Tiles: number[]
+}
+
+type TilemapPackingHeader = {}
+
+type MapProperty = {
+    readonly Name: string
+    readonly Value: string | number | boolean
+}
+
+type MapObject = {
+    readonly Name: string
+    readonly Type: string
+    readonly LeftPixels: number
+    readonly TopPixels: number
+    readonly WidthPixels: number
+    readonly HeightPixels: number
+    readonly RotationDegrees: number
+    // An index into the map's tileset, or -1 when this is not a tile object.
+    readonly Tile: number
+    readonly Properties: MapProperty[]
+}
+
+type ImportedMap = {
+    readonly Columns: number
+    readonly Rows: number
+    readonly TileWidthPixels: number
+    readonly TileHeightPixels: number
+    // The content names of the sprites used for each tile index.
+    readonly Tileset: string[]
+    readonly TileLayers: {
+        readonly Name: string
+        readonly Tiles: number[]
+    }[]
+    readonly ObjectLayers: {
+        readonly Name: string
+        readonly Objects: MapObject[]
+    }[]
+    readonly Properties: MapProperty[]
+}
+
+type PackedMap = {
+    readonly Columns: number
+    readonly Rows: number
+    readonly TileWidthPixels: number
+    readonly TileHeightPixels: number
+    readonly Tileset: string[]
+    readonly TileLayers: {
+        readonly Name: string
+        readonly Tiles: number[]
+    }[]
+    readonly ObjectLayers: {
+        readonly Name: string
+        readonly Objects: MapObject[]
+    }[]
+    readonly Properties: MapProperty[]
+}
+
+type MapPackingHeader = {}
+
+export { Configuration, Build, AnimationDirection, SpriteSlice, ImportedSpriteFrame, PackedSpriteFrame, ImportedSpriteAnimation, PackedSpriteAnimation, ImportedSprite, PackedSprite, SpritePackingHeader, ImportedBackgroundFrame, PackedBackgroundFrame, ImportedBackgroundAnimation, PackedBackgroundAnimation, ImportedBackground, PackedBackground, BackgroundPackingHeader, ImportedSound, PackedSound, SoundPackingHeader, ImportedMusic, PackedMusic, MusicPackingHeader, ImportedDialog, PackedDialog, DialogPackingHeader, ImportedTilemap, PackedTilemap, TilemapPackingHeader, MapProperty, MapObject, ImportedMap, PackedMap, MapPackingHeader }
\ No newline at end of file
@@ -1,11 +1,44 @@
 /// <reference path="Types.ts" />
 
 /** A sprite frame, imported from non-code content. */
-declare abstract class SpriteFrame { }
+declare abstract class SpriteFrame {
+    /** The slices drawn over this frame in Aseprite, by name.  A slice named "Hitbox" replaces the default hitbox of Sprites showing this frame, and the pivot of a slice, if any, is used as this frame's origin. */
+    readonly Slices: { readonly [name: string]: SpriteSlice }
+}
+
+/** An animation of SpriteFrames, imported from a tag in Aseprite. */
+declare abstract class SpriteAnimation {
+    /** The frames of this animation, in the order in which they were drawn, regardless of Direction. */
+    readonly Frames: SpriteFrame[]
+
+    /** The order in which the frames of this animation are shown, as chosen in Aseprite. */
+    readonly Direction: PlaybackDirection
+
+    /** True when this animation is intended to repeat forever, otherwise, false. */
+    readonly Looping: boolean
+
+    /** The number of seconds taken to show the frames of this animation once, following Direction. */
+    readonly DurationSeconds: number
+}
 
 /** A background frame, imported from non-code content. */
 declare abstract class BackgroundFrame { }
 
+/** An animation of BackgroundFrames, imported from a tag in Aseprite. */
+declare abstract class BackgroundAnimation {
+    /** The frames of this animation, in the order in which they were drawn, regardless of Direction. */
+    readonly Frames: BackgroundFrame[]
+
+    /** The order in which the frames of this animation are shown, as chosen in Aseprite. */
+    readonly Direction: PlaybackDirection
+
+    /** True when this animation repeats forever, otherwise, false, in which case its last frame remains visible. */
+    readonly Looping: boolean
+
+    /** The number of seconds taken to show the frames of this animation once, following Direction. */
+    readonly DurationSeconds: number
+}
+
 /** A sound effect, imported from non-code content. */
 declare abstract class Sound { }
 
@@ -15,6 +48,41 @@ declare abstract class Music { }
 /** A line of dialog, imported from non-code content. */
 declare abstract class Dialog { }
 
+/** A Sound or Dialog being played by a scene object, returned by .PlaySound(...) and .PlayDialog(...). */
+declare abstract class SoundHandle {
+    /** Determines whether the Sound or Dialog has stopped, either because it finished, .Stop() was called or the scene object playing it was deleted.
+     * @returns {boolean} True when stopped, otherwise, false.
+     */
+    Stopped(): boolean
+
+    /** Stops the Sound or Dialog if it has not already stopped.  Its completion callback, if any, is not executed.
+     * @returns {SoundHandle} This SoundHandle, for chaining method calls "fluently" (.SetVolume(...).SetLooping(...)).
+     */
+    Stop(): SoundHandle
+
+    /** Gets the volume of the Sound or Dialog.
+     * @returns {float} The volume, where 0 is silent and 1 is the volume it was imported at.
+     */
+    Volume(): number
+
+    /** Changes the volume of the Sound or Dialog.
+     * @param {float} volume The new volume, where 0 is silent and 1 is the volume it was imported at.  Defaults to 1.
+     * @returns {SoundHandle} This SoundHandle, for chaining method calls "fluently" (.SetVolume(...).SetLooping(...)).
+     */
+    SetVolume(volume: number): SoundHandle
+
+    /** Determines whether the Sound or Dialog loops.
+     * @returns {boolean} True when looping, otherwise, false.
+     */
+    Looping(): boolean
+
+    /** Changes whether the Sound or Dialog loops, continuing from its current position.  Looping Sounds and Dialog never finish, so must be stopped.  Defaults to false.
+     * @param {boolean} looping True to loop, otherwise, false.
+     * @returns {SoundHandle} This SoundHandle, for chaining method calls "fluently" (.SetVolume(...).SetLooping(...)).
+     */
+    SetLooping(looping: boolean): SoundHandle
+}
+
 /** The width of the "safe zone", in virtual pixels. */
 declare const WidthVirtualPixels: number
 
@@ -51,6 +119,33 @@ declare class Viewport {
     */
     Show(): Viewport
 
+    /** Gets the layer this Viewport is drawn on, relative to its Viewports.
+     * @returns {integer} The layer this Viewport is drawn on.  Higher layers are drawn over lower layers.  Defaults to 0, which is also the layer static sprites are drawn on.
+     */
+    Layer(): number
+
+    /** Moves this Viewport to the front of a different layer, relative to its Viewports.
+     * @param {integer} layer The layer to draw this Viewport on.  Higher layers are drawn over lower layers.  Static sprites are drawn on layer 0.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SetLayer(layer: number): Viewport
+
+    /** Draws this Viewport over its Viewports on the same layer.  When its parent sorts its children by SortMode.VirtualPixelsFromTop, only affects siblings equally far from the top.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    BringToFront(): Viewport
+
+    /** Draws this Viewport beneath its Viewports on the same layer.  When its parent sorts its children by SortMode.VirtualPixelsFromTop, only affects siblings equally far from the top.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SendToBack(): Viewport
+
+    /** Changes the order in which the children of this Viewport are drawn within each layer.  The order is maintained as the children move.
+     * @param {SortMode} mode The order in which to draw the children of this Viewport.  Defaults to SortMode.InsertionOrder.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SortChildren(mode: SortMode): Viewport
+
     /** Disables this Viewport and all its children; clicks will not trigger actions until .Enable()-d.
      * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
@@ -61,6 +156,43 @@ declare class Viewport {
     */
     Enable(): Viewport
 
+    /** Sets the callback to execute when a mouse button or touch is pressed on this Viewport or its children.  Not called while Disable-d.
+     * @param {?Function} onPointerDown Called with the number of virtual pixels from the left and top of this Viewport which were pressed.  When not given, any previous callback is removed.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerDown(onPointerDown?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Viewport
+
+    /** Sets the callback to execute when a mouse or touch moves over this Viewport or its children.  Not called while Disable-d.
+     * @param {?Function} onPointerMove Called with the number of virtual pixels from the left and top of this Viewport the pointer is now at.  When not given, any previous callback is removed.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerMove(onPointerMove?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Viewport
+
+    /** Sets the callback to execute when a mouse button or touch is released on this Viewport or its children.  Not called while Disable-d.
+     * @param {?Function} onPointerUp Called with the number of virtual pixels from the left and top of this Viewport which were released.  When not given, any previous callback is removed.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerUp(onPointerUp?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Viewport
+
+    /** Sets the callback to execute when the mouse moves onto this Viewport or its children.  Not called while Disable-d.
+     * @param {?Function} onHoverEnter Called when the mouse moves onto this Viewport or its children.  When not given, any previous callback is removed.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnHoverEnter(onHoverEnter?: () => void): Viewport
+
+    /** Sets the callback to execute when the mouse moves off this Viewport or its children.  Always called following OnHoverEnter, even if since Disable-d.
+     * @param {?Function} onHoverLeave Called when the mouse moves off this Viewport or its children.  When not given, any previous callback is removed.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnHoverLeave(onHoverLeave?: () => void): Viewport
+
+    /** Makes this Viewport or its children draggable.  Drags cannot be started while Disable-d or Pause-d, and continue until the pointer is released.  They end without onDrop should this Viewport be deleted, Disable-d or Pause-d first.  If nested, the innermost draggable object is dragged.
+     * @param {?Function} onDrag Called with the number of virtual pixels the pointer has moved right and down since the last call.
+     * @param {?Function} onDrop Called when the pointer is released, ending the drag.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnDrag(onDrag?: (virtualPixelsRight: number, virtualPixelsDown: number) => void, onDrop?: () => void): Viewport
+
     /** Gets the number of virtual pixels this Viewport is to the right of its "docked" position.
      * @returns {float} The number of virtual pixels this Viewport is to the right of its "docked" position..
      */
@@ -83,35 +215,132 @@ declare class Viewport {
      * @param {integer} virtualPixelsFromTop The number of virtual pixels to place this Viewport below its "docked" position.
      * @param {float} durationSeconds The number of seconds to take to reach the destination.
      * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Viewport reaches the specified destination.
+     * @param {?Easing} easing An optional Easing describing how this Viewport accelerates and decelerates between its current location and the destination.  Defaults to Easing.Linear.
      * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
-    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void): Viewport
+    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Viewport
 
     /** Moves this Viewport from its current location to a specified location at a set speed.  Initially paused if this Viewport is .Pause()-d.
      * @param {integer} virtualPixelsFromLeft The number of virtual pixels to place this Viewport to the right of its "docked" position.
      * @param {integer} virtualPixelsFromTop The number of virtual pixels to place this Viewport below the parent scene object's origin.
-     * @param {float} pixelsPerSecond The number of pixels to cover per second.
+     * @param {float} pixelsPerSecond The number of pixels to cover per second, on average when an Easing is given.
      * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Viewport reaches the specified destination.
+     * @param {?Easing} easing An optional Easing describing how this Viewport accelerates and decelerates between its current location and the destination.  Defaults to Easing.Linear.
      * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
-    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void): Viewport
+    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Viewport
+
+    /** Gets the factor by which this Viewport and all its children are currently scaled.
+     * @returns {float} The factor by which this Viewport and all its children are currently scaled, where 1 is unscaled.
+     */
+    ScaleFactor(): number
+
+    /** Instantly scales this Viewport and all its children around its center, interrupting any previous .ScaleOver(...).  Not supported on IE9-.
+     * @param {float} factor The factor to scale by, where 1 is unscaled.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Scale(factor: number): Viewport
+
+    /** Scales this Viewport and all its children around its center from the current factor to a specified factor over the course of a set duration, interrupting any previous .ScaleOver(...).  Initially paused if this Viewport is .Pause()-d.  Not supported on IE9-.
+     * @param {float} factor The factor to scale to, where 1 is unscaled.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified factor.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Viewport reaches the specified factor.
+     * @param {?Easing} easing An optional Easing describing how the factor changes over time.  Defaults to Easing.Linear.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    ScaleOver(factor: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Viewport
+
+    /** Gets the number of degrees this Viewport and all its children are currently rotated clockwise.
+     * @returns {float} The number of degrees this Viewport and all its children are currently rotated clockwise.
+     */
+    RotationDegrees(): number
+
+    /** Instantly rotates this Viewport and all its children around its center, interrupting any previous .RotateOver(...).  Not supported on IE9-.
+     * @param {float} degrees The number of degrees to rotate clockwise, where 0 is unrotated.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Rotate(degrees: number): Viewport
+
+    /** Rotates this Viewport and all its children around its center from the current angle to a specified angle over the course of a set duration, interrupting any previous .RotateOver(...).  Initially paused if this Viewport is .Pause()-d.  Not supported on IE9-.
+     * @param {float} degrees The number of degrees to rotate clockwise to, where 0 is unrotated.  Values outside 0...360 result in multiple turns.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified angle.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Viewport reaches the specified angle.
+     * @param {?Easing} easing An optional Easing describing how the angle changes over time.  Defaults to Easing.Linear.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    RotateOver(degrees: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Viewport
+
+    /** Gets the current opacity of this Viewport and all its children.
+     * @returns {float} The current opacity of this Viewport and all its children, where 0 is fully transparent and 1 is fully opaque.
+     */
+    OpacityUnitInterval(): number
+
+    /** Instantly changes the opacity of this Viewport and all its children, interrupting any previous .FadeOver(...).
+     * @param {float} opacityUnitInterval The opacity to use, where 0 is fully transparent and 1 is fully opaque.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Fade(opacityUnitInterval: number): Viewport
+
+    /** Changes the opacity of this Viewport and all its children from the current opacity to a specified opacity over the course of a set duration, interrupting any previous .FadeOver(...).  Initially paused if this Viewport is .Pause()-d.
+     * @param {float} opacityUnitInterval The opacity to change to, where 0 is fully transparent and 1 is fully opaque.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified opacity.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Viewport reaches the specified opacity.
+     * @param {?Easing} easing An optional Easing describing how the opacity changes over time.  Defaults to Easing.Linear.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    FadeOver(opacityUnitInterval: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Viewport
+
+    /** Determines whether this Viewport and all its children are mirrored horizontally.
+     * @returns {boolean} True when mirrored horizontally, otherwise, false.
+     */
+    MirroredHorizontally(): boolean
+
+    /** Determines whether this Viewport and all its children are mirrored vertically.
+     * @returns {boolean} True when mirrored vertically, otherwise, false.
+     */
+    MirroredVertically(): boolean
+
+    /** Mirrors this Viewport and all its children around its center.  Sprites remain pixel-perfect.  Not supported on IE9-.
+     * @param {boolean} horizontally When true, left and right are swapped.
+     * @param {boolean} vertically When true, top and bottom are swapped.
+     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Mirror(horizontally: boolean, vertically: boolean): Viewport
+
+    /** Finds every Group and Sprite in this Viewport, however deeply nested, whose hitbox contains a point, including hidden ones.  Scaling, rotation and mirroring are not applied to hitboxes.
+     * @param {float} virtualPixelsFromLeft The distance from this Viewport's left edge to the point.
+     * @param {float} virtualPixelsFromTop The distance from this Viewport's top edge to the point.
+     * @returns {(Group | Sprite)[]} The Groups and Sprites found, which may be empty.
+     */
+    ObjectsAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number): (Group | Sprite)[]
+
+    /** Finds every Group and Sprite in this Viewport, however deeply nested, whose hitbox overlaps a rectangle, including hidden ones.  Scaling, rotation and mirroring are not applied to hitboxes.
+     * @param {float} virtualPixelsFromLeft The distance from this Viewport's left edge to the left edge of the rectangle.
+     * @param {float} virtualPixelsFromTop The distance from this Viewport's top edge to the top edge of the rectangle.
+     * @param {float} widthVirtualPixels The width of the rectangle.
+     * @param {float} heightVirtualPixels The height of the rectangle.
+     * @returns {(Group | Sprite)[]} The Groups and Sprites found, which may be empty.
+     */
+    ObjectsWithin(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, widthVirtualPixels: number, heightVirtualPixels: number): (Group | Sprite)[]
 
     /** Removes this Viewport and all its children from the scene graph.
      * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Delete(...).VirtualPixelsFromLeft(...)).
      */
     Delete(): Viewport
 
-    /** Plays a Sound from this Viewport's center, using positional audio if available.
+    /** Plays a Sound from this Viewport's center, using positional audio if available.  Paused and resumed along with this Viewport, and stopped when it is deleted.
      * @param {Sound} sound The Sound to play.
-     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     * @param {?Function} onCompletionIfUninterrupted An optional callback to execute when the Sound finishes playing.  This is not executed if it is stopped or this Viewport is deleted first, or while it loops.
+     * @returns {SoundHandle} A SoundHandle which can be used to stop the Sound, change its volume or loop it.
      */
-    PlaySound(sound: Sound): Viewport
+    PlaySound(sound: Sound, onCompletionIfUninterrupted?: () => void): SoundHandle
 
-    /** Plays a line of Dialog from this Viewport's center, using positional audio if available.
+    /** Plays a line of Dialog from this Viewport's center, using positional audio if available.  Paused and resumed along with this Viewport, and stopped when it is deleted.
      * @param {Dialog} dialog The Dialog to play.
-     * @returns {Viewport} This Viewport, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     * @param {?Function} onCompletionIfUninterrupted An optional callback to execute when the Dialog finishes playing.  This is not executed if it is stopped or this Viewport is deleted first, or while it loops.
+     * @returns {SoundHandle} A SoundHandle which can be used to stop the Dialog, change its volume or loop it.
      */
-    PlayDialog(dialog: Dialog): Viewport
+    PlayDialog(dialog: Dialog, onCompletionIfUninterrupted?: () => void): SoundHandle
 }
 
 declare class Group {
@@ -142,6 +371,33 @@ declare class Group {
     */
     Show(): Group
 
+    /** Gets the layer this Group is drawn on, relative to its siblings.
+     * @returns {integer} The layer this Group is drawn on.  Higher layers are drawn over lower layers.  Defaults to 0, which is also the layer static sprites are drawn on.
+     */
+    Layer(): number
+
+    /** Moves this Group to the front of a different layer, relative to its siblings.
+     * @param {integer} layer The layer to draw this Group on.  Higher layers are drawn over lower layers.  Static sprites are drawn on layer 0.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SetLayer(layer: number): Group
+
+    /** Draws this Group over its siblings on the same layer.  When its parent sorts its children by SortMode.VirtualPixelsFromTop, only affects siblings equally far from the top.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    BringToFront(): Group
+
+    /** Draws this Group beneath its siblings on the same layer.  When its parent sorts its children by SortMode.VirtualPixelsFromTop, only affects siblings equally far from the top.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SendToBack(): Group
+
+    /** Changes the order in which the children of this Group are drawn within each layer.  The order is maintained as the children move.
+     * @param {SortMode} mode The order in which to draw the children of this Group.  Defaults to SortMode.InsertionOrder.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SortChildren(mode: SortMode): Group
+
     /** Disables this Group and all its children; clicks will not trigger actions until .Enable()-d.
      * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
@@ -152,6 +408,43 @@ declare class Group {
     */
     Enable(): Group
 
+    /** Sets the callback to execute when a mouse button or touch is pressed on this Group or its children.  Not called while Disable-d.
+     * @param {?Function} onPointerDown Called with the number of virtual pixels from the left and top of this Group which were pressed.  When not given, any previous callback is removed.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerDown(onPointerDown?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Group
+
+    /** Sets the callback to execute when a mouse or touch moves over this Group or its children.  Not called while Disable-d.
+     * @param {?Function} onPointerMove Called with the number of virtual pixels from the left and top of this Group the pointer is now at.  When not given, any previous callback is removed.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerMove(onPointerMove?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Group
+
+    /** Sets the callback to execute when a mouse button or touch is released on this Group or its children.  Not called while Disable-d.
+     * @param {?Function} onPointerUp Called with the number of virtual pixels from the left and top of this Group which were released.  When not given, any previous callback is removed.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerUp(onPointerUp?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Group
+
+    /** Sets the callback to execute when the mouse moves onto this Group or its children.  Not called while Disable-d.
+     * @param {?Function} onHoverEnter Called when the mouse moves onto this Group or its children.  When not given, any previous callback is removed.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnHoverEnter(onHoverEnter?: () => void): Group
+
+    /** Sets the callback to execute when the mouse moves off this Group or its children.  Always called following OnHoverEnter, even if since Disable-d.
+     * @param {?Function} onHoverLeave Called when the mouse moves off this Group or its children.  When not given, any previous callback is removed.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnHoverLeave(onHoverLeave?: () => void): Group
+
+    /** Makes this Group or its children draggable.  Drags cannot be started while Disable-d or Pause-d, and continue until the pointer is released.  They end without onDrop should this Group be deleted, Disable-d or Pause-d first.  If nested, the innermost draggable object is dragged.
+     * @param {?Function} onDrag Called with the number of virtual pixels the pointer has moved right and down since the last call.
+     * @param {?Function} onDrop Called when the pointer is released, ending the drag.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnDrag(onDrag?: (virtualPixelsRight: number, virtualPixelsDown: number) => void, onDrop?: () => void): Group
+
     /** Gets the number of virtual pixels this Group is to the right of the parent scene object's origin.
      * @returns {float} The number of virtual pixels this Group is to the right of the parent scene object's origin.
      */
@@ -174,35 +467,154 @@ declare class Group {
      * @param {integer} virtualPixelsFromTop The number of virtual pixels to place this Group below the parent scene object's origin.
      * @param {float} durationSeconds The number of seconds to take to reach the destination.
      * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Group reaches the specified destination.
+     * @param {?Easing} easing An optional Easing describing how this Group accelerates and decelerates between its current location and the destination.  Defaults to Easing.Linear.
      * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
-    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void): Group
+    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Group
 
     /** Moves this Group from its current location to a specified location at a set speed.  Initially paused if this Group is .Pause()-d.
      * @param {integer} virtualPixelsFromLeft The number of virtual pixels to place this Group to the right of the parent scene object's origin.
      * @param {integer} virtualPixelsFromTop The number of virtual pixels to place this Group below the parent scene object's origin.
-     * @param {float} pixelsPerSecond The number of pixels to cover per second.
+     * @param {float} pixelsPerSecond The number of pixels to cover per second, on average when an Easing is given.
      * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Group reaches the specified destination.
+     * @param {?Easing} easing An optional Easing describing how this Group accelerates and decelerates between its current location and the destination.  Defaults to Easing.Linear.
      * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
-    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void): Group
+    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Group
+
+    /** Gets the factor by which this Group and all its children are currently scaled.
+     * @returns {float} The factor by which this Group and all its children are currently scaled, where 1 is unscaled.
+     */
+    ScaleFactor(): number
+
+    /** Instantly scales this Group and all its children around its origin, interrupting any previous .ScaleOver(...).  Not supported on IE9-.
+     * @param {float} factor The factor to scale by, where 1 is unscaled.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Scale(factor: number): Group
+
+    /** Scales this Group and all its children around its origin from the current factor to a specified factor over the course of a set duration, interrupting any previous .ScaleOver(...).  Initially paused if this Group is .Pause()-d.  Not supported on IE9-.
+     * @param {float} factor The factor to scale to, where 1 is unscaled.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified factor.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Group reaches the specified factor.
+     * @param {?Easing} easing An optional Easing describing how the factor changes over time.  Defaults to Easing.Linear.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    ScaleOver(factor: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Group
+
+    /** Gets the number of degrees this Group and all its children are currently rotated clockwise.
+     * @returns {float} The number of degrees this Group and all its children are currently rotated clockwise.
+     */
+    RotationDegrees(): number
+
+    /** Instantly rotates this Group and all its children around its origin, interrupting any previous .RotateOver(...).  Not supported on IE9-.
+     * @param {float} degrees The number of degrees to rotate clockwise, where 0 is unrotated.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Rotate(degrees: number): Group
+
+    /** Rotates this Group and all its children around its origin from the current angle to a specified angle over the course of a set duration, interrupting any previous .RotateOver(...).  Initially paused if this Group is .Pause()-d.  Not supported on IE9-.
+     * @param {float} degrees The number of degrees to rotate clockwise to, where 0 is unrotated.  Values outside 0...360 result in multiple turns.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified angle.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Group reaches the specified angle.
+     * @param {?Easing} easing An optional Easing describing how the angle changes over time.  Defaults to Easing.Linear.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    RotateOver(degrees: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Group
+
+    /** Gets the current opacity of this Group and all its children.
+     * @returns {float} The current opacity of this Group and all its children, where 0 is fully transparent and 1 is fully opaque.
+     */
+    OpacityUnitInterval(): number
+
+    /** Instantly changes the opacity of this Group and all its children, interrupting any previous .FadeOver(...).
+     * @param {float} opacityUnitInterval The opacity to use, where 0 is fully transparent and 1 is fully opaque.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Fade(opacityUnitInterval: number): Group
+
+    /** Changes the opacity of this Group and all its children from the current opacity to a specified opacity over the course of a set duration, interrupting any previous .FadeOver(...).  Initially paused if this Group is .Pause()-d.
+     * @param {float} opacityUnitInterval The opacity to change to, where 0 is fully transparent and 1 is fully opaque.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified opacity.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Group reaches the specified opacity.
+     * @param {?Easing} easing An optional Easing describing how the opacity changes over time.  Defaults to Easing.Linear.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    FadeOver(opacityUnitInterval: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Group
+
+    /** Determines whether this Group and all its children are mirrored horizontally.
+     * @returns {boolean} True when mirrored horizontally, otherwise, false.
+     */
+    MirroredHorizontally(): boolean
+
+    /** Determines whether this Group and all its children are mirrored vertically.
+     * @returns {boolean} True when mirrored vertically, otherwise, false.
+     */
+    MirroredVertically(): boolean
+
+    /** Mirrors this Group and all its children around its origin.  Sprites remain pixel-perfect.  Not supported on IE9-.
+     * @param {boolean} horizontally When true, left and right are swapped.
+     * @param {boolean} vertically When true, top and bottom are swapped.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Mirror(horizontally: boolean, vertically: boolean): Group
+
+    /** Replaces the default hitbox of this Group with an axis-aligned rectangle, used by .Overlaps(...), .OnOverlapEnter(...), .OnOverlapExit(...) and Viewport queries.  Scaling, rotation and mirroring are not applied to hitboxes.
+     * @param {float} leftVirtualPixels The distance from this Group's origin to the left edge of the hitbox.  Negative values are to the left.
+     * @param {float} topVirtualPixels The distance from this Group's origin to the top edge of the hitbox.  Negative values are above.
+     * @param {float} widthVirtualPixels The width of the hitbox.  A hitbox with no area never overlaps anything.
+     * @param {float} heightVirtualPixels The height of the hitbox.  A hitbox with no area never overlaps anything.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SetHitbox(leftVirtualPixels: number, topVirtualPixels: number, widthVirtualPixels: number, heightVirtualPixels: number): Group
+
+    /** Reverts a previous .SetHitbox(...), so that this Group has no hitbox.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    ClearHitbox(): Group
+
+    /** Determines whether the hitbox of this Group currently overlaps that of another Group or Sprite in the same Viewport, including while either is part-way through a .MoveOver(...) or .Pause()-d.  Hitboxes which only touch do not overlap.
+     * @param {Group | Sprite} other The Group or Sprite to check for overlap with.
+     * @returns {boolean} True when both have hitboxes, are in the same Viewport and overlap, otherwise, false.
+     */
+    Overlaps(other: Group | Sprite): boolean
+
+    /** Sets the callback executed when the hitbox of another Group or Sprite in the same Viewport begins to overlap that of this Group.  Its parents and children are not included.  Nothing is executed while this Group is .Pause()-d; any changes are reported once it is .Resume()-d.
+     * @param {?Function} onOverlapEnter An optional callback to execute, given the Group or Sprite now overlapping.  When undefined, any previous callback is removed.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnOverlapEnter(onOverlapEnter?: (other: Group | Sprite) => void): Group
+
+    /** Sets the callback executed when the hitbox of another Group or Sprite in the same Viewport stops overlapping that of this Group, including when it is deleted.  Its parents and children are not included.  Nothing is executed while this Group is .Pause()-d; any changes are reported once it is .Resume()-d.
+     * @param {?Function} onOverlapExit An optional callback to execute, given the Group or Sprite no longer overlapping.  When undefined, any previous callback is removed.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnOverlapExit(onOverlapExit?: (other: Group | Sprite) => void): Group
+
+    /** Moves this Group and all its children to a different parent without interrupting any motion, animation or sounds.  Its location is kept relative to the new parent.  It becomes paused, disabled or deleted if the new parent is.  It is drawn at the front of its layer.
+     * @param {Viewport | Group} parent The scene object to move this Group into.  Must not be this Group or one of its children.
+     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    MoveTo(parent: Viewport | Group): Group
 
     /** Removes this Group and all its children from the scene graph.
      * @returns {Group} This Group, for chaining method calls "fluently" (.Delete(...).VirtualPixelsFromLeft(...)).
      */
     Delete(): Group
 
-    /** Plays a Sound from this Group, using positional audio if available.
+    /** Plays a Sound from this Group, using positional audio if available.  Paused and resumed along with this Group, and stopped when it is deleted.
      * @param {Sound} sound The Sound to play.
-     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     * @param {?Function} onCompletionIfUninterrupted An optional callback to execute when the Sound finishes playing.  This is not executed if it is stopped or this Group is deleted first, or while it loops.
+     * @returns {SoundHandle} A SoundHandle which can be used to stop the Sound, change its volume or loop it.
      */
-    PlaySound(sound: Sound): Group
+    PlaySound(sound: Sound, onCompletionIfUninterrupted?: () => void): SoundHandle
 
-    /** Plays a line of Dialog from this Group, using positional audio if available.
+    /** Plays a line of Dialog from this Group, using positional audio if available.  Paused and resumed along with this Group, and stopped when it is deleted.
      * @param {Dialog} dialog The Dialog to play.
-     * @returns {Group} This Group, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     * @param {?Function} onCompletionIfUninterrupted An optional callback to execute when the Dialog finishes playing.  This is not executed if it is stopped or this Group is deleted first, or while it loops.
+     * @returns {SoundHandle} A SoundHandle which can be used to stop the Dialog, change its volume or loop it.
      */
-    PlayDialog(dialog: Dialog): Group
+    PlayDialog(dialog: Dialog, onCompletionIfUninterrupted?: () => void): SoundHandle
 }
 
 declare class Sprite {
@@ -232,6 +644,27 @@ declare class Sprite {
     */
     Show(): Sprite
 
+    /** Gets the layer this Sprite is drawn on, relative to its siblings.
+     * @returns {integer} The layer this Sprite is drawn on.  Higher layers are drawn over lower layers.  Defaults to 0, which is also the layer static sprites are drawn on.
+     */
+    Layer(): number
+
+    /** Moves this Sprite to the front of a different layer, relative to its siblings.
+     * @param {integer} layer The layer to draw this Sprite on.  Higher layers are drawn over lower layers.  Static sprites are drawn on layer 0.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SetLayer(layer: number): Sprite
+
+    /** Draws this Sprite over its siblings on the same layer.  When its parent sorts its children by SortMode.VirtualPixelsFromTop, only affects siblings equally far from the top.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    BringToFront(): Sprite
+
+    /** Draws this Sprite beneath its siblings on the same layer.  When its parent sorts its children by SortMode.VirtualPixelsFromTop, only affects siblings equally far from the top.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SendToBack(): Sprite
+
     /** Disables this Sprite; clicks will not trigger actions until .Enable()-d.
      * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
@@ -242,18 +675,118 @@ declare class Sprite {
     */
     Enable(): Sprite
 
+    /** Sets the callback to execute when a mouse button or touch is pressed on this Sprite.  Not called while Disable-d.
+     * @param {?Function} onPointerDown Called with the number of virtual pixels from the left and top of this Sprite which were pressed.  When not given, any previous callback is removed.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerDown(onPointerDown?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Sprite
+
+    /** Sets the callback to execute when a mouse or touch moves over this Sprite.  Not called while Disable-d.
+     * @param {?Function} onPointerMove Called with the number of virtual pixels from the left and top of this Sprite the pointer is now at.  When not given, any previous callback is removed.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerMove(onPointerMove?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Sprite
+
+    /** Sets the callback to execute when a mouse button or touch is released on this Sprite.  Not called while Disable-d.
+     * @param {?Function} onPointerUp Called with the number of virtual pixels from the left and top of this Sprite which were released.  When not given, any previous callback is removed.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerUp(onPointerUp?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Sprite
+
+    /** Sets the callback to execute when the mouse moves onto this Sprite.  Not called while Disable-d.
+     * @param {?Function} onHoverEnter Called when the mouse moves onto this Sprite.  When not given, any previous callback is removed.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnHoverEnter(onHoverEnter?: () => void): Sprite
+
+    /** Sets the callback to execute when the mouse moves off this Sprite.  Always called following OnHoverEnter, even if since Disable-d.
+     * @param {?Function} onHoverLeave Called when the mouse moves off this Sprite.  When not given, any previous callback is removed.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnHoverLeave(onHoverLeave?: () => void): Sprite
+
+    /** Makes this Sprite draggable.  Drags cannot be started while Disable-d or Pause-d, and continue until the pointer is released.  They end without onDrop should this Sprite be deleted, Disable-d or Pause-d first.  If nested, the innermost draggable object is dragged.
+     * @param {?Function} onDrag Called with the number of virtual pixels the pointer has moved right and down since the last call.
+     * @param {?Function} onDrop Called when the pointer is released, ending the drag.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnDrag(onDrag?: (virtualPixelsRight: number, virtualPixelsDown: number) => void, onDrop?: () => void): Sprite
+
     /** Plays a non-looping animation.  If no subsequent animation is played, the last frame remains visible.  Initially paused if this Sprite is .Pause()-d.
-     * @param {SpriteFrame | SpriteFrame[]} animation An animation of one or more frames to play.
+     * @param {SpriteFrame | SpriteAnimation | SpriteFrame[]} animation An animation of one or more frames to play.  SpriteAnimations play in their own Direction, which the PlaybackDirection is combined with.
      * @param {?function} onCompletionIfUninterrupted An optional callback to execute if and when the animation completes.
+     * @param {?function} onEvent An optional callback to execute as each frame is shown, once for each of its events, given the event's name.  Events are taken from the user data of the frame's cels in Aseprite, such as "footstep".
      * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
      */
-    Play(animation: SpriteFrame | SpriteFrame[], onCompletionIfUninterrupted?: () => void): Sprite
+    Play(animation: SpriteFrame | SpriteAnimation | SpriteFrame[], onCompletionIfUninterrupted?: () => void, onEvent?: (event: string) => void): Sprite
 
     /** Plays a looping animation.  Initially paused if this Sprite is .Pause()-d.
-     * @param {SpriteFrame | SpriteFrame[]} animation An animation of one or more frames to play.
+     * @param {SpriteFrame | SpriteAnimation | SpriteFrame[]} animation An animation of one or more frames to play.  SpriteAnimations play in their own Direction, which the PlaybackDirection is combined with.
+     * @param {?function} onEvent An optional callback to execute as each frame is shown, once for each of its events, given the event's name.  Events are taken from the user data of the frame's cels in Aseprite, such as "footstep".
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Loop(animation: SpriteFrame | SpriteAnimation | SpriteFrame[], onEvent?: (event: string) => void): Sprite
+
+    /** Gets the speed at which this Sprite plays animations.
+     * @returns {float} The number of seconds of animation played per second, where 1 is normal speed.  Defaults to 1.
+     */
+    PlaybackRate(): number
+
+    /** Changes the speed at which this Sprite plays animations, including the one currently playing, which continues from its current point.
+     * @param {float} rate The number of seconds of animation to play per second, where 1 is normal speed, 0.5 is half speed and 2 is double speed.  Must be greater than zero.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SetPlaybackRate(rate: number): Sprite
+
+    /** Gets the order in which this Sprite shows the frames of animations.
+     * @returns {PlaybackDirection} The order in which frames are shown.  Defaults to PlaybackDirection.Forward.
+     */
+    PlaybackDirection(): PlaybackDirection
+
+    /** Changes the order in which this Sprite shows the frames of animations, including the one currently playing, which continues from its current frame.
+     * SpriteAnimations play in their own Direction when this is Forward, the other way around when this is Reverse, and back and forth when either is PingPong.
+     * @param {PlaybackDirection} direction The order in which to show frames.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SetPlaybackDirection(direction: PlaybackDirection): Sprite
+
+    /** Gets the index of the frame this Sprite is currently showing within the animation last given to .Play(...) or .Loop(...).
+     * @returns {integer} The index of the frame currently shown, where 0 is the first frame, regardless of the PlaybackDirection.  0 when no animation has been played.
+     */
+    FrameIndex(): number
+
+    /** Jumps to the start of a frame of the animation currently playing, which continues from there.  Events of the frame are not executed.
+     * @param {integer} frameIndex The index of the frame to jump to, where 0 is the first frame, regardless of the PlaybackDirection.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SeekFrame(frameIndex: number): Sprite
+
+    /** Jumps to a point in time in the animation currently playing, which continues from there.  Events of the frame jumped to are not executed.
+     * @param {float} seconds The number of seconds from the start of the animation to jump to, following the PlaybackDirection and ignoring the PlaybackRate.  Wraps around when the animation is looping.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SeekSeconds(seconds: number): Sprite
+
+    /** Determines whether animation of this Sprite has been .PauseAnimation()-d.  This is independent of .Pause().
+     * @returns {boolean} True when animation has been paused, otherwise, false.
+     */
+    AnimationPaused(): boolean
+
+    /** Pauses animation of this Sprite until .ResumeAnimation()-d, while motion and other changes continue.  Animations played in the meantime are initially paused.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    PauseAnimation(): Sprite
+
+    /** Resumes animation of this Sprite from where it was .PauseAnimation()-d.  Animation remains paused while this Sprite is itself .Pause()-d.
      * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
      */
-    Loop(animation: SpriteFrame | SpriteFrame[]): Sprite
+    ResumeAnimation(): Sprite
+
+    /** Finds every Group and Sprite in the same Viewport, however deeply nested, whose hitbox overlaps a slice of the frame this Sprite is currently showing, such as an attack box drawn in Aseprite.  This Sprite is not included.  Scaling, rotation and mirroring are not applied.
+     * @param {string} name The name of the slice, as given in Aseprite.
+     * @returns {(Group | Sprite)[]} The Groups and Sprites found, which is empty when the current frame has no such slice.
+     */
+    ObjectsInSlice(name: string): (Group | Sprite)[]
 
     /** Gets the number of virtual pixels this Sprite is to the right of the parent scene object's origin.
      * @returns {float} The number of virtual pixels this Sprite is to the right of the parent scene object's origin.
@@ -277,56 +810,175 @@ declare class Sprite {
      * @param {integer} virtualPixelsFromTop The number of virtual pixels to place this Sprite below the parent scene object's origin.
      * @param {float} durationSeconds The number of seconds to take to reach the destination.
      * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Sprite reaches the specified destination.
+     * @param {?Easing} easing An optional Easing describing how this Sprite accelerates and decelerates between its current location and the destination.  Defaults to Easing.Linear.
      * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
-    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void): Sprite
+    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Sprite
 
     /** Moves this Sprite from its current location to a specified location at a set speed.  Initially paused if this Sprite is .Pause()-d.
      * @param {integer} virtualPixelsFromLeft The number of virtual pixels to place this Sprite to the right of the parent scene object's origin.
      * @param {integer} virtualPixelsFromTop The number of virtual pixels to place this Sprite below the parent scene object's origin.
-     * @param {float} pixelsPerSecond The number of pixels to cover per second.
+     * @param {float} pixelsPerSecond The number of pixels to cover per second, on average when an Easing is given.
      * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Sprite reaches the specified destination.
+     * @param {?Easing} easing An optional Easing describing how this Sprite accelerates and decelerates between its current location and the destination.  Defaults to Easing.Linear.
      * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
-    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void): Sprite
+    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Sprite
 
-    /** Removes this Sprite from the scene graph.
-     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Delete(...).VirtualPixelsFromLeft(...)).
+    /** Gets the factor by which this Sprite are currently scaled.
+     * @returns {float} The factor by which this Sprite are currently scaled, where 1 is unscaled.
      */
-    Delete(): Sprite
+    ScaleFactor(): number
 
-    /** Plays a Sound from this Sprite, using positional audio if available.
-     * @param {Sound} sound The Sound to play.
+    /** Instantly scales this Sprite around its origin, interrupting any previous .ScaleOver(...).  Not supported on IE9-.
+     * @param {float} factor The factor to scale by, where 1 is unscaled.
      * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
      */
-    PlaySound(sound: Sound): Sprite
+    Scale(factor: number): Sprite
 
-    /** Plays a line of Dialog from this Sprite, using positional audio if available.
-     * @param {Dialog} dialog The Dialog to play.
+    /** Scales this Sprite around its origin from the current factor to a specified factor over the course of a set duration, interrupting any previous .ScaleOver(...).  Initially paused if this Sprite is .Pause()-d.  Not supported on IE9-.
+     * @param {float} factor The factor to scale to, where 1 is unscaled.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified factor.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Sprite reaches the specified factor.
+     * @param {?Easing} easing An optional Easing describing how the factor changes over time.  Defaults to Easing.Linear.
      * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
      */
-    PlayDialog(dialog: Dialog): Sprite
-}
+    ScaleOver(factor: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Sprite
 
-declare class Background {
-    /** Displays a BackgroundFrame inside a Viewport or Group.  May fail to load.  Does not block clicks.
-     * @param {Viewport | Group} parent The parent scene object to add the new Background to.
-     * @param {BackgroundFrame | BackgroundFrame[]} animation The BackgroundFrame(s) to play.
-    */
-    constructor(parent: Viewport | Group, animation: BackgroundFrame | BackgroundFrame[])
+    /** Gets the number of degrees this Sprite are currently rotated clockwise.
+     * @returns {float} The number of degrees this Sprite are currently rotated clockwise.
+     */
+    RotationDegrees(): number
 
-    /** Pauses this Background; motion and animation will be paused until this Background is Resume -d.
-     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
-    */
-    Pause(): Background
+    /** Instantly rotates this Sprite around its origin, interrupting any previous .RotateOver(...).  Not supported on IE9-.
+     * @param {float} degrees The number of degrees to rotate clockwise, where 0 is unrotated.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Rotate(degrees: number): Sprite
 
-    /** Resumes this Background; motion and animation will resume from where they were .Pause()-d.
-     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
-    */
-    Resume(): Background
+    /** Rotates this Sprite around its origin from the current angle to a specified angle over the course of a set duration, interrupting any previous .RotateOver(...).  Initially paused if this Sprite is .Pause()-d.  Not supported on IE9-.
+     * @param {float} degrees The number of degrees to rotate clockwise to, where 0 is unrotated.  Values outside 0...360 result in multiple turns.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified angle.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Sprite reaches the specified angle.
+     * @param {?Easing} easing An optional Easing describing how the angle changes over time.  Defaults to Easing.Linear.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    RotateOver(degrees: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Sprite
 
-    /** Hides this Background.
-     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    /** Gets the current opacity of this Sprite.
+     * @returns {float} The current opacity of this Sprite, where 0 is fully transparent and 1 is fully opaque.
+     */
+    OpacityUnitInterval(): number
+
+    /** Instantly changes the opacity of this Sprite, interrupting any previous .FadeOver(...).
+     * @param {float} opacityUnitInterval The opacity to use, where 0 is fully transparent and 1 is fully opaque.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Fade(opacityUnitInterval: number): Sprite
+
+    /** Changes the opacity of this Sprite from the current opacity to a specified opacity over the course of a set duration, interrupting any previous .FadeOver(...).  Initially paused if this Sprite is .Pause()-d.
+     * @param {float} opacityUnitInterval The opacity to change to, where 0 is fully transparent and 1 is fully opaque.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified opacity.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Sprite reaches the specified opacity.
+     * @param {?Easing} easing An optional Easing describing how the opacity changes over time.  Defaults to Easing.Linear.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    FadeOver(opacityUnitInterval: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Sprite
+
+    /** Determines whether this Sprite are mirrored horizontally.
+     * @returns {boolean} True when mirrored horizontally, otherwise, false.
+     */
+    MirroredHorizontally(): boolean
+
+    /** Determines whether this Sprite are mirrored vertically.
+     * @returns {boolean} True when mirrored vertically, otherwise, false.
+     */
+    MirroredVertically(): boolean
+
+    /** Mirrors this Sprite around its origin.  Sprites remain pixel-perfect.  Not supported on IE9-.
+     * @param {boolean} horizontally When true, left and right are swapped.
+     * @param {boolean} vertically When true, top and bottom are swapped.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Mirror(horizontally: boolean, vertically: boolean): Sprite
+
+    /** Replaces the default hitbox of this Sprite with an axis-aligned rectangle, used by .Overlaps(...), .OnOverlapEnter(...), .OnOverlapExit(...) and Viewport queries.  Scaling, rotation and mirroring are not applied to hitboxes.
+     * @param {float} leftVirtualPixels The distance from this Sprite's origin to the left edge of the hitbox.  Negative values are to the left.
+     * @param {float} topVirtualPixels The distance from this Sprite's origin to the top edge of the hitbox.  Negative values are above.
+     * @param {float} widthVirtualPixels The width of the hitbox.  A hitbox with no area never overlaps anything.
+     * @param {float} heightVirtualPixels The height of the hitbox.  A hitbox with no area never overlaps anything.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SetHitbox(leftVirtualPixels: number, topVirtualPixels: number, widthVirtualPixels: number, heightVirtualPixels: number): Sprite
+
+    /** Reverts a previous .SetHitbox(...), so that this Sprite's hitbox is again the slice named "Hitbox" of the frame it is currently showing, or when there is none, the trimmed bounds of that frame.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    ClearHitbox(): Sprite
+
+    /** Determines whether the hitbox of this Sprite currently overlaps that of another Group or Sprite in the same Viewport, including while either is part-way through a .MoveOver(...) or .Pause()-d.  Hitboxes which only touch do not overlap.
+     * @param {Group | Sprite} other The Group or Sprite to check for overlap with.
+     * @returns {boolean} True when both have hitboxes, are in the same Viewport and overlap, otherwise, false.
+     */
+    Overlaps(other: Group | Sprite): boolean
+
+    /** Sets the callback executed when the hitbox of another Group or Sprite in the same Viewport begins to overlap that of this Sprite.  Its parents and children are not included.  Nothing is executed while this Sprite is .Pause()-d; any changes are reported once it is .Resume()-d.
+     * @param {?Function} onOverlapEnter An optional callback to execute, given the Group or Sprite now overlapping.  When undefined, any previous callback is removed.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnOverlapEnter(onOverlapEnter?: (other: Group | Sprite) => void): Sprite
+
+    /** Sets the callback executed when the hitbox of another Group or Sprite in the same Viewport stops overlapping that of this Sprite, including when it is deleted.  Its parents and children are not included.  Nothing is executed while this Sprite is .Pause()-d; any changes are reported once it is .Resume()-d.
+     * @param {?Function} onOverlapExit An optional callback to execute, given the Group or Sprite no longer overlapping.  When undefined, any previous callback is removed.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnOverlapExit(onOverlapExit?: (other: Group | Sprite) => void): Sprite
+
+    /** Moves this Sprite to a different parent without interrupting any motion, animation or sounds.  Its location is kept relative to the new parent.  It becomes paused, disabled or deleted if the new parent is.  It is drawn at the front of its layer.
+     * @param {Viewport | Group} parent The scene object to move this Sprite into.  Must not be this Sprite or one of its children.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    MoveTo(parent: Viewport | Group): Sprite
+
+    /** Removes this Sprite from the scene graph.
+     * @returns {Sprite} This Sprite, for chaining method calls "fluently" (.Delete(...).VirtualPixelsFromLeft(...)).
+     */
+    Delete(): Sprite
+
+    /** Plays a Sound from this Sprite, using positional audio if available.  Paused and resumed along with this Sprite, and stopped when it is deleted.
+     * @param {Sound} sound The Sound to play.
+     * @param {?Function} onCompletionIfUninterrupted An optional callback to execute when the Sound finishes playing.  This is not executed if it is stopped or this Sprite is deleted first, or while it loops.
+     * @returns {SoundHandle} A SoundHandle which can be used to stop the Sound, change its volume or loop it.
+     */
+    PlaySound(sound: Sound, onCompletionIfUninterrupted?: () => void): SoundHandle
+
+    /** Plays a line of Dialog from this Sprite, using positional audio if available.  Paused and resumed along with this Sprite, and stopped when it is deleted.
+     * @param {Dialog} dialog The Dialog to play.
+     * @param {?Function} onCompletionIfUninterrupted An optional callback to execute when the Dialog finishes playing.  This is not executed if it is stopped or this Sprite is deleted first, or while it loops.
+     * @returns {SoundHandle} A SoundHandle which can be used to stop the Dialog, change its volume or loop it.
+     */
+    PlayDialog(dialog: Dialog, onCompletionIfUninterrupted?: () => void): SoundHandle
+}
+
+declare class Background {
+    /** Displays a BackgroundFrame inside a Viewport or Group.  May fail to load.  Does not block clicks.
+     * @param {Viewport | Group} parent The parent scene object to add the new Background to.
+     * @param {BackgroundFrame | BackgroundAnimation | BackgroundFrame[]} animation The BackgroundFrame(s) to play.  Arrays of BackgroundFrames are looped.
+    */
+    constructor(parent: Viewport | Group, animation: BackgroundFrame | BackgroundAnimation | BackgroundFrame[])
+
+    /** Pauses this Background; motion and animation will be paused until this Background is Resume -d.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    */
+    Pause(): Background
+
+    /** Resumes this Background; motion and animation will resume from where they were .Pause()-d.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    */
+    Resume(): Background
+
+    /** Hides this Background.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
     Hide(): Background
 
@@ -335,6 +987,27 @@ declare class Background {
     */
     Show(): Background
 
+    /** Gets the layer this Background is drawn on, relative to its siblings.
+     * @returns {integer} The layer this Background is drawn on.  Higher layers are drawn over lower layers.  Defaults to 0, which is also the layer static sprites are drawn on.
+     */
+    Layer(): number
+
+    /** Moves this Background to the front of a different layer, relative to its siblings.
+     * @param {integer} layer The layer to draw this Background on.  Higher layers are drawn over lower layers.  Static sprites are drawn on layer 0.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SetLayer(layer: number): Background
+
+    /** Draws this Background over its siblings on the same layer.  When its parent sorts its children by SortMode.VirtualPixelsFromTop, only affects siblings equally far from the top.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    BringToFront(): Background
+
+    /** Draws this Background beneath its siblings on the same layer.  When its parent sorts its children by SortMode.VirtualPixelsFromTop, only affects siblings equally far from the top.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SendToBack(): Background
+
     /** Gets the number of virtual pixels this Background is to the right of the parent scene object's origin.
      * @returns {float} The number of virtual pixels this Background is to the right of the parent scene object's origin.
      */
@@ -357,35 +1030,122 @@ declare class Background {
      * @param {integer} virtualPixelsFromTop The number of virtual pixels to place this Background below the parent scene object's origin.
      * @param {float} durationSeconds The number of seconds to take to reach the destination.
      * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Background reaches the specified destination.
+     * @param {?Easing} easing An optional Easing describing how this Background accelerates and decelerates between its current location and the destination.  Defaults to Easing.Linear.
      * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
-    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void): Background
+    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Background
 
     /** Moves this Background from its current location to a specified location at a set speed.  Initially paused if this Background is .Pause()-d.
      * @param {integer} virtualPixelsFromLeft The number of virtual pixels to place this Background to the right of the parent scene object's origin.
      * @param {integer} virtualPixelsFromTop The number of virtual pixels to place this Background below the parent scene object's origin.
-     * @param {float} pixelsPerSecond The number of pixels to cover per second.
+     * @param {float} pixelsPerSecond The number of pixels to cover per second, on average when an Easing is given.
      * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Background reaches the specified destination.
+     * @param {?Easing} easing An optional Easing describing how this Background accelerates and decelerates between its current location and the destination.  Defaults to Easing.Linear.
      * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
     */
-    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void): Background
+    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Background
+
+    /** Gets the factor by which this Background are currently scaled.
+     * @returns {float} The factor by which this Background are currently scaled, where 1 is unscaled.
+     */
+    ScaleFactor(): number
+
+    /** Instantly scales this Background around its origin, interrupting any previous .ScaleOver(...).  Not supported on IE9-.
+     * @param {float} factor The factor to scale by, where 1 is unscaled.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Scale(factor: number): Background
+
+    /** Scales this Background around its origin from the current factor to a specified factor over the course of a set duration, interrupting any previous .ScaleOver(...).  Initially paused if this Background is .Pause()-d.  Not supported on IE9-.
+     * @param {float} factor The factor to scale to, where 1 is unscaled.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified factor.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Background reaches the specified factor.
+     * @param {?Easing} easing An optional Easing describing how the factor changes over time.  Defaults to Easing.Linear.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    ScaleOver(factor: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Background
+
+    /** Gets the number of degrees this Background are currently rotated clockwise.
+     * @returns {float} The number of degrees this Background are currently rotated clockwise.
+     */
+    RotationDegrees(): number
+
+    /** Instantly rotates this Background around its origin, interrupting any previous .RotateOver(...).  Not supported on IE9-.
+     * @param {float} degrees The number of degrees to rotate clockwise, where 0 is unrotated.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Rotate(degrees: number): Background
+
+    /** Rotates this Background around its origin from the current angle to a specified angle over the course of a set duration, interrupting any previous .RotateOver(...).  Initially paused if this Background is .Pause()-d.  Not supported on IE9-.
+     * @param {float} degrees The number of degrees to rotate clockwise to, where 0 is unrotated.  Values outside 0...360 result in multiple turns.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified angle.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Background reaches the specified angle.
+     * @param {?Easing} easing An optional Easing describing how the angle changes over time.  Defaults to Easing.Linear.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    RotateOver(degrees: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Background
+
+    /** Gets the current opacity of this Background.
+     * @returns {float} The current opacity of this Background, where 0 is fully transparent and 1 is fully opaque.
+     */
+    OpacityUnitInterval(): number
+
+    /** Instantly changes the opacity of this Background, interrupting any previous .FadeOver(...).
+     * @param {float} opacityUnitInterval The opacity to use, where 0 is fully transparent and 1 is fully opaque.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Fade(opacityUnitInterval: number): Background
+
+    /** Changes the opacity of this Background from the current opacity to a specified opacity over the course of a set duration, interrupting any previous .FadeOver(...).  Initially paused if this Background is .Pause()-d.
+     * @param {float} opacityUnitInterval The opacity to change to, where 0 is fully transparent and 1 is fully opaque.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified opacity.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Background reaches the specified opacity.
+     * @param {?Easing} easing An optional Easing describing how the opacity changes over time.  Defaults to Easing.Linear.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    FadeOver(opacityUnitInterval: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Background
+
+    /** Determines whether this Background are mirrored horizontally.
+     * @returns {boolean} True when mirrored horizontally, otherwise, false.
+     */
+    MirroredHorizontally(): boolean
+
+    /** Determines whether this Background are mirrored vertically.
+     * @returns {boolean} True when mirrored vertically, otherwise, false.
+     */
+    MirroredVertically(): boolean
+
+    /** Mirrors this Background around its origin.  Sprites remain pixel-perfect.  Not supported on IE9-.
+     * @param {boolean} horizontally When true, left and right are swapped.
+     * @param {boolean} vertically When true, top and bottom are swapped.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Mirror(horizontally: boolean, vertically: boolean): Background
+
+    /** Moves this Background to a different parent without interrupting any motion, animation or sounds.  Its location is kept relative to the new parent.  It becomes paused, disabled or deleted if the new parent is.  It is drawn at the front of its layer.
+     * @param {Viewport | Group} parent The scene object to move this Background into.  Must not be this Background or one of its children.
+     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    MoveTo(parent: Viewport | Group): Background
 
     /** Removes this Background from the scene graph.
      * @returns {Background} This Background, for chaining method calls "fluently" (.Delete(...).VirtualPixelsFromLeft(...)).
      */
     Delete(): Background
 
-    /** Plays a Sound from this Background, using positional audio if available.
+    /** Plays a Sound from this Background, using positional audio if available.  Paused and resumed along with this Background, and stopped when it is deleted.
      * @param {Sound} sound The Sound to play.
-     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     * @param {?Function} onCompletionIfUninterrupted An optional callback to execute when the Sound finishes playing.  This is not executed if it is stopped or this Background is deleted first, or while it loops.
+     * @returns {SoundHandle} A SoundHandle which can be used to stop the Sound, change its volume or loop it.
      */
-    PlaySound(sound: Sound): Background
+    PlaySound(sound: Sound, onCompletionIfUninterrupted?: () => void): SoundHandle
 
-    /** Plays a line of Dialog from this Background, using positional audio if available.
+    /** Plays a line of Dialog from this Background, using positional audio if available.  Paused and resumed along with this Background, and stopped when it is deleted.
      * @param {Dialog} dialog The Dialog to play.
-     * @returns {Background} This Background, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     * @param {?Function} onCompletionIfUninterrupted An optional callback to execute when the Dialog finishes playing.  This is not executed if it is stopped or this Background is deleted first, or while it loops.
+     * @returns {SoundHandle} A SoundHandle which can be used to stop the Dialog, change its volume or loop it.
      */
-    PlayDialog(dialog: Dialog): Background
+    PlayDialog(dialog: Dialog, onCompletionIfUninterrupted?: () => void): SoundHandle
 }
 
 /** Creates a cheap "static sprite" which cannot be interacted with (no direct click handler, deletion, animation or motion controls).  This is intended for writing text, etc. as this would defer to the containing Viewport or Group for this functionality.
@@ -394,6 +1154,270 @@ declare class Background {
  * @param {integer} virtualPixelsFromLeft The number of virtual pixels to place the new static sprite to the right of the parent scene object's origin.
  * @param {integer} virtualPixelsFromTop The number of virtual pixels to place the new static sprite below the parent scene object's origin.
  */
+declare class Tilemap {
+    /** Displays a grid of SpriteFrames inside a Viewport or Group, with its origin at the top left corner of the top left tile.  Only rows on the display are drawn, ignoring any scaling or rotation.
+     * @param {Viewport | Group} parent The parent scene object to add the new Tilemap to.
+     * @param {(SpriteFrame | SpriteAnimation | SpriteFrame[])[]} tileset The SpriteFrames to draw for each tile index.  SpriteAnimations and arrays are looped, all kept in step with one another.  Frames are centered on their tiles.
+     * @param {integer} tileWidthVirtualPixels The number of virtual pixels between the left borders of horizontally adjacent tiles.
+     * @param {integer} tileHeightVirtualPixels The number of virtual pixels between the top borders of vertically adjacent tiles.
+     * @param {TilemapLayout} layout The tiles to draw initially.  This is copied, so changing tiles does not change the TilemapLayout.
+     * @param {?Function} onClick An optional callback to execute when the this Tilemap is clicked or tapped.
+    */
+    constructor(parent: Viewport | Group, tileset: (SpriteFrame | SpriteAnimation | SpriteFrame[])[], tileWidthVirtualPixels: number, tileHeightVirtualPixels: number, layout: TilemapLayout, onClick?: () => void)
+
+    /** Gets the number of columns of tiles in this Tilemap.
+     * @returns {integer} The number of columns of tiles in this Tilemap.
+     */
+    Columns(): number
+
+    /** Gets the number of rows of tiles in this Tilemap.
+     * @returns {integer} The number of rows of tiles in this Tilemap.
+     */
+    Rows(): number
+
+    /** Gets the index into the tileset of a tile.
+     * @param {integer} column The column of the tile, where 0 is the leftmost.
+     * @param {integer} row The row of the tile, where 0 is the topmost.
+     * @returns {integer} The index into the tileset of the tile, or -1 when it is empty or outside of this Tilemap.
+     */
+    Tile(column: number, row: number): number
+
+    /** Changes a single tile.  Does nothing when the tile is outside of this Tilemap.
+     * @param {integer} column The column of the tile, where 0 is the leftmost.
+     * @param {integer} row The row of the tile, where 0 is the topmost.
+     * @param {integer} tile The index into the tileset to draw, or -1 to draw nothing.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SetTile(column: number, row: number, tile: number): Tilemap
+
+    /** Pauses this Tilemap; motion and animation will be paused until this Tilemap is Resume -d.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    */
+    Pause(): Tilemap
+
+    /** Resumes this Tilemap; motion and animation will resume from where they were .Pause()-d.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    */
+    Resume(): Tilemap
+
+    /** Hides this Tilemap; clicks will not trigger actions or block underlying scene objects being clicked until .Show()-n.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    */
+    Hide(): Tilemap
+
+    /** Shows this Tilemap.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    */
+    Show(): Tilemap
+
+    /** Gets the layer this Tilemap is drawn on, relative to its siblings.
+     * @returns {integer} The layer this Tilemap is drawn on.  Higher layers are drawn over lower layers.  Defaults to 0, which is also the layer static sprites are drawn on.
+     */
+    Layer(): number
+
+    /** Moves this Tilemap to the front of a different layer, relative to its siblings.
+     * @param {integer} layer The layer to draw this Tilemap on.  Higher layers are drawn over lower layers.  Static sprites are drawn on layer 0.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SetLayer(layer: number): Tilemap
+
+    /** Draws this Tilemap over its siblings on the same layer.  When its parent sorts its children by SortMode.VirtualPixelsFromTop, only affects siblings equally far from the top.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    BringToFront(): Tilemap
+
+    /** Draws this Tilemap beneath its siblings on the same layer.  When its parent sorts its children by SortMode.VirtualPixelsFromTop, only affects siblings equally far from the top.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    SendToBack(): Tilemap
+
+    /** Disables this Tilemap; clicks will not trigger actions until .Enable()-d.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    */
+    Disable(): Tilemap
+
+    /** Enables this Tilemap.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    */
+    Enable(): Tilemap
+
+    /** Sets the callback to execute when a mouse button or touch is pressed on this Tilemap.  Not called while Disable-d.
+     * @param {?Function} onPointerDown Called with the number of virtual pixels from the left and top of this Tilemap which were pressed.  When not given, any previous callback is removed.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerDown(onPointerDown?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Tilemap
+
+    /** Sets the callback to execute when a mouse or touch moves over this Tilemap.  Not called while Disable-d.
+     * @param {?Function} onPointerMove Called with the number of virtual pixels from the left and top of this Tilemap the pointer is now at.  When not given, any previous callback is removed.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerMove(onPointerMove?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Tilemap
+
+    /** Sets the callback to execute when a mouse button or touch is released on this Tilemap.  Not called while Disable-d.
+     * @param {?Function} onPointerUp Called with the number of virtual pixels from the left and top of this Tilemap which were released.  When not given, any previous callback is removed.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnPointerUp(onPointerUp?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): Tilemap
+
+    /** Sets the callback to execute when the mouse moves onto this Tilemap.  Not called while Disable-d.
+     * @param {?Function} onHoverEnter Called when the mouse moves onto this Tilemap.  When not given, any previous callback is removed.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnHoverEnter(onHoverEnter?: () => void): Tilemap
+
+    /** Sets the callback to execute when the mouse moves off this Tilemap.  Always called following OnHoverEnter, even if since Disable-d.
+     * @param {?Function} onHoverLeave Called when the mouse moves off this Tilemap.  When not given, any previous callback is removed.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnHoverLeave(onHoverLeave?: () => void): Tilemap
+
+    /** Makes this Tilemap draggable.  Drags cannot be started while Disable-d or Pause-d, and continue until the pointer is released.  They end without onDrop should this Tilemap be deleted, Disable-d or Pause-d first.  If nested, the innermost draggable object is dragged.
+     * @param {?Function} onDrag Called with the number of virtual pixels the pointer has moved right and down since the last call.
+     * @param {?Function} onDrop Called when the pointer is released, ending the drag.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    OnDrag(onDrag?: (virtualPixelsRight: number, virtualPixelsDown: number) => void, onDrop?: () => void): Tilemap
+
+    /** Gets the number of virtual pixels this Tilemap is to the right of the parent scene object's origin.
+     * @returns {float} The number of virtual pixels this Tilemap is to the right of the parent scene object's origin.
+     */
+    VirtualPixelsFromLeft(): number
+
+    /** Gets the number of virtual pixels this Tilemap is below the parent scene object's origin.
+     * @returns {float} The number of virtual pixels this Tilemap is below the parent scene object's origin.
+     */
+    VirtualPixelsFromTop(): number
+
+    /** Moves this Tilemap to a specified location immediately. 
+     * @param {integer} virtualPixelsFromLeft The number of virtual pixels to place this Tilemap to the right of the parent scene object's origin.
+     * @param {integer} virtualPixelsFromTop The number of virtual pixels to place this Tilemap below the parent scene object's origin.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    */
+    Move(virtualPixelsFromLeft: number, virtualPixelsFromTop: number): Tilemap
+
+    /** Moves this Tilemap from its current location to a specified location over the course of a set duration.  Initially paused if this Tilemap is .Pause()-d.
+     * @param {integer} virtualPixelsFromLeft The number of virtual pixels to place this Tilemap to the right of the parent scene object's origin.
+     * @param {integer} virtualPixelsFromTop The number of virtual pixels to place this Tilemap below the parent scene object's origin.
+     * @param {float} durationSeconds The number of seconds to take to reach the destination.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Tilemap reaches the specified destination.
+     * @param {?Easing} easing An optional Easing describing how this Tilemap accelerates and decelerates between its current location and the destination.  Defaults to Easing.Linear.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    */
+    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Tilemap
+
+    /** Moves this Tilemap from its current location to a specified location at a set speed.  Initially paused if this Tilemap is .Pause()-d.
+     * @param {integer} virtualPixelsFromLeft The number of virtual pixels to place this Tilemap to the right of the parent scene object's origin.
+     * @param {integer} virtualPixelsFromTop The number of virtual pixels to place this Tilemap below the parent scene object's origin.
+     * @param {float} pixelsPerSecond The number of pixels to cover per second, on average when an Easing is given.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Tilemap reaches the specified destination.
+     * @param {?Easing} easing An optional Easing describing how this Tilemap accelerates and decelerates between its current location and the destination.  Defaults to Easing.Linear.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+    */
+    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Tilemap
+
+    /** Gets the factor by which this Tilemap are currently scaled.
+     * @returns {float} The factor by which this Tilemap are currently scaled, where 1 is unscaled.
+     */
+    ScaleFactor(): number
+
+    /** Instantly scales this Tilemap around its origin, interrupting any previous .ScaleOver(...).  Not supported on IE9-.
+     * @param {float} factor The factor to scale by, where 1 is unscaled.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Scale(factor: number): Tilemap
+
+    /** Scales this Tilemap around its origin from the current factor to a specified factor over the course of a set duration, interrupting any previous .ScaleOver(...).  Initially paused if this Tilemap is .Pause()-d.  Not supported on IE9-.
+     * @param {float} factor The factor to scale to, where 1 is unscaled.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified factor.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Tilemap reaches the specified factor.
+     * @param {?Easing} easing An optional Easing describing how the factor changes over time.  Defaults to Easing.Linear.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    ScaleOver(factor: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Tilemap
+
+    /** Gets the number of degrees this Tilemap are currently rotated clockwise.
+     * @returns {float} The number of degrees this Tilemap are currently rotated clockwise.
+     */
+    RotationDegrees(): number
+
+    /** Instantly rotates this Tilemap around its origin, interrupting any previous .RotateOver(...).  Not supported on IE9-.
+     * @param {float} degrees The number of degrees to rotate clockwise, where 0 is unrotated.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Rotate(degrees: number): Tilemap
+
+    /** Rotates this Tilemap around its origin from the current angle to a specified angle over the course of a set duration, interrupting any previous .RotateOver(...).  Initially paused if this Tilemap is .Pause()-d.  Not supported on IE9-.
+     * @param {float} degrees The number of degrees to rotate clockwise to, where 0 is unrotated.  Values outside 0...360 result in multiple turns.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified angle.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Tilemap reaches the specified angle.
+     * @param {?Easing} easing An optional Easing describing how the angle changes over time.  Defaults to Easing.Linear.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    RotateOver(degrees: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Tilemap
+
+    /** Gets the current opacity of this Tilemap.
+     * @returns {float} The current opacity of this Tilemap, where 0 is fully transparent and 1 is fully opaque.
+     */
+    OpacityUnitInterval(): number
+
+    /** Instantly changes the opacity of this Tilemap, interrupting any previous .FadeOver(...).
+     * @param {float} opacityUnitInterval The opacity to use, where 0 is fully transparent and 1 is fully opaque.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Fade(opacityUnitInterval: number): Tilemap
+
+    /** Changes the opacity of this Tilemap from the current opacity to a specified opacity over the course of a set duration, interrupting any previous .FadeOver(...).  Initially paused if this Tilemap is .Pause()-d.
+     * @param {float} opacityUnitInterval The opacity to change to, where 0 is fully transparent and 1 is fully opaque.
+     * @param {float} durationSeconds The number of seconds to take to reach the specified opacity.
+     * @param {?function} onArrivingIfUninterrupted An optional callback to execute if and when this Tilemap reaches the specified opacity.
+     * @param {?Easing} easing An optional Easing describing how the opacity changes over time.  Defaults to Easing.Linear.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    FadeOver(opacityUnitInterval: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Tilemap
+
+    /** Determines whether this Tilemap are mirrored horizontally.
+     * @returns {boolean} True when mirrored horizontally, otherwise, false.
+     */
+    MirroredHorizontally(): boolean
+
+    /** Determines whether this Tilemap are mirrored vertically.
+     * @returns {boolean} True when mirrored vertically, otherwise, false.
+     */
+    MirroredVertically(): boolean
+
+    /** Mirrors this Tilemap around its origin.  Tilemaps remain pixel-perfect.  Not supported on IE9-.
+     * @param {boolean} horizontally When true, left and right are swapped.
+     * @param {boolean} vertically When true, top and bottom are swapped.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    Mirror(horizontally: boolean, vertically: boolean): Tilemap
+
+    /** Moves this Tilemap to a different parent without interrupting any motion, animation or sounds.  Its location is kept relative to the new parent.  It becomes paused, disabled or deleted if the new parent is.  It is drawn at the front of its layer.
+     * @param {Viewport | Group} parent The scene object to move this Tilemap into.  Must not be this Tilemap or one of its children.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Move(...).Pause(...)).
+     */
+    MoveTo(parent: Viewport | Group): Tilemap
+
+    /** Removes this Tilemap from the scene graph.
+     * @returns {Tilemap} This Tilemap, for chaining method calls "fluently" (.Delete(...).VirtualPixelsFromLeft(...)).
+     */
+    Delete(): Tilemap
+
+    /** Plays a Sound from this Tilemap, using positional audio if available.  Paused and resumed along with this Tilemap, and stopped when it is deleted.
+     * @param {Sound} sound The Sound to play.
+     * @param {?Function} onCompletionIfUninterrupted An optional callback to execute when the Sound finishes playing.  This is not executed if it is stopped or this Tilemap is deleted first, or while it loops.
+     * @returns {SoundHandle} A SoundHandle which can be used to stop the Sound, change its volume or loop it.
+     */
+    PlaySound(sound: Sound, onCompletionIfUninterrupted?: () => void): SoundHandle
+
+    /** Plays a line of Dialog from this Tilemap, using positional audio if available.  Paused and resumed along with this Tilemap, and stopped when it is deleted.
+     * @param {Dialog} dialog The Dialog to play.
+     * @param {?Function} onCompletionIfUninterrupted An optional callback to execute when the Dialog finishes playing.  This is not executed if it is stopped or this Tilemap is deleted first, or while it loops.
+     * @returns {SoundHandle} A SoundHandle which can be used to stop the Dialog, change its volume or loop it.
+     */
+    PlayDialog(dialog: Dialog, onCompletionIfUninterrupted?: () => void): SoundHandle
+}
+
 declare function AddStaticSprite(parent: Viewport | Group, frame: SpriteFrame, virtualPixelsFromLeft: number, virtualPixelsFromTop: number): void
 
 /** Enters a transition, used to change scene.  An error will occur if this is called while a previous transition is in progress.  Input is blocked while entering or exiting a transition.
@@ -405,13 +1429,215 @@ declare function Transition(entry: TransitionStep, exit: TransitionStep, call: (
 
 /** A single looping track. */
 declare namespace Music {
-    /** Plays music.  If the music specified is already playing, nothing happens.  If other music is already playing, that music is stopped first. 
+    /** Plays music, looping until other music is played or it is stopped.  If the music specified is already looping, it continues uninterrupted rather than restarting, unless startSeconds is given.  If other music is already playing, that music is stopped first.  Any playlist is cleared.
      * @param {Music} The music to play.
+     * @param {?float} crossfadeSeconds An optional number of seconds over which to fade out any music already playing while fading in this music.  Defaults to 0 (cut immediately).
+     * @param {?float} startSeconds An optional number of seconds into the music to start playing from.  Defaults to 0.
+    */
+    function Set(music: Music, crossfadeSeconds?: number, startSeconds?: number): void
+
+    /** Plays music once, then continues with any music Queue-d after it.  If other music is already playing, that music is stopped first.  Any playlist is cleared.
+     * @param {Music} The music to play.
+     * @param {?Function} onCompletionIfUninterrupted An optional callback to execute when the music finishes playing, or fails to download.  This is not executed if other music is played or music is stopped first.
+     * @param {?float} crossfadeSeconds An optional number of seconds over which to fade out any music already playing while fading in this music.  Defaults to 0 (cut immediately).
+     * @param {?float} startSeconds An optional number of seconds into the music to start playing from.  Defaults to 0.
+    */
+    function PlayOnce(music: Music, onCompletionIfUninterrupted?: () => void, crossfadeSeconds?: number, startSeconds?: number): void
+
+    /** Plays each of a list of music once, in order, replacing any playlist or music already playing.
+     * @param {Music[]} music The music to play, in order.  Stops music when empty.
+     * @param {?boolean} looping When true, the playlist repeats from the start once the last music has finished.  Defaults to false.
+     * @param {?float} crossfadeSeconds An optional number of seconds over which to fade out any music already playing while fading in the first music.  Defaults to 0 (cut immediately).
     */
-    function Set(music: Music): void
+    function Playlist(music: Music[], looping?: boolean, crossfadeSeconds?: number): void
+
+    /** Adds music to the end of the playlist, to be played once.  It plays immediately if no music is playing.  Music played using Set loops forever, so music Queue-d after it will not play.
+     * @param {Music} The music to add to the playlist.
+    */
+    function Queue(music: Music): void
+
+    /** Stops the currently playing music, if any, and clears the playlist.
+     * @param {?float} fadeOutSeconds An optional number of seconds over which to fade out the music.  Defaults to 0 (cut immediately).
+    */
+    function Stop(fadeOutSeconds?: number): void
+}
+
+/** Controls the volume of each MixerBus, for instance, from an options menu.  These apply to audio which is already playing as well as that played later on.  Nothing happens when audio is not available. */
+declare namespace Mixer {
+    /** Gets the volume of a MixerBus, ignoring whether it is muted.
+     * @param {MixerBus} bus The MixerBus to check.
+     * @returns {float} The volume, where 0 is silent and 1 is the volume audio was imported at.
+     */
+    function Volume(bus: MixerBus): number
+
+    /** Changes the volume of a MixerBus.  This is remembered while the MixerBus is muted.  Defaults to 1.
+     * @param {MixerBus} bus The MixerBus to change.
+     * @param {float} volume The new volume, where 0 is silent and 1 is the volume audio was imported at.
+     */
+    function SetVolume(bus: MixerBus, volume: number): void
+
+    /** Determines whether a MixerBus is muted.
+     * @param {MixerBus} bus The MixerBus to check.
+     * @returns {boolean} True when muted, otherwise, false.
+     */
+    function Muted(bus: MixerBus): boolean
+
+    /** Silences a MixerBus without changing its volume.
+     * @param {MixerBus} bus The MixerBus to mute.
+     */
+    function Mute(bus: MixerBus): void
+
+    /** Restores a muted MixerBus to its volume.
+     * @param {MixerBus} bus The MixerBus to unmute.
+     */
+    function Unmute(bus: MixerBus): void
+
+    /** Persists the current volumes and mutes using Save so that they can be LoadSettings-ed later on.
+     * @param {string} name The name to save the settings under.
+     * @returns {boolean} True if the settings were saved, else, false.
+     */
+    function SaveSettings(name: string): boolean
+
+    /** Replaces the current volumes and mutes with those previously SaveSettings-ed.  The current settings are kept if none could be loaded.
+     * @param {string} name The name to load settings from.
+     * @returns {boolean} True if the settings were loaded, else, false.
+     */
+    function LoadSettings(name: string): boolean
+}
+
+/** Music and Dialog are downloaded when first played, which can cause a delay.  These can instead be downloaded ahead of time, and are then kept in memory until the cache's budget is exceeded, when those least recently played are discarded. */
+declare namespace AudioCache {
+    /** Raised while Music or Dialog are being downloaded, with the progress of all downloads in progress as a unit interval. */
+    const ProgressChanged: RecurringEvent<(progressUnitInterval: number) => void>
+
+    /** Starts downloading Music, if it is not already downloaded or downloading.
+     * @param {Music} music The Music to download.
+     * @param {?boolean} showLoadingMessageDuringStartup When true, and this is called as the game starts (before the loading message is removed), the loading message remains, showing download progress until this Music has been downloaded.  Defaults to false.
+     * @returns {OneTimeEvent} A OneTimeEvent raised once the download has finished, with true when the Music is ready to play (including when audio is not available), or false when the download failed.
+     */
+    function PreloadMusic(music: Music, showLoadingMessageDuringStartup?: boolean): OneTimeEvent<(loaded: boolean) => void>
+
+    /** Starts downloading Dialog, if it is not already downloaded or downloading.
+     * @param {Dialog} dialog The Dialog to download.
+     * @param {?boolean} showLoadingMessageDuringStartup When true, and this is called as the game starts (before the loading message is removed), the loading message remains, showing download progress until this Dialog has been downloaded.  Defaults to false.
+     * @returns {OneTimeEvent} A OneTimeEvent raised once the download has finished, with true when the Dialog is ready to play (including when audio is not available), or false when the download failed.
+     */
+    function PreloadDialog(dialog: Dialog, showLoadingMessageDuringStartup?: boolean): OneTimeEvent<(loaded: boolean) => void>
+
+    /** Gets the progress of all Music and Dialog downloads in progress.
+     * @returns {float} A unit interval, where 0 is not started and 1 is finished (or nothing is downloading).
+     */
+    function Progress(): number
+
+    /** Gets the number of seconds of Music and Dialog which may be kept in memory.
+     * @returns {float} The number of seconds of Music and Dialog which may be kept in memory.
+     */
+    function BudgetSeconds(): number
+
+    /** Changes the number of seconds of Music and Dialog which may be kept in memory, immediately discarding those least recently played should this be exceeded.  Music and Dialog currently playing are never discarded.  Defaults to 240.
+     * @param {float} seconds The number of seconds of Music and Dialog which may be kept in memory.
+     */
+    function SetBudgetSeconds(seconds: number): void
+}
+
+/** By default, Sounds and Dialog played by scene objects are only panned left and right by their horizontal location on the display.  Enabling SpatialAudio additionally pans them up and down, and quietens them with distance from a listener. */
+declare namespace SpatialAudio {
+    /** Determines whether SpatialAudio is enabled.
+     * @returns {boolean} True when enabled, otherwise, false.
+     */
+    function Enabled(): boolean
+
+    /** Enables SpatialAudio, or changes its settings if it is already enabled.  Vertical panning is only heard from Sounds and Dialog started after this is called, and only in browsers supporting it.
+     * @param {float} fullVolumeVirtualPixels Scene objects within this many virtual pixels of the listener are heard at full volume.
+     * @param {float} silentVirtualPixels Scene objects this many or more virtual pixels from the listener are silent.  Those between fullVolumeVirtualPixels and this fade linearly.
+     * @param {?OffscreenAudio} offscreen How scene objects outside of the display are heard.  Defaults to OffscreenAudio.Unchanged.
+     * @param {?float} offscreenFadeVirtualPixels When offscreen is OffscreenAudio.Fade, the number of virtual pixels outside of the display at which scene objects become silent.  Defaults to a quarter of WidthVirtualPixels.
+     */
+    function Enable(fullVolumeVirtualPixels: number, silentVirtualPixels: number, offscreen?: OffscreenAudio, offscreenFadeVirtualPixels?: number): void
+
+    /** Disables SpatialAudio, returning to panning left and right by horizontal location on the display. */
+    function Disable(): void
 
-    /** Stops the currently playing music, if any. */
-    function Stop(): void
+    /** Changes where Sounds and Dialog are heard from when SpatialAudio is enabled.  Defaults to the center of the display.
+     * @param {?(Viewport|Group|Sprite|Background)} listener The scene object to listen from, following it as it moves (such as a camera Group or the player's Sprite).  When not given, the listener is fixed relative to the display.  When it is deleted, the listener returns to the center of the display.
+     * @param {?float} virtualPixelsFromLeft The number of virtual pixels between the left of the listener scene object (or display) and the listening location.  Defaults to 0, or the center of the display if no listener is given.
+     * @param {?float} virtualPixelsFromTop The number of virtual pixels between the top of the listener scene object (or display) and the listening location.  Defaults to 0, or the center of the display if no listener is given.
+     */
+    function SetListener(listener?: Viewport | Group | Sprite | Background, virtualPixelsFromLeft?: number, virtualPixelsFromTop?: number): void
+}
+
+/** Maps named actions (such as "Jump" or "Left") to keyboard keys and gamepad buttons.  An action is held while any key or gamepad button bound to it is held.  Input is blocked while entering or exiting a transition, and all actions are released when the game loses focus. */
+declare namespace Input {
+    /** Raised when an action which was not held becomes held, with the name of the action. */
+    const Pressed: RecurringEvent<(action: string) => void>
+
+    /** Raised when an action which was held is no longer held, with the name of the action. */
+    const Released: RecurringEvent<(action: string) => void>
+
+    /** Raised when any key is pressed, whether bound to an action or not.  This is intended for implementing rebinding menus. */
+    const KeyPressed: RecurringEvent<(key: Key) => void>
+
+    /** Raised when any gamepad button is pressed, whether bound to an action or not.  This is intended for implementing rebinding menus. */
+    const GamepadButtonPressed: RecurringEvent<(button: GamepadStandardButton) => void>
+
+    /** Binds a key to an action.  A key may be bound to more than one action.  No effect if already bound.
+     * @param {string} action The name of the action to bind the key to.
+     * @param {Key} key The key to bind.
+     */
+    function BindKey(action: string, key: Key): void
+
+    /** Unbinds a key from an action.  No effect if not bound.
+     * @param {string} action The name of the action to unbind the key from.
+     * @param {Key} key The key to unbind.
+     */
+    function UnbindKey(action: string, key: Key): void
+
+    /** Binds a gamepad button to an action.  A gamepad button may be bound to more than one action.  No effect if already bound.
+     * @param {string} action The name of the action to bind the gamepad button to.
+     * @param {GamepadStandardButton} button The gamepad button to bind.
+     */
+    function BindGamepadButton(action: string, button: GamepadStandardButton): void
+
+    /** Unbinds a gamepad button from an action.  No effect if not bound.
+     * @param {string} action The name of the action to unbind the gamepad button from.
+     * @param {GamepadStandardButton} button The gamepad button to unbind.
+     */
+    function UnbindGamepadButton(action: string, button: GamepadStandardButton): void
+
+    /** Unbinds every key and gamepad button from an action.
+     * @param {string} action The name of the action to unbind.
+     */
+    function Unbind(action: string): void
+
+    /** Lists the keys currently bound to an action.
+     * @param {string} action The name of the action to list the keys of.
+     * @returns {Key[]} The keys currently bound to the action.
+     */
+    function KeysBoundTo(action: string): Key[]
+
+    /** Lists the gamepad buttons currently bound to an action.
+     * @param {string} action The name of the action to list the gamepad buttons of.
+     * @returns {GamepadStandardButton[]} The gamepad buttons currently bound to the action.
+     */
+    function GamepadButtonsBoundTo(action: string): GamepadStandardButton[]
+
+    /** Determines whether an action is currently held.
+     * @param {string} action The name of the action to check.
+     * @returns {boolean} True when any key or gamepad button bound to the action is held, otherwise, false.
+     */
+    function Held(action: string): boolean
+
+    /** Persists the current bindings using Save so that they can be LoadBindings-ed later on.
+     * @param {string} name The name to save the bindings under.
+     * @returns {boolean} True if the bindings were saved, else, false.
+     */
+    function SaveBindings(name: string): boolean
+
+    /** Replaces the current bindings with those previously SaveBindings-ed.  The current bindings are kept if none could be loaded.
+     * @param {string} name The name to load bindings from.
+     * @returns {boolean} True if the bindings were loaded, else, false.
+     */
+    function LoadBindings(name: string): boolean
 }
 
 declare class Timer {
@@ -460,6 +1686,217 @@ declare class RecurringTimer {
     Stop(): RecurringTimer
 }
 
+declare class Timeline {
+    /** A sequence of steps performed by a scene object, one after another.  Each step starts as soon as it is added if nothing is in progress.  Paused and resumed along with the scene object, and cancelled when it is deleted.
+     * @param {Viewport | Group | Sprite | Background} target The scene object which performs the steps.
+     */
+    constructor(target: Viewport | Group | Sprite | Background)
+
+    /** Adds a step which waits for a number of seconds.
+     * @param {float} seconds The number of seconds to wait.
+     * @returns {Timeline} This Timeline, for chaining method calls "fluently" (.Wait(...).Call(...)).
+     */
+    Wait(seconds: number): Timeline
+
+    /** Adds a step which executes a callback, then immediately continues.
+     * @param {Function} callback The callback to execute.
+     * @returns {Timeline} This Timeline, for chaining method calls "fluently" (.Wait(...).Call(...)).
+     */
+    Call(callback: () => void): Timeline
+
+    /** Adds a step which .MoveOver(...)-s the target, continuing once the duration has elapsed (even if the motion was interrupted).
+     * @param {integer} virtualPixelsFromLeft The number of virtual pixels to place the target to the right of its parent's origin.
+     * @param {integer} virtualPixelsFromTop The number of virtual pixels to place the target below its parent's origin.
+     * @param {float} durationSeconds The number of seconds to take to reach the destination.
+     * @param {?Easing} easing An optional Easing describing how the target accelerates and decelerates.  Defaults to Easing.Linear.
+     * @returns {Timeline} This Timeline, for chaining method calls "fluently" (.Wait(...).Call(...)).
+     */
+    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, easing?: Easing): Timeline
+
+    /** Adds a step which .MoveAt(...)-s the target, continuing once it should have arrived (even if the motion was interrupted).  The duration is calculated when the step starts.
+     * @param {integer} virtualPixelsFromLeft The number of virtual pixels to place the target to the right of its parent's origin.
+     * @param {integer} virtualPixelsFromTop The number of virtual pixels to place the target below its parent's origin.
+     * @param {float} pixelsPerSecond The number of pixels to cover per second, on average when an Easing is given.
+     * @param {?Easing} easing An optional Easing describing how the target accelerates and decelerates.  Defaults to Easing.Linear.
+     * @returns {Timeline} This Timeline, for chaining method calls "fluently" (.Wait(...).Call(...)).
+     */
+    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, easing?: Easing): Timeline
+
+    /** Adds a step which .Play(...)-s an animation on the target, continuing once it has finished, or once another animation is played on the target instead.  Throws when the target is not a Sprite.
+     * @param {SpriteFrame | SpriteAnimation | SpriteFrame[]} animation The SpriteFrame, SpriteAnimation or SpriteFrames to play.
+     * @returns {Timeline} This Timeline, for chaining method calls "fluently" (.Wait(...).Call(...)).
+     */
+    Play(animation: SpriteFrame | SpriteAnimation | SpriteFrame[]): Timeline
+
+    /** Adds a step which plays a Sound from the target, then immediately continues.
+     * @param {Sound} sound The Sound to play.
+     * @returns {Timeline} This Timeline, for chaining method calls "fluently" (.Wait(...).Call(...)).
+     */
+    PlaySound(sound: Sound): Timeline
+
+    /** Adds a step which plays Dialog from the target, then immediately continues.
+     * @param {Dialog} dialog The Dialog to play.
+     * @returns {Timeline} This Timeline, for chaining method calls "fluently" (.Wait(...).Call(...)).
+     */
+    PlayDialog(dialog: Dialog): Timeline
+
+    /** Adds a step which runs a number of Timelines at the same time, continuing once all have finished.
+     * @param {...Function} branches Callbacks which add steps to each of the Timelines to run.  These target the same scene object as this Timeline.
+     * @returns {Timeline} This Timeline, for chaining method calls "fluently" (.Wait(...).Call(...)).
+     */
+    Parallel(...branches: ((timeline: Timeline) => void)[]): Timeline
+
+    /** Pauses this Timeline if not paused or cancelled.  Motion and animation which were started by the current step are not paused unless the target is.
+     * @returns {Timeline} This Timeline, for chaining method calls "fluently" (.Wait(...).Call(...)).
+     */
+    Pause(): Timeline
+
+    /** Resumes this Timeline if paused and not cancelled.  Remains paused while the target is paused.
+     * @returns {Timeline} This Timeline, for chaining method calls "fluently" (.Wait(...).Call(...)).
+     */
+    Resume(): Timeline
+
+    /** Cancels this Timeline, so that no further steps are performed.  Motion and animation which were started by the current step are not interrupted.
+     * @returns {Timeline} This Timeline, for chaining method calls "fluently" (.Wait(...).Call(...)).
+     */
+    Cancel(): Timeline
+
+    /** Determines whether this Timeline is paused, either directly or because the target is paused.  The target is only considered while steps remain.
+     * @returns {boolean} True when paused, otherwise, false.
+     */
+    Paused(): boolean
+
+    /** Determines whether this Timeline has been cancelled, either directly or because the target was deleted.  A Timeline whose steps had all finished when the target was deleted is only cancelled once further steps are added.
+     * @returns {boolean} True when cancelled, otherwise, false.
+     */
+    Cancelled(): boolean
+
+    /** Determines whether every step added to this Timeline has finished.  This becomes false again if further steps are added.
+     * @returns {boolean} True when every step has finished, otherwise, false.
+     */
+    Completed(): boolean
+
+    /** Gets the number of steps which have finished.
+     * @returns {integer} The number of steps which have finished.
+     */
+    CompletedSteps(): number
+
+    /** Gets the number of steps which have been added.
+     * @returns {integer} The number of steps which have been added.
+     */
+    TotalSteps(): number
+
+    /** Gets the number of seconds this Timeline has spent performing steps, excluding time spent paused.
+     * @returns {float} The number of seconds this Timeline has spent performing steps.
+     */
+    ElapsedSeconds(): number
+}
+
+declare class Camera {
+    /** Scrolls a world larger than the virtual screen within a Viewport.  Scene objects should be added to .World rather than the Viewport itself; those added to the Viewport (such as a HUD) do not scroll.  Sounds and Dialog played in the world are panned by where they appear on screen.  Paused and resumed along with the Viewport.  Throws when the Viewport already has a Camera.
+     * @param {Viewport} viewport The Viewport to scroll.
+     */
+    constructor(viewport: Viewport)
+
+    /** The Group to add scrolled scene objects to.  Its origin is the origin of the world, and it is moved by this Camera, so should not be moved directly. */
+    readonly World: Group
+
+    /** Gets the location in the world at the center of the Viewport, excluding any .Shake(...).
+     * @returns {float} The number of virtual pixels between the world's origin and the center of the Viewport on the X axis.
+     */
+    VirtualPixelsFromLeft(): number
+
+    /** Gets the location in the world at the center of the Viewport, excluding any .Shake(...).
+     * @returns {float} The number of virtual pixels between the world's origin and the center of the Viewport on the Y axis.
+     */
+    VirtualPixelsFromTop(): number
+
+    /** Converts a location in the world to a location in the Viewport, as currently seen on screen.
+     * @param {float} worldVirtualPixelsFromLeft The number of virtual pixels between the world's origin and the location on the X axis.
+     * @returns {float} The number of virtual pixels between the Viewport's left border and the location.
+     */
+    ScreenVirtualPixelsFromLeft(worldVirtualPixelsFromLeft: number): number
+
+    /** Converts a location in the world to a location in the Viewport, as currently seen on screen.
+     * @param {float} worldVirtualPixelsFromTop The number of virtual pixels between the world's origin and the location on the Y axis.
+     * @returns {float} The number of virtual pixels between the Viewport's top border and the location.
+     */
+    ScreenVirtualPixelsFromTop(worldVirtualPixelsFromTop: number): number
+
+    /** Converts a location in the Viewport (such as one given to the Viewport's pointer events), as currently seen on screen, to a location in the world.
+     * @param {float} screenVirtualPixelsFromLeft The number of virtual pixels between the Viewport's left border and the location.
+     * @returns {float} The number of virtual pixels between the world's origin and the location on the X axis.
+     */
+    WorldVirtualPixelsFromLeft(screenVirtualPixelsFromLeft: number): number
+
+    /** Converts a location in the Viewport (such as one given to the Viewport's pointer events), as currently seen on screen, to a location in the world.
+     * @param {float} screenVirtualPixelsFromTop The number of virtual pixels between the Viewport's top border and the location.
+     * @returns {float} The number of virtual pixels between the world's origin and the location on the Y axis.
+     */
+    WorldVirtualPixelsFromTop(screenVirtualPixelsFromTop: number): number
+
+    /** Immediately centers this Camera on a location in the world, within any bounds, stopping any motion or .Follow(...)-ing.
+     * @param {float} virtualPixelsFromLeft The number of virtual pixels between the world's origin and the location to center on, on the X axis.
+     * @param {float} virtualPixelsFromTop The number of virtual pixels between the world's origin and the location to center on, on the Y axis.
+     * @returns {Camera} This Camera, for chaining method calls "fluently" (.Follow(...).Shake(...)).
+     */
+    Move(virtualPixelsFromLeft: number, virtualPixelsFromTop: number): Camera
+
+    /** Pans this Camera to center on a location in the world, within any bounds, over a number of seconds, stopping any .Follow(...)-ing.
+     * @param {float} virtualPixelsFromLeft The number of virtual pixels between the world's origin and the location to center on, on the X axis.
+     * @param {float} virtualPixelsFromTop The number of virtual pixels between the world's origin and the location to center on, on the Y axis.
+     * @param {float} durationSeconds The number of seconds to take to reach the destination.
+     * @param {?Function} onArrivingIfUninterrupted An optional callback to execute when the destination is reached.  This is not executed if the motion is interrupted by another motion or the Viewport is deleted first.
+     * @param {?Easing} easing An optional Easing describing how this Camera accelerates and decelerates.  Defaults to Easing.Linear.
+     * @returns {Camera} This Camera, for chaining method calls "fluently" (.Follow(...).Shake(...)).
+     */
+    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Camera
+
+    /** Pans this Camera to center on a location in the world, within any bounds, at a speed, stopping any .Follow(...)-ing.
+     * @param {float} virtualPixelsFromLeft The number of virtual pixels between the world's origin and the location to center on, on the X axis.
+     * @param {float} virtualPixelsFromTop The number of virtual pixels between the world's origin and the location to center on, on the Y axis.
+     * @param {float} pixelsPerSecond The number of pixels to cover per second, on average when an Easing is given.
+     * @param {?Function} onArrivingIfUninterrupted An optional callback to execute when the destination is reached.  This is not executed if the motion is interrupted by another motion or the Viewport is deleted first.
+     * @param {?Easing} easing An optional Easing describing how this Camera accelerates and decelerates.  Defaults to Easing.Linear.
+     * @returns {Camera} This Camera, for chaining method calls "fluently" (.Follow(...).Shake(...)).
+     */
+    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Camera
+
+    /** Keeps a scene object within a "dead zone" at the center of the Viewport, within any bounds, until .Unfollow()-ed or moved.  Any motion is stopped.
+     * @param {Viewport | Group | Sprite | Background} target The scene object to follow, which should be within .World.
+     * @param {?float} deadZoneWidthVirtualPixels The width of the area the target can move within without the Camera following.  Defaults to 0, always keeping the target centered.
+     * @param {?float} deadZoneHeightVirtualPixels The height of the area the target can move within without the Camera following.  Defaults to 0, always keeping the target centered.
+     * @returns {Camera} This Camera, for chaining method calls "fluently" (.Follow(...).Shake(...)).
+     */
+    Follow(target: Viewport | Group | Sprite | Background, deadZoneWidthVirtualPixels?: number, deadZoneHeightVirtualPixels?: number): Camera
+
+    /** Stops .Follow(...)-ing, leaving this Camera where it is.
+     * @returns {Camera} This Camera, for chaining method calls "fluently" (.Follow(...).Shake(...)).
+     */
+    Unfollow(): Camera
+
+    /** Keeps the Viewport within an area of the world, immediately moving this Camera if it is outside.  Areas smaller than the Viewport are centered upon.
+     * @param {float} leftVirtualPixels The number of virtual pixels between the world's origin and the left border of the area.
+     * @param {float} topVirtualPixels The number of virtual pixels between the world's origin and the top border of the area.
+     * @param {float} rightVirtualPixels The number of virtual pixels between the world's origin and the right border of the area.
+     * @param {float} bottomVirtualPixels The number of virtual pixels between the world's origin and the bottom border of the area.
+     * @returns {Camera} This Camera, for chaining method calls "fluently" (.Follow(...).Shake(...)).
+     */
+    SetBounds(leftVirtualPixels: number, topVirtualPixels: number, rightVirtualPixels: number, bottomVirtualPixels: number): Camera
+
+    /** Allows this Camera to move anywhere in the world.  This is the default.
+     * @returns {Camera} This Camera, for chaining method calls "fluently" (.Follow(...).Shake(...)).
+     */
+    ClearBounds(): Camera
+
+    /** Shakes the Viewport's view of the world, without affecting this Camera's location or motion.
+     * @param {float} virtualPixels The maximum number of virtual pixels to shake by, which decreases linearly to 0 over the duration.
+     * @param {float} durationSeconds The number of seconds to shake for.
+     * @returns {Camera} This Camera, for chaining method calls "fluently" (.Follow(...).Shake(...)).
+     */
+    Shake(virtualPixels: number, durationSeconds: number): Camera
+}
+
 /** Persists JSON which can then be Load-ed later on, even after the game/device have restarted.
  * @param {string} name The name to save the JSON under.
  * @param {Json} data The data to save.
@@ -0,0 +1,58 @@
+const AudioCacheProgressChanged = new RecurringEvent<(progressUnitInterval: number) => void>()
+let AudioCacheBudgetSeconds = InitialAudioCacheBudgetSeconds
+let AudioCacheStartupFinished = false
+let AudioCachePreloadsShowingLoadingMessage = 0
+
+function ShowAudioCacheLoadingMessage(): void {
+    SetLoadingMessage(`Downloading audio (${Math.floor(AudioDriver.LoadingProgress() * 100)}%)...`)
+}
+
+function ShowPreloadInLoadingMessage(preloaded: OneTimeEvent<(loaded: boolean) => void>): void {
+    // The loading message is removed once the game has started, and cannot be shown again.
+    if (AudioCacheStartupFinished) return
+    AudioCachePreloadsShowingLoadingMessage++
+    if (AudioCachePreloadsShowingLoadingMessage == 1) AudioCacheProgressChanged.Listen(ShowAudioCacheLoadingMessage)
+    ShowAudioCacheLoadingMessage()
+    preloaded.Listen(() => {
+        AudioCachePreloadsShowingLoadingMessage--
+        if (AudioCachePreloadsShowingLoadingMessage) return
+        AudioCacheProgressChanged.Unlisten(ShowAudioCacheLoadingMessage)
+        if (AudioCacheStartupFinished) RemoveLoadingMessage()
+    })
+}
+
+// Called by the engine once the game has started, to remove the loading message unless preloads are showing in it.
+function FinishAudioCacheStartup(): void {
+    AudioCacheStartupFinished = true
+    if (AudioCachePreloadsShowingLoadingMessage) ModifyLoadingMessage(element => element.style.zIndex = "1")
+    else RemoveLoadingMessage()
+}
+
+namespace AudioCache {
+    export const ProgressChanged = AudioCacheProgressChanged
+
+    export function PreloadMusic(music: Music, showLoadingMessageDuringStartup?: boolean): OneTimeEvent<(loaded: boolean) => void> {
+        const preloaded = AudioDriver.PreloadMusic(music)
+        if (showLoadingMessageDuringStartup) ShowPreloadInLoadingMessage(preloaded)
+        return preloaded
+    }
+
+    export function PreloadDialog(dialog: Dialog, showLoadingMessageDuringStartup?: boolean): OneTimeEvent<(loaded: boolean) => void> {
+        const preloaded = AudioDriver.PreloadDialog(dialog)
+        if (showLoadingMessageDuringStartup) ShowPreloadInLoadingMessage(preloaded)
+        return preloaded
+    }
+
+    export function Progress(): number {
+        return AudioDriver.LoadingProgress()
+    }
+
+    export function BudgetSeconds(): number {
+        return AudioCacheBudgetSeconds
+    }
+
+    export function SetBudgetSeconds(seconds: number): void {
+        AudioCacheBudgetSeconds = Math.max(0, seconds)
+        AudioDriver.SetCacheBudgetSeconds(AudioCacheBudgetSeconds)
+    }
+}
\ No newline at end of file
@@ -1,39 +1,103 @@
 type AudioDriver = {
     Load(then: () => void): void
-    PlaySound(sound: Sound, getPanning: () => number, onDeletion: () => void): SoundInstance
+    PlaySound(sound: Sound, getPosition: () => AudioPosition, onDeletion: () => void, onCompletion?: () => void): SoundInstance
+    PlayDialog(dialog: Dialog, getPosition: () => AudioPosition, onDeletion: () => void, onCompletion?: () => void): SoundInstance
     Tick(): boolean
     FirstUserInteraction(): void
-    SetMusic(music: Music): void
-    StopMusic(): void
+    // onEnd is also called should the music fail to load.
+    SetMusic(music: Music, looping: boolean, startSeconds: number, crossfadeSeconds: number, onEnd: () => void): void
+    StopMusic(fadeOutSeconds: number): void
     PauseMusic(): void
     ResumeMusic(): void
+    SetMixerVolume(bus: MixerBus, volume: number): void
+    PreloadMusic(music: Music): OneTimeEvent<(loaded: boolean) => void>
+    PreloadDialog(dialog: Dialog): OneTimeEvent<(loaded: boolean) => void>
+    // A unit interval, which is 1 when nothing is being downloaded.
+    LoadingProgress(): number
+    SetCacheBudgetSeconds(seconds: number): void
 }
 
 type SoundInstance = {
     Pause(): void
-    ResumeAt(pan: number): void
-    ResumeMotion(fromPan: number, toPan: number, durationSeconds: number): void
+    ResumeAt(position: AudioPosition): void
+    ResumeMotion(from: AudioPosition, to: AudioPosition, durationSeconds: number): void
+    SetVolume(volume: number): void
+    SetLooping(looping: boolean): void
     Delete(): void
 }
 
-let AudioDriver = WebAudioApiDriver() || DummyDriver()
+let AudioDriver = WebAudioApiDriver() || Html5AudioDriver() || DummyDriver()
 
 class Music {
     readonly Id: number
     readonly Gain: number
+    readonly LoopStartSeconds: number
+    readonly LoopEndSeconds: number
 
-    constructor(id: number, gain: number) {
+    constructor(id: number, gain: number, loopStartSeconds: number, loopEndSeconds: number) {
         this.Id = id
         this.Gain = gain
+        this.LoopStartSeconds = loopStartSeconds
+        this.LoopEndSeconds = loopEndSeconds
     }
 }
 
+let CurrentMusic: Music | undefined = undefined
+let CurrentMusicLoops = false
+let MusicQueue: Music[] = []
+let MusicQueueLoops = false
+
+function StartMusic(music: Music, looping: boolean, startSeconds: number, crossfadeSeconds: number, onEnd: () => void): void {
+    CurrentMusic = music
+    CurrentMusicLoops = looping
+    AudioDriver.SetMusic(music, looping, startSeconds, crossfadeSeconds, () => {
+        CurrentMusic = undefined
+        CurrentMusicLoops = false
+        onEnd()
+    })
+}
+
+function PlayNextQueuedMusic(crossfadeSeconds: number): void {
+    const next = MusicQueue.shift()
+    if (!next) return
+    if (MusicQueueLoops) MusicQueue.push(next)
+    StartMusic(next, false, 0, crossfadeSeconds, () => PlayNextQueuedMusic(0))
+}
+
 namespace Music {
-    export function Set(music: Music): void {
-        AudioDriver.SetMusic(music)
+    export function Set(music: Music, crossfadeSeconds?: number, startSeconds?: number): void {
+        MusicQueue = []
+        MusicQueueLoops = false
+        if (CurrentMusic == music && CurrentMusicLoops && !startSeconds) return
+        StartMusic(music, true, startSeconds || 0, crossfadeSeconds || 0, () => { })
+    }
+
+    export function PlayOnce(music: Music, onCompletionIfUninterrupted?: () => void, crossfadeSeconds?: number, startSeconds?: number): void {
+        MusicQueue = []
+        MusicQueueLoops = false
+        StartMusic(music, false, startSeconds || 0, crossfadeSeconds || 0, () => {
+            if (onCompletionIfUninterrupted) onCompletionIfUninterrupted()
+            // The callback may have started other music.
+            if (!CurrentMusic) PlayNextQueuedMusic(0)
+        })
+    }
+
+    export function Playlist(music: Music[], looping?: boolean, crossfadeSeconds?: number): void {
+        MusicQueue = music.slice()
+        MusicQueueLoops = !!looping
+        if (MusicQueue.length) PlayNextQueuedMusic(crossfadeSeconds || 0)
+        else Stop(crossfadeSeconds)
+    }
+
+    export function Queue(music: Music): void {
+        MusicQueue.push(music)
+        if (!CurrentMusic) PlayNextQueuedMusic(0)
     }
 
-    export function Stop(): void {
-        AudioDriver.StopMusic()
+    export function Stop(fadeOutSeconds?: number): void {
+        MusicQueue = []
+        MusicQueueLoops = false
+        CurrentMusic = undefined
+        AudioDriver.StopMusic(fadeOutSeconds || 0)
     }
 }
\ No newline at end of file
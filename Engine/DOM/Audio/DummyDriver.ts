@@ -1,29 +1,103 @@
 class DummySoundInstance implements SoundInstance {
+    private readonly DurationSeconds: number
     private readonly OnDeletion: () => void
-    constructor(onDeletion: () => void) {
+    private readonly OnCompletion?: () => void
+    private Timer: Timer | undefined = undefined
+    private Looping = false
+    private Deleted = false
+    constructor(durationSeconds: number, onDeletion: () => void, onCompletion?: () => void) {
+        this.DurationSeconds = durationSeconds
         this.OnDeletion = onDeletion
+        this.OnCompletion = onCompletion
+    }
+    Pause(): void {
+        if (this.Timer) this.Timer.Pause()
+    }
+    ResumeAt(position: AudioPosition): void {
+        // Nothing is heard, but completion is still timed so that games waiting on it continue.
+        if (this.Timer) this.Timer.Resume()
+        else if (!this.Deleted) this.Timer = new Timer(this.DurationSeconds, () => this.Finished())
+    }
+    ResumeMotion(from: AudioPosition, to: AudioPosition, durationSeconds: number): void {
+        this.ResumeAt(from)
+    }
+    SetVolume(volume: number): void { }
+    SetLooping(looping: boolean): void {
+        this.Looping = looping
+    }
+    private Finished(): void {
+        if (this.Looping) {
+            // The durations of dialog are not known without downloading them, so looping dialog never finishes.
+            if (this.DurationSeconds) this.Timer = new Timer(this.DurationSeconds, () => this.Finished())
+            return
+        }
+        this.Delete()
+        if (this.OnCompletion) this.OnCompletion()
     }
-    Pause(): void { }
-    ResumeAt(pan: number): void { }
-    ResumeMotion(fromPan: number, toPan: number, durationSeconds: number): void { }
     Delete(): void {
+        this.Deleted = true
+        if (this.Timer) {
+            this.Timer.Cancel()
+            this.Timer = undefined
+        }
         this.OnDeletion()
     }
 }
 
+function DummyPreload(): OneTimeEvent<(loaded: boolean) => void> {
+    const preloaded = new OneTimeEvent<(loaded: boolean) => void>()
+    preloaded.Raise(true)
+    return preloaded
+}
+
 function DummyDriver(): AudioDriver {
+    let musicTimer: Timer | undefined = undefined
+    let musicPaused = false
     return {
         Load(then: () => void): void {
             then()
         },
-        PlaySound(sound: Sound, getPanning: () => number, onDeletion: () => void): SoundInstance {
-            return new DummySoundInstance(onDeletion)
+        PlaySound(sound: Sound, getPosition: () => AudioPosition, onDeletion: () => void, onCompletion?: () => void): SoundInstance {
+            return new DummySoundInstance(sound.DurationSeconds, onDeletion, onCompletion)
+        },
+        PlayDialog(dialog: Dialog, getPosition: () => AudioPosition, onDeletion: () => void, onCompletion?: () => void): SoundInstance {
+            return new DummySoundInstance(0, onDeletion, onCompletion)
         },
         Tick(): boolean { return false },
         FirstUserInteraction(): void { },
-        SetMusic(music: Music): void { },
-        StopMusic(): void { },
-        PauseMusic(): void { },
-        ResumeMusic(): void { }
+        // Nothing is heard, but music which does not loop is still timed so that playlists advance.
+        // Music durations are not known without downloading them, so the end of the loop is used, which is the end of the file unless loop points were given.
+        SetMusic(music: Music, looping: boolean, startSeconds: number, crossfadeSeconds: number, onEnd: () => void): void {
+            if (musicTimer) musicTimer.Cancel()
+            musicTimer = undefined
+            if (looping) return
+            const timer = musicTimer = new Timer(Math.max(0, music.LoopEndSeconds - startSeconds), () => {
+                musicTimer = undefined
+                onEnd()
+            })
+            if (musicPaused) timer.Pause()
+        },
+        StopMusic(fadeOutSeconds: number): void {
+            if (musicTimer) musicTimer.Cancel()
+            musicTimer = undefined
+        },
+        PauseMusic(): void {
+            musicPaused = true
+            if (musicTimer) musicTimer.Pause()
+        },
+        ResumeMusic(): void {
+            musicPaused = false
+            if (musicTimer) musicTimer.Resume()
+        },
+        SetMixerVolume(bus: MixerBus, volume: number): void { },
+        // Nothing needs to be downloaded to play silence.
+        PreloadMusic(music: Music): OneTimeEvent<(loaded: boolean) => void> {
+            return DummyPreload()
+        },
+        PreloadDialog(dialog: Dialog): OneTimeEvent<(loaded: boolean) => void> {
+            return DummyPreload()
+        },
+        LoadingProgress(): number { return 1 },
+        SetCacheBudgetSeconds(seconds: number): void { }
     }
 }
\ No newline at end of file
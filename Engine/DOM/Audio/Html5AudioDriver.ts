@@ -0,0 +1,421 @@
+// Used by browsers without the Web Audio API, such as IE9-11.  Panning is not supported, but SpatialAudio's attenuation is.
+function Html5AudioDriver(): AudioDriver | undefined {
+    const fileExtension = GetAudioFileExtension()
+    if (!fileExtension) return undefined
+
+    // Indexed by MixerBus.
+    const mixerVolumes = [1, 1, 1, 1]
+    function MixVolume(bus: MixerBus, volume: number): number {
+        return Math.max(0, Math.min(1, volume * mixerVolumes[bus] * mixerVolumes[MixerBus.Master]))
+    }
+
+    // Audio elements cannot be seeked until they have downloaded enough to know the duration of their file.
+    function WhenSeekable(element: HTMLAudioElement, then: () => void): void {
+        if (element.readyState >= 1) {
+            then()
+            return
+        }
+        element.onloadedmetadata = () => {
+            element.onloadedmetadata = () => { }
+            // The callback may start Timers, such as to fade music in, which need the time brought up to date.
+            InternalInvoke(then)
+        }
+    }
+
+    // Elements which become seekable later need ticking to start, but may also become seekable immediately inside an event handler.
+    function RequestTick(): void {
+        if (!Recursing) InternalInvoke()
+    }
+
+    // Elements which have loaded the packed sounds file, and can be reused for the next sound.
+    const idleSoundElements: HTMLAudioElement[] = []
+    const soundInstances: Html5AudioSoundInstance[] = []
+    // Sounds played from the packed sounds file must be stopped by script when they reach their end.
+    const soundInstancesRequiringTick: Html5AudioSoundInstance[] = []
+    class Html5AudioSoundInstance implements SoundInstance {
+        private Element: HTMLAudioElement | undefined
+        // When true, the element plays a file of its own, rather than a section of the packed sounds file.
+        private readonly WholeFile: boolean
+        private readonly StartSeconds: number
+        private readonly DurationSeconds: number
+        private readonly Gain: number
+        private readonly Bus: MixerBus
+        private Playing = false
+        private Progress = 0
+        private Volume = 1
+        private Looping = false
+        private AttenuationFrom = 1
+        private AttenuationTo = 1
+        private AttenuationRampStartedAt = 0
+        private AttenuationRampSeconds = 0
+
+        private readonly OnDeletion: () => void
+        private readonly OnCompletion?: () => void
+
+        constructor(element: HTMLAudioElement, wholeFile: boolean, startSeconds: number, durationSeconds: number, gain: number, bus: MixerBus, onDeletion: () => void, onCompletion?: () => void) {
+            soundInstances.push(this)
+            this.Element = element
+            this.WholeFile = wholeFile
+            this.StartSeconds = startSeconds
+            this.DurationSeconds = durationSeconds
+            this.Gain = gain
+            this.Bus = bus
+            this.OnDeletion = onDeletion
+            this.OnCompletion = onCompletion
+            if (wholeFile) element.onended = () => InternalInvoke(() => this.Completed())
+            this.ApplyVolume()
+        }
+        Pause(): void {
+            if (!this.Playing) return
+            this.Playing = false
+            Remove(soundInstancesRequiringTick, this)
+            if (!this.Element) return
+            if (this.Element.readyState >= 1) this.Progress = this.Element.currentTime - this.StartSeconds
+            this.Element.pause()
+        }
+        ResumeAt(position: AudioPosition): void {
+            this.AttenuationTo = position.Attenuation
+            this.AttenuationRampSeconds = 0
+            this.ApplyVolume()
+            if (this.Playing) return
+            this.Playing = true
+            const element = this.Element
+            if (!element) return
+            WhenSeekable(element, () => {
+                // This may have been paused or deleted while waiting.
+                if (!this.Playing || this.Element != element) return
+                element.currentTime = this.StartSeconds + this.Progress
+                element.play()
+                if (this.WholeFile || Contains(soundInstancesRequiringTick, this)) return
+                soundInstancesRequiringTick.push(this)
+                RequestTick()
+            })
+        }
+        ResumeMotion(from: AudioPosition, to: AudioPosition, durationSeconds: number): void {
+            this.ResumeAt(from)
+            if (from.Attenuation == to.Attenuation || durationSeconds <= 0) return
+            // Element volumes cannot be ramped, so are instead updated by Tick.
+            this.AttenuationFrom = from.Attenuation
+            this.AttenuationTo = to.Attenuation
+            this.AttenuationRampStartedAt = CurrentTime
+            this.AttenuationRampSeconds = durationSeconds
+            if (!Contains(soundInstancesRequiringTick, this)) soundInstancesRequiringTick.push(this)
+        }
+        SetVolume(volume: number): void {
+            this.Volume = volume
+            this.ApplyVolume()
+        }
+        SetLooping(looping: boolean): void {
+            this.Looping = looping
+            if (this.WholeFile && this.Element) this.Element.loop = looping
+        }
+        private AttenuationRampUnitInterval(): number {
+            if (!this.AttenuationRampSeconds) return 1
+            return Math.min(1, (CurrentTime - this.AttenuationRampStartedAt) / this.AttenuationRampSeconds)
+        }
+        ApplyVolume(): void {
+            const attenuation = Mix(this.AttenuationFrom, this.AttenuationTo, this.AttenuationRampUnitInterval())
+            if (this.Element) this.Element.volume = MixVolume(this.Bus, this.Gain * this.Volume * attenuation)
+        }
+        Tick(): void {
+            if (!this.Element) return
+            if (this.AttenuationRampSeconds) {
+                this.ApplyVolume()
+                if (this.AttenuationRampUnitInterval() == 1) {
+                    this.AttenuationRampSeconds = 0
+                    if (this.WholeFile) Remove(soundInstancesRequiringTick, this)
+                }
+            }
+            if (this.WholeFile) return
+            if (this.Element.currentTime < this.StartSeconds + this.DurationSeconds) return
+            if (this.Looping) this.Element.currentTime = this.StartSeconds
+            else this.Completed()
+        }
+        private Completed(): void {
+            this.Delete()
+            if (this.OnCompletion) this.OnCompletion()
+        }
+        Delete(): void {
+            this.OnDeletion()
+            this.Playing = false
+            Remove(soundInstances, this)
+            Remove(soundInstancesRequiringTick, this)
+            const element = this.Element
+            if (!element) return
+            this.Element = undefined
+            element.pause()
+            element.onended = () => { }
+            if (!this.WholeFile) idleSoundElements.push(element)
+        }
+    }
+
+    // Music and dialog are downloaded on demand.  Preloading them keeps an element which has downloaded the file, so that the browser's cache is used when it is played.
+    type Html5AudioPreload = {
+        readonly Url: string
+        readonly Element: HTMLAudioElement
+        Ready: boolean
+        readonly Loaded: OneTimeEvent<(loaded: boolean) => void>
+    }
+    // Ordered from least to most recently preloaded.
+    const preloads: Html5AudioPreload[] = []
+    let preloadBudgetSeconds = InitialAudioCacheBudgetSeconds
+
+    function PreloadProgress(): number {
+        let loadedSeconds = 0
+        let totalSeconds = 0
+        let anyLoading = false
+        for (const preload of preloads) {
+            if (preload.Ready) continue
+            anyLoading = true
+            const durationSeconds = preload.Element.duration
+            if (!(durationSeconds > 0) || durationSeconds == Infinity) continue
+            totalSeconds += durationSeconds
+            const buffered = preload.Element.buffered
+            if (buffered.length) loadedSeconds += buffered.end(buffered.length - 1)
+        }
+        if (!anyLoading) return 1
+        return totalSeconds ? Math.min(1, loadedSeconds / totalSeconds) : 0
+    }
+
+    function EvictPreloads(): void {
+        let preloadedSeconds = 0
+        for (const preload of preloads) if (preload.Ready) preloadedSeconds += preload.Element.duration
+        for (const preload of preloads.slice()) {
+            if (preloadedSeconds <= preloadBudgetSeconds) break
+            if (!preload.Ready) continue
+            preloadedSeconds -= preload.Element.duration
+            Remove(preloads, preload)
+        }
+    }
+
+    function Preload(url: string): OneTimeEvent<(loaded: boolean) => void> {
+        for (const existing of preloads) if (existing.Url == url) {
+            // Moves this to the end, as it is now the most recently preloaded.
+            Remove(preloads, existing)
+            preloads.push(existing)
+            return existing.Loaded
+        }
+        const preload: Html5AudioPreload = {
+            Url: url,
+            Element: new Audio(),
+            Ready: false,
+            Loaded: new OneTimeEvent<(loaded: boolean) => void>()
+        }
+        preloads.push(preload)
+        preload.Element.preload = "auto"
+        preload.Element.onprogress = () => InternalInvoke(() => AudioCacheProgressChanged.Raise(PreloadProgress()))
+        preload.Element.oncanplaythrough = () => {
+            if (preload.Ready) return
+            preload.Ready = true
+            EvictPreloads()
+            InternalInvoke(() => {
+                AudioCacheProgressChanged.Raise(PreloadProgress())
+                preload.Loaded.Raise(true)
+            })
+        }
+        preload.Element.onerror = () => {
+            // Failures are not kept, so that a later attempt can retry.
+            Remove(preloads, preload)
+            InternalInvoke(() => {
+                AudioCacheProgressChanged.Raise(PreloadProgress())
+                preload.Loaded.Raise(false)
+            })
+        }
+        preload.Element.src = url
+        preload.Element.load()
+        return preload.Loaded
+    }
+
+    let currentMusic: Html5AudioMusicInstance | undefined = undefined
+    let musicPaused = false
+    // Includes music which is fading out after being replaced or stopped.
+    const musicInstances: Html5AudioMusicInstance[] = []
+    class Html5AudioMusicInstance {
+        private readonly Element: HTMLAudioElement
+        private readonly BaseGain: number
+        private readonly Looping: boolean
+        private readonly LoopStartSeconds: number
+        private readonly LoopEndSeconds: number
+        private readonly StartSeconds: number
+        private Started = false
+        private OnEnd: (() => void) | undefined
+        private FadeFrom = 0
+        private FadeTo = 0
+        private FadeTimer: Timer | undefined = undefined
+        // Fading in starts once playback does, as otherwise, slow downloads would skip it.  Undefined once started, or should this be faded out first.
+        private FadeInSeconds: number | undefined
+        constructor(music: Music, looping: boolean, startSeconds: number, fadeInSeconds: number, onEnd: () => void) {
+            musicInstances.push(this)
+            this.BaseGain = music.Gain
+            this.Looping = looping
+            this.LoopStartSeconds = music.LoopStartSeconds
+            this.LoopEndSeconds = music.LoopEndSeconds
+            this.StartSeconds = startSeconds
+            this.OnEnd = onEnd
+            this.Element = new Audio(`music/${music.Id}.${fileExtension}`)
+            this.Element.onended = () => InternalInvoke(() => this.Ended(false))
+            // Music which cannot be played ends immediately, so that anything waiting for it to end, such as a playlist, continues.
+            this.Element.onerror = () => InternalInvoke(() => this.Ended(true))
+            this.FadeInSeconds = fadeInSeconds
+            if (!musicPaused) this.Resume()
+        }
+        private FadeUnitInterval(): number {
+            if (!this.FadeTimer) return this.FadeTo
+            return Mix(this.FadeFrom, this.FadeTo, this.FadeTimer.ElapsedUnitInterval())
+        }
+        ApplyVolume(): void {
+            this.Element.volume = MixVolume(MixerBus.Music, this.BaseGain * this.FadeUnitInterval())
+        }
+        // Fades are timed using Timers so that they stop while the game is paused.
+        private Fade(to: number, durationSeconds: number, then?: () => void): void {
+            this.FadeFrom = this.FadeUnitInterval()
+            this.FadeTo = to
+            if (this.FadeTimer) this.FadeTimer.Cancel()
+            this.FadeTimer = undefined
+            const faded = () => {
+                this.FadeTimer = undefined
+                this.ApplyVolume()
+                if (then) then()
+            }
+            if (durationSeconds > 0) this.FadeTimer = new Timer(durationSeconds, faded)
+            else faded()
+        }
+        FadeOut(durationSeconds: number): void {
+            // Music which has been replaced should not continue a playlist if it ends while fading out.
+            this.OnEnd = undefined
+            this.FadeInSeconds = undefined
+            this.Fade(0, durationSeconds, () => this.Delete())
+        }
+        // Loop points which do not cover the whole file must be applied by script.
+        private LoopsByScript(): boolean {
+            return this.Looping && (this.LoopStartSeconds > 0 || this.LoopEndSeconds < this.Element.duration - 0.05)
+        }
+        Tick(): boolean {
+            let any = false
+            if (this.FadeTimer) {
+                any = true
+                this.ApplyVolume()
+            }
+            if (this.Started && !musicPaused && this.LoopsByScript()) {
+                any = true
+                if (this.Element.currentTime >= this.LoopEndSeconds) this.Element.currentTime -= this.LoopEndSeconds - this.LoopStartSeconds
+            }
+            return any
+        }
+        Pause(): void {
+            this.Element.pause()
+        }
+        Resume(): void {
+            WhenSeekable(this.Element, () => {
+                if (!Contains(musicInstances, this) || musicPaused) return
+                if (!this.Started) {
+                    this.Started = true
+                    this.Element.loop = this.Looping && !this.LoopsByScript()
+                    this.Element.currentTime = this.StartSeconds
+                    if (this.FadeInSeconds !== undefined) this.Fade(1, this.FadeInSeconds)
+                    this.FadeInSeconds = undefined
+                    this.ApplyVolume()
+                }
+                this.Element.play()
+                // Ticking may be required to apply loop points.
+                RequestTick()
+            })
+        }
+        private Ended(failed: boolean): void {
+            // Loop points close to the end of the file may be skipped past between ticks.
+            if (this.Looping && !failed) {
+                this.Element.currentTime = this.LoopStartSeconds
+                this.Element.play()
+                return
+            }
+            const onEnd = this.OnEnd
+            this.Delete()
+            if (onEnd) onEnd()
+        }
+        Delete(): void {
+            this.Element.onended = () => { }
+            this.Element.onerror = () => { }
+            this.Element.pause()
+            if (this.FadeTimer) this.FadeTimer.Cancel()
+            this.FadeTimer = undefined
+            Remove(musicInstances, this)
+            if (currentMusic == this) currentMusic = undefined
+        }
+    }
+
+    return {
+        Load(then: () => void): void {
+            SetLoadingMessage("Downloading sounds...")
+            const element = new Audio()
+            let loaded = false
+            element.preload = "auto"
+            element.oncanplaythrough = () => {
+                if (loaded) return
+                loaded = true
+                idleSoundElements.push(element)
+                then()
+            }
+            element.onerror = () => {
+                if (loaded) return
+                loaded = true
+                SetLoadingMessage("Failed to load sounds, disabling audio...")
+                AudioDriver = DummyDriver()
+                AudioDriver.Load(then)
+            }
+            element.src = `sounds.${fileExtension}`
+            element.load()
+        },
+        PlaySound(sound: Sound, getPosition: () => AudioPosition, onDeletion: () => void, onCompletion?: () => void): SoundInstance {
+            const element = idleSoundElements.pop() || new Audio(`sounds.${fileExtension}`)
+            return new Html5AudioSoundInstance(element, false, sound.StartSeconds, sound.DurationSeconds, sound.Gain, MixerBus.Sound, onDeletion, onCompletion)
+        },
+        PlayDialog(dialog: Dialog, getPosition: () => AudioPosition, onDeletion: () => void, onCompletion?: () => void): SoundInstance {
+            const element = new Audio(`dialog/${dialog.Id}.${fileExtension}`)
+            const instance = new Html5AudioSoundInstance(element, true, 0, Infinity, dialog.Gain, MixerBus.Dialog, onDeletion, onCompletion)
+            element.onerror = () => InternalInvoke(() => instance.Delete())
+            return instance
+        },
+        Tick(): boolean {
+            for (const soundInstance of soundInstancesRequiringTick.slice()) soundInstance.Tick()
+            let musicRequiresTick = false
+            for (const musicInstance of musicInstances) if (musicInstance.Tick()) musicRequiresTick = true
+            return soundInstancesRequiringTick.length > 0 || musicRequiresTick
+        },
+        FirstUserInteraction(): void { },
+        SetMusic(music: Music, looping: boolean, startSeconds: number, crossfadeSeconds: number, onEnd: () => void): void {
+            if (currentMusic) currentMusic.FadeOut(crossfadeSeconds)
+            currentMusic = new Html5AudioMusicInstance(music, looping, startSeconds, crossfadeSeconds, onEnd)
+        },
+        StopMusic(fadeOutSeconds: number): void {
+            if (!currentMusic) return
+            currentMusic.FadeOut(fadeOutSeconds)
+            currentMusic = undefined
+        },
+        PauseMusic(): void {
+            musicPaused = true
+            for (const musicInstance of musicInstances) musicInstance.Pause()
+        },
+        ResumeMusic(): void {
+            musicPaused = false
+            for (const musicInstance of musicInstances) musicInstance.Resume()
+        },
+        SetMixerVolume(bus: MixerBus, volume: number): void {
+            mixerVolumes[bus] = volume
+            for (const soundInstance of soundInstances) soundInstance.ApplyVolume()
+            for (const musicInstance of musicInstances) musicInstance.ApplyVolume()
+        },
+        PreloadMusic(music: Music): OneTimeEvent<(loaded: boolean) => void> {
+            return Preload(`music/${music.Id}.${fileExtension}`)
+        },
+        PreloadDialog(dialog: Dialog): OneTimeEvent<(loaded: boolean) => void> {
+            return Preload(`dialog/${dialog.Id}.${fileExtension}`)
+        },
+        LoadingProgress(): number {
+            return PreloadProgress()
+        },
+        SetCacheBudgetSeconds(seconds: number): void {
+            preloadBudgetSeconds = seconds
+            EvictPreloads()
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+type MixerSettings = {
+    // Both are indexed by MixerBus.
+    Volumes: number[]
+    Muted: boolean[]
+}
+
+let MixerSettings: MixerSettings = {
+    Volumes: [1, 1, 1, 1],
+    Muted: [false, false, false, false]
+}
+
+function ApplyMixerBus(bus: MixerBus): void {
+    AudioDriver.SetMixerVolume(bus, MixerSettings.Muted[bus] ? 0 : MixerSettings.Volumes[bus])
+}
+
+function MixerSettingsValid(settings: Json | undefined): settings is MixerSettings {
+    if (!settings || typeof settings != "object" || settings instanceof Array) return false
+    const volumes = settings.Volumes
+    if (!(volumes instanceof Array) || volumes.length != MixerSettings.Volumes.length) return false
+    for (const volume of volumes) if (typeof volume != "number" || volume < 0) return false
+    const muted = settings.Muted
+    if (!(muted instanceof Array) || muted.length != MixerSettings.Muted.length) return false
+    for (const bus of muted) if (typeof bus != "boolean") return false
+    return true
+}
+
+namespace Mixer {
+    export function Volume(bus: MixerBus): number {
+        return MixerSettings.Volumes[bus]
+    }
+
+    export function SetVolume(bus: MixerBus, volume: number): void {
+        MixerSettings.Volumes[bus] = Math.max(0, volume)
+        ApplyMixerBus(bus)
+    }
+
+    export function Muted(bus: MixerBus): boolean {
+        return MixerSettings.Muted[bus]
+    }
+
+    export function Mute(bus: MixerBus): void {
+        MixerSettings.Muted[bus] = true
+        ApplyMixerBus(bus)
+    }
+
+    export function Unmute(bus: MixerBus): void {
+        MixerSettings.Muted[bus] = false
+        ApplyMixerBus(bus)
+    }
+
+    export function SaveSettings(name: string): boolean {
+        return Save(name, MixerSettings)
+    }
+
+    export function LoadSettings(name: string): boolean {
+        const loaded = Load<Json>(name)
+        if (!MixerSettingsValid(loaded)) return false
+        MixerSettings = loaded
+        for (let bus = 0; bus < MixerSettings.Volumes.length; bus++) ApplyMixerBus(bus)
+        return true
+    }
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+class SoundHandle {
+    private Instance: SoundInstance | undefined
+    private VolumeValue = 1
+    private LoopingValue = false
+
+    constructor(instance: SoundInstance | undefined) {
+        this.Instance = instance
+    }
+
+    readonly Stopped = () => !this.Instance
+    readonly Volume = () => this.VolumeValue
+    readonly Looping = () => this.LoopingValue
+
+    Stop(): SoundHandle {
+        if (this.Instance) this.Instance.Delete()
+        return this
+    }
+
+    SetVolume(volume: number): SoundHandle {
+        this.VolumeValue = Math.max(0, volume)
+        if (this.Instance) this.Instance.SetVolume(this.VolumeValue)
+        return this
+    }
+
+    SetLooping(looping: boolean): SoundHandle {
+        this.LoopingValue = looping
+        if (this.Instance) this.Instance.SetLooping(looping)
+        return this
+    }
+
+    // Called by the engine when the SoundInstance is deleted, whether stopped, finished or deleted along with its scene object.
+    Released(): void {
+        this.Instance = undefined
+    }
+}
\ No newline at end of file
@@ -0,0 +1,111 @@
+// Where a sound is heard from, relative to the listener.
+type AudioPosition = {
+    // -1 is left, 0 is center, 1 is right.
+    readonly Pan: number
+    // -1 is below, 0 is level, 1 is above.
+    readonly Elevation: number
+    // A unit interval, where 0 is silent and 1 is unattenuated.
+    readonly Attenuation: number
+}
+
+let SpatialAudioEnabled = false
+let SpatialAudioFullVolumeVirtualPixels = 0
+let SpatialAudioSilentVirtualPixels = 0
+let SpatialAudioOffscreen = OffscreenAudio.Unchanged
+let SpatialAudioOffscreenFadeVirtualPixels = 0
+let SpatialAudioListener: SceneObject | undefined = undefined
+let SpatialAudioListenerVirtualPixelsFromLeft = WidthVirtualPixels / 2
+let SpatialAudioListenerVirtualPixelsFromTop = HeightVirtualPixels / 2
+
+// MovingSceneObjects which are currently playing sounds, which must be repositioned when the listener or settings change.
+const SpatialAudioEmitters: MovingSceneObject[] = []
+
+function ConvertPositionToPanning(position: number) {
+    return ((position - (WidthVirtualPixels / 2)) / WidthVirtualPixels) * 2
+}
+
+function SpatialAudioListenerAbsoluteVirtualPixelsFromLeft(): number {
+    if (!SpatialAudioListener) return SpatialAudioListenerVirtualPixelsFromLeft
+    return SpatialAudioListenerVirtualPixelsFromLeft + SpatialAudioListener.CurrentAbsoluteVirtualPixelsFromLeftForTransitions()
+}
+
+function SpatialAudioListenerAbsoluteVirtualPixelsFromTop(): number {
+    if (!SpatialAudioListener) return SpatialAudioListenerVirtualPixelsFromTop
+    return SpatialAudioListenerVirtualPixelsFromTop + SpatialAudioListener.CurrentAbsoluteVirtualPixelsFromTopForTransitions()
+}
+
+// When true, sounds must be repositioned every frame, as the motion of the listener cannot be ramped alongside that of each sound.
+function SpatialAudioListenerMoving(): boolean {
+    return SpatialAudioEnabled && !!SpatialAudioListener && SpatialAudioListener.SecondsUntilDestinationReachedForTransitions() != Infinity
+}
+
+function GetAudioPosition(absoluteVirtualPixelsFromLeft: number, absoluteVirtualPixelsFromTop: number): AudioPosition {
+    if (!SpatialAudioEnabled) return {
+        Pan: ConvertPositionToPanning(absoluteVirtualPixelsFromLeft),
+        Elevation: 0,
+        Attenuation: 1
+    }
+
+    let attenuation = 1
+    if (SpatialAudioOffscreen == OffscreenAudio.Clamp) {
+        absoluteVirtualPixelsFromLeft = Math.max(0, Math.min(WidthVirtualPixels, absoluteVirtualPixelsFromLeft))
+        absoluteVirtualPixelsFromTop = Math.max(0, Math.min(HeightVirtualPixels, absoluteVirtualPixelsFromTop))
+    } else if (SpatialAudioOffscreen == OffscreenAudio.Fade) {
+        const virtualPixelsOffscreen = Distance(
+            absoluteVirtualPixelsFromLeft,
+            absoluteVirtualPixelsFromTop,
+            Math.max(0, Math.min(WidthVirtualPixels, absoluteVirtualPixelsFromLeft)),
+            Math.max(0, Math.min(HeightVirtualPixels, absoluteVirtualPixelsFromTop))
+        )
+        if (virtualPixelsOffscreen) attenuation = virtualPixelsOffscreen >= SpatialAudioOffscreenFadeVirtualPixels ? 0 : 1 - virtualPixelsOffscreen / SpatialAudioOffscreenFadeVirtualPixels
+    }
+
+    const listenerVirtualPixelsFromLeft = SpatialAudioListenerAbsoluteVirtualPixelsFromLeft()
+    const listenerVirtualPixelsFromTop = SpatialAudioListenerAbsoluteVirtualPixelsFromTop()
+    const virtualPixelsAway = Distance(absoluteVirtualPixelsFromLeft, absoluteVirtualPixelsFromTop, listenerVirtualPixelsFromLeft, listenerVirtualPixelsFromTop)
+    if (virtualPixelsAway > SpatialAudioFullVolumeVirtualPixels) attenuation *= virtualPixelsAway >= SpatialAudioSilentVirtualPixels ? 0 : 1 - (virtualPixelsAway - SpatialAudioFullVolumeVirtualPixels) / (SpatialAudioSilentVirtualPixels - SpatialAudioFullVolumeVirtualPixels)
+
+    return {
+        Pan: Math.max(-1, Math.min(1, (absoluteVirtualPixelsFromLeft - listenerVirtualPixelsFromLeft) / (WidthVirtualPixels / 2))),
+        Elevation: Math.max(-1, Math.min(1, (listenerVirtualPixelsFromTop - absoluteVirtualPixelsFromTop) / (HeightVirtualPixels / 2))),
+        Attenuation: attenuation
+    }
+}
+
+// Called by the engine when the listener, or the settings used to position sounds, have changed.
+function RepositionSpatialAudio(): void {
+    for (const emitter of SpatialAudioEmitters.slice()) emitter.PositionSounds()
+}
+
+namespace SpatialAudio {
+    export function Enabled(): boolean {
+        return SpatialAudioEnabled
+    }
+
+    export function Enable(fullVolumeVirtualPixels: number, silentVirtualPixels: number, offscreen?: OffscreenAudio, offscreenFadeVirtualPixels?: number): void {
+        SpatialAudioEnabled = true
+        SpatialAudioFullVolumeVirtualPixels = Math.max(0, fullVolumeVirtualPixels)
+        SpatialAudioSilentVirtualPixels = Math.max(SpatialAudioFullVolumeVirtualPixels, silentVirtualPixels)
+        SpatialAudioOffscreen = offscreen || OffscreenAudio.Unchanged
+        SpatialAudioOffscreenFadeVirtualPixels = offscreenFadeVirtualPixels === undefined ? WidthVirtualPixels / 4 : Math.max(0, offscreenFadeVirtualPixels)
+        RepositionSpatialAudio()
+    }
+
+    export function Disable(): void {
+        if (!SpatialAudioEnabled) return
+        SpatialAudioEnabled = false
+        RepositionSpatialAudio()
+    }
+
+    export function SetListener(listener?: Viewport | Group | Sprite | Background, virtualPixelsFromLeft?: number, virtualPixelsFromTop?: number): void {
+        SpatialAudioListener = listener
+        if (listener) {
+            SpatialAudioListenerVirtualPixelsFromLeft = virtualPixelsFromLeft || 0
+            SpatialAudioListenerVirtualPixelsFromTop = virtualPixelsFromTop || 0
+        } else {
+            SpatialAudioListenerVirtualPixelsFromLeft = virtualPixelsFromLeft === undefined ? WidthVirtualPixels / 2 : virtualPixelsFromLeft
+            SpatialAudioListenerVirtualPixelsFromTop = virtualPixelsFromTop === undefined ? HeightVirtualPixels / 2 : virtualPixelsFromTop
+        }
+        RepositionSpatialAudio()
+    }
+}
\ No newline at end of file
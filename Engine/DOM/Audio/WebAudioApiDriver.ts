@@ -4,6 +4,140 @@ function WebAudioApiDriver(): AudioDriver | undefined {
     if (!fileExtension) return undefined
     const context: AudioContext = "AudioContext" in window ? new AudioContext : new (window as any).webkitAudioContext()
     let soundsBuffer: AudioBuffer
+    // Indexed by MixerBus; every other bus feeds into the master bus.
+    const mixerGains = [context.createGain(), context.createGain(), context.createGain(), context.createGain()]
+    mixerGains[MixerBus.Master].connect(context.destination)
+    mixerGains[MixerBus.Music].connect(mixerGains[MixerBus.Master])
+    mixerGains[MixerBus.Sound].connect(mixerGains[MixerBus.Master])
+    mixerGains[MixerBus.Dialog].connect(mixerGains[MixerBus.Master])
+
+    // Music and dialog are downloaded on demand, and kept until the cache exceeds its budget.
+    type WebAudioApiCacheEntry = {
+        readonly Url: string
+        Buffer: AudioBuffer | undefined
+        LoadedBytes: number
+        // 0 when not (yet) known.
+        TotalBytes: number
+        // The number of instances currently playing this entry, which cannot be evicted.
+        Users: number
+        LastUsed: number
+        // Undefined once downloaded, or should downloading fail.
+        Request: XMLHttpRequest | undefined
+        // True when this was requested by a preload, so should be downloaded even if nothing is waiting to play it.
+        Preloaded: boolean
+        // Raised with undefined should downloading or decoding fail.
+        readonly Loaded: OneTimeEvent<(buffer: AudioBuffer | undefined) => void>
+    }
+    const cache: { [url: string]: WebAudioApiCacheEntry } = {}
+    let cacheUses = 0
+    let cacheBudgetSeconds = InitialAudioCacheBudgetSeconds
+
+    function CacheProgress(): number {
+        let loadedBytes = 0
+        let totalBytes = 0
+        let anyLoading = false
+        for (const url in cache) {
+            const entry = cache[url]
+            if (entry.Buffer) continue
+            anyLoading = true
+            loadedBytes += entry.LoadedBytes
+            totalBytes += entry.TotalBytes
+        }
+        if (!anyLoading) return 1
+        return totalBytes ? loadedBytes / totalBytes : 0
+    }
+
+    // The entry given, if any, has only just been downloaded, so is kept until the next eviction, even if it alone exceeds the budget.
+    function EvictFromCache(justLoaded?: WebAudioApiCacheEntry): void {
+        let cachedSeconds = 0
+        const evictable: WebAudioApiCacheEntry[] = []
+        for (const url in cache) {
+            const entry = cache[url]
+            if (!entry.Buffer) continue
+            cachedSeconds += entry.Buffer.duration
+            if (!entry.Users && entry != justLoaded) evictable.push(entry)
+        }
+        evictable.sort((a, b) => a.LastUsed - b.LastUsed)
+        for (const entry of evictable) {
+            if (cachedSeconds <= cacheBudgetSeconds) break
+            cachedSeconds -= (entry.Buffer as AudioBuffer).duration
+            delete cache[entry.Url]
+        }
+    }
+
+    function FetchFromCache(url: string): WebAudioApiCacheEntry {
+        let entry = cache[url]
+        if (!entry) {
+            const created: WebAudioApiCacheEntry = entry = cache[url] = {
+                Url: url,
+                Buffer: undefined,
+                LoadedBytes: 0,
+                TotalBytes: 0,
+                Users: 0,
+                LastUsed: 0,
+                Request: undefined,
+                Preloaded: false,
+                Loaded: new OneTimeEvent<(buffer: AudioBuffer | undefined) => void>()
+            }
+            const failed = () => {
+                created.Request = undefined
+                // Failures are not cached, so that a later attempt can retry.
+                if (cache[url] == created) delete cache[url]
+                InternalInvoke(() => {
+                    AudioCacheProgressChanged.Raise(CacheProgress())
+                    created.Loaded.Raise(undefined)
+                })
+            }
+            const request = created.Request = new XMLHttpRequest()
+            request.open("GET", url, true)
+            request.responseType = "arraybuffer"
+            request.onprogress = progressEvent => {
+                if (!progressEvent.lengthComputable) return
+                created.LoadedBytes = progressEvent.loaded
+                created.TotalBytes = progressEvent.total
+                InternalInvoke(() => AudioCacheProgressChanged.Raise(CacheProgress()))
+            }
+            request.onerror = failed
+            request.onload = () => {
+                if (request.readyState != 4) return
+                created.Request = undefined
+                if (request.status >= 200 && request.status < 300) context.decodeAudioData(request.response, buffer => {
+                    created.Buffer = buffer
+                    created.LoadedBytes = created.TotalBytes
+                    EvictFromCache(created)
+                    InternalInvoke(() => {
+                        AudioCacheProgressChanged.Raise(CacheProgress())
+                        created.Loaded.Raise(buffer)
+                    })
+                }, failed)
+                else failed()
+            }
+            request.send()
+        }
+        entry.LastUsed = cacheUses++
+        return entry
+    }
+
+    // Called when an instance stops using an entry.  Downloads which nothing is waiting for any longer are abandoned.
+    function ReleaseFromCache(entry: WebAudioApiCacheEntry, onLoaded: (buffer: AudioBuffer | undefined) => void): void {
+        entry.Loaded.Unlisten(onLoaded)
+        entry.Users--
+        if (!entry.Users && entry.Request && !entry.Preloaded) {
+            entry.Request.abort()
+            entry.Request = undefined
+            if (cache[entry.Url] == entry) delete cache[entry.Url]
+            AudioCacheProgressChanged.Raise(CacheProgress())
+        }
+        EvictFromCache()
+    }
+
+    function Preload(url: string): OneTimeEvent<(loaded: boolean) => void> {
+        const preloaded = new OneTimeEvent<(loaded: boolean) => void>()
+        const entry = FetchFromCache(url)
+        entry.Preloaded = true
+        entry.Loaded.Listen(buffer => preloaded.Raise(!!buffer))
+        return preloaded
+    }
     const SoundInstancesRequiringTick: WebAudioApiSoundInstance[] = []
     class WebAudioApiSoundInstance implements SoundInstance {
         private Source: AudioBufferSourceNode | undefined
@@ -12,20 +146,28 @@ function WebAudioApiDriver(): AudioDriver | undefined {
             Type: "StereoPannerNode"
             Node: StereoPannerNode
         } | {
-            // iOS.
+            // iOS, or SpatialAudio, as only a PannerNode can pan vertically.
             Type: "PannerNode",
             Node: PannerNode
         }
+        private readonly Attenuation: GainNode
         private readonly Gain: GainNode
-        private readonly Sound: Sound
+        private readonly BaseGain: number
+        private readonly Bus: GainNode
+        private Buffer: AudioBuffer | undefined
+        private readonly StartSeconds: number
+        private DurationSeconds: number
+        private Playing = false
         private Progress = 0
         private StartedAt = 0
+        private Looping = false
 
-        private readonly GetPanning: () => number
+        private readonly GetPosition: () => AudioPosition
         private readonly OnDeletion: () => void
+        private readonly OnCompletion?: () => void
 
-        constructor(sound: Sound, getPanning: () => number, onDeletion: () => void) {
-            if ("createStereoPanner" in context) {
+        constructor(buffer: AudioBuffer | undefined, startSeconds: number, durationSeconds: number, gain: number, bus: MixerBus, getPosition: () => AudioPosition, onDeletion: () => void, onCompletion?: () => void) {
+            if (!SpatialAudioEnabled && "createStereoPanner" in context) {
                 this.Panner = {
                     // Chrome, Firefox, Edge.
                     Type: "StereoPannerNode",
@@ -33,118 +175,251 @@ function WebAudioApiDriver(): AudioDriver | undefined {
                 }
             } else {
                 this.Panner = {
-                    // iOS.
+                    // iOS, or SpatialAudio.
                     Type: "PannerNode",
                     Node: context.createPanner()
                 }
+                // Attenuation is applied separately, so that it can be ramped alongside motion.
                 this.Panner.Node.rolloffFactor = 0
+                // Elevation is only heard using HRTF.
+                if (SpatialAudioEnabled) (this.Panner.Node as any).panningModel = "HRTF" // TypeScript's DOM types only permit "equalpower".
             }
 
+            this.Attenuation = context.createGain()
+            this.Panner.Node.connect(this.Attenuation)
             this.Gain = context.createGain()
-            this.Panner.Node.connect(this.Gain)
-            this.Gain.connect(context.destination)
+            this.Attenuation.connect(this.Gain)
+            this.Bus = mixerGains[bus]
+            this.Gain.connect(this.Bus)
             this.StartedAt = context.currentTime
-            this.Gain.gain.setValueAtTime(sound.Gain, this.StartedAt)
-            this.Sound = sound
-            this.GetPanning = getPanning
+            this.BaseGain = gain
+            this.Gain.gain.setValueAtTime(gain, this.StartedAt)
+            this.Buffer = buffer
+            this.StartSeconds = startSeconds
+            this.DurationSeconds = durationSeconds
+            this.GetPosition = getPosition
             this.OnDeletion = onDeletion
+            this.OnCompletion = onCompletion
         }
         Pause(): void {
+            this.Playing = false
             if (!this.Source) return
-            this.Progress += context.currentTime - this.StartedAt
-            this.Source.disconnect(this.Panner.Node)
-            this.Source.onended = () => { }
-            this.Source.stop()
-            this.Source = undefined
+            this.StopSource()
             Remove(SoundInstancesRequiringTick, this)
         }
-        ResumeAt(pan: number): void {
-            if (this.Panner.Type == "StereoPannerNode")
+        ResumeAt(position: AudioPosition): void {
+            if (this.Panner.Type == "StereoPannerNode") {
                 // Chrome, Firefox, Edge.
-                this.Panner.Node.pan.setValueAtTime(pan, context.currentTime)
-            else {
-                // iOS.
-                this.Panner.Node.setPosition(pan, 0, -1)
+                this.Panner.Node.pan.cancelScheduledValues(context.currentTime)
+                this.Panner.Node.pan.setValueAtTime(position.Pan, context.currentTime)
+            } else {
+                // iOS, or SpatialAudio.
+                this.Panner.Node.setPosition(position.Pan, position.Elevation, -1)
                 Remove(SoundInstancesRequiringTick, this)
             }
+            this.Attenuation.gain.cancelScheduledValues(context.currentTime)
+            this.Attenuation.gain.setValueAtTime(position.Attenuation, context.currentTime)
 
-            if (!this.Source) {
-                this.Source = context.createBufferSource()
-                this.Source.buffer = soundsBuffer
-                this.StartedAt = context.currentTime
-                this.Source.onended = () => this.Delete()
-                this.Source.connect(this.Panner.Node)
-                this.Source.start(this.StartedAt, this.Sound.StartSeconds + this.Progress, this.Sound.DurationSeconds - this.Progress)
-            }
+            this.Playing = true
+            this.Start()
         }
-        ResumeMotion(fromPan: number, toPan: number, durationSeconds: number): void {
-            this.ResumeAt(fromPan)
+        ResumeMotion(from: AudioPosition, to: AudioPosition, durationSeconds: number): void {
+            this.ResumeAt(from)
 
             if (this.Panner.Type == "StereoPannerNode")
                 // Chrome, Firefox, Edge.
-                this.Panner.Node.pan.linearRampToValueAtTime(toPan, context.currentTime + durationSeconds)
+                this.Panner.Node.pan.linearRampToValueAtTime(to.Pan, context.currentTime + durationSeconds)
             else
-                // iOS.
+                // iOS, or SpatialAudio.
                 SoundInstancesRequiringTick.push(this)
+            this.Attenuation.gain.linearRampToValueAtTime(to.Attenuation, context.currentTime + durationSeconds)
+        }
+        SetVolume(volume: number): void {
+            this.Gain.gain.setValueAtTime(this.BaseGain * volume, context.currentTime)
+        }
+        SetLooping(looping: boolean): void {
+            if (this.Looping == looping) return
+            // Sources cannot stop looping part-way through without playing on into the rest of the buffer, so are replaced.
+            const restart = !!this.Source
+            this.StopSource()
+            this.Looping = looping
+            if (restart) this.Start()
+        }
+        protected Loaded(buffer: AudioBuffer): void {
+            this.Buffer = buffer
+            this.DurationSeconds = buffer.duration
+            if (this.Playing) this.Start()
+        }
+        private Start(): void {
+            if (this.Source) return
+            // Content streamed on demand may not have finished downloading yet; Loaded will start playback once it has.
+            if (!this.Buffer) return
+            this.Source = context.createBufferSource()
+            this.Source.buffer = this.Buffer
+            this.StartedAt = context.currentTime
+            this.Source.connect(this.Panner.Node)
+            if (this.Looping) {
+                this.Source.loop = true
+                this.Source.loopStart = this.StartSeconds
+                this.Source.loopEnd = this.StartSeconds + this.DurationSeconds
+                this.Source.start(this.StartedAt, this.StartSeconds + this.Progress)
+            } else {
+                this.Source.onended = () => InternalInvoke(() => this.Completed())
+                this.Source.start(this.StartedAt, this.StartSeconds + this.Progress, this.DurationSeconds - this.Progress)
+            }
+        }
+        private StopSource(): void {
+            if (!this.Source) return
+            this.Progress += context.currentTime - this.StartedAt
+            if (this.Looping) this.Progress %= this.DurationSeconds
+            this.Source.disconnect(this.Panner.Node)
+            this.Source.onended = () => { }
+            this.Source.stop()
+            this.Source = undefined
+        }
+        private Completed(): void {
+            this.Delete()
+            if (this.OnCompletion) this.OnCompletion()
         }
         Tick(): void {
-            if (this.Panner.Type == "PannerNode")
-                this.Panner.Node.setPosition(this.GetPanning(), 0, -1)
+            if (this.Panner.Type != "PannerNode") return
+            const position = this.GetPosition()
+            this.Panner.Node.setPosition(position.Pan, position.Elevation, -1)
         }
         Delete(): void {
             this.OnDeletion()
             if (this.Source) {
+                this.Source.onended = () => { }
                 this.Source.stop()
                 this.Source.disconnect(this.Panner.Node)
+                this.Source = undefined
             }
-            this.Panner.Node.disconnect(this.Gain)
-            this.Gain.disconnect(context.destination)
+            this.Panner.Node.disconnect(this.Attenuation)
+            this.Attenuation.disconnect(this.Gain)
+            this.Gain.disconnect(this.Bus)
             Remove(SoundInstancesRequiringTick, this)
         }
     }
+    class WebAudioApiDialogInstance extends WebAudioApiSoundInstance {
+        private Entry: WebAudioApiCacheEntry | undefined
+        private readonly OnLoaded = (buffer: AudioBuffer | undefined) => {
+            if (buffer) this.Loaded(buffer)
+            else this.Delete()
+        }
+
+        constructor(dialog: Dialog, getPosition: () => AudioPosition, onDeletion: () => void, onCompletion?: () => void) {
+            super(undefined, 0, 0, dialog.Gain, MixerBus.Dialog, getPosition, onDeletion, onCompletion)
+            this.Entry = FetchFromCache(`dialog/${dialog.Id}.${fileExtension}`)
+            this.Entry.Users++
+            this.Entry.Loaded.Listen(this.OnLoaded)
+        }
+        Delete(): void {
+            if (this.Entry) {
+                ReleaseFromCache(this.Entry, this.OnLoaded)
+                this.Entry = undefined
+            }
+            super.Delete()
+        }
+    }
     let currentMusic: WebAudioApiMusicInstance | undefined = undefined
     let musicPaused = false
+    // Includes music which is fading out after being replaced or stopped.
+    const musicInstances: WebAudioApiMusicInstance[] = []
     class WebAudioApiMusicInstance {
         private State: {
             readonly Loaded: false
-            readonly Request: XMLHttpRequest
         } | {
             readonly Loaded: true
             readonly Buffer: AudioBuffer
             Source: AudioBufferSourceNode | undefined
             readonly Gain: GainNode
         }
+        private readonly BaseGain: number
+        private readonly Looping: boolean
+        private readonly LoopStartSeconds: number
+        private readonly LoopEndSeconds: number
+        private OnEnd: (() => void) | undefined
         private StartedAt: number
-        private Progress = 0
-        constructor(music: Music) {
-            currentMusic = this
-            const request = new XMLHttpRequest()
-            request.open("GET", `music/${music.Id}.${fileExtension}`, true)
-            request.responseType = "arraybuffer"
-            request.onload = () => {
-                if (request.readyState != 4) return
-                if (request.status >= 200 && request.status < 300) context.decodeAudioData(request.response, buffer => {
-                    this.State = {
-                        Loaded: true,
-                        Buffer: buffer,
-                        Source: undefined,
-                        Gain: context.createGain()
-                    }
-                    this.State.Gain.gain.setValueAtTime(music.Gain, context.currentTime)
-                    this.State.Gain.connect(context.destination)
-                    if (!musicPaused) this.Resume()
-                }, () => { })
+        private Progress: number
+        private FadeFrom = 0
+        private FadeTo = 0
+        private FadeTimer: Timer | undefined = undefined
+        // Fading in starts once downloaded, as otherwise, slow downloads would skip it.  Undefined once started, or should this be faded out first.
+        private FadeInSeconds: number | undefined
+        private Entry: WebAudioApiCacheEntry | undefined
+        private readonly OnLoaded = (buffer: AudioBuffer | undefined) => {
+            // Music which cannot be played ends immediately, so that anything waiting for it to end, such as a playlist, continues.
+            if (!buffer) {
+                this.Ended()
+                return
             }
-            request.send()
             this.State = {
-                Loaded: false,
-                Request: request
+                Loaded: true,
+                Buffer: buffer,
+                Source: undefined,
+                Gain: context.createGain()
             }
+            this.Progress = this.WrapProgress(this.Progress)
+            if (this.FadeInSeconds !== undefined) this.Fade(1, this.FadeInSeconds)
+            this.FadeInSeconds = undefined
+            this.ApplyGain()
+            this.State.Gain.connect(mixerGains[MixerBus.Music])
+            if (!musicPaused) this.Resume()
+        }
+        constructor(music: Music, looping: boolean, startSeconds: number, fadeInSeconds: number, onEnd: () => void) {
+            musicInstances.push(this)
+            this.BaseGain = music.Gain
+            this.Looping = looping
+            this.LoopStartSeconds = music.LoopStartSeconds
+            this.LoopEndSeconds = music.LoopEndSeconds
+            this.OnEnd = onEnd
+            this.Progress = startSeconds
+            this.State = {
+                Loaded: false
+            }
+            this.FadeInSeconds = fadeInSeconds
+            this.Entry = FetchFromCache(`music/${music.Id}.${fileExtension}`)
+            this.Entry.Users++
+            this.Entry.Loaded.Listen(this.OnLoaded)
+        }
+        private FadeUnitInterval(): number {
+            if (!this.FadeTimer) return this.FadeTo
+            return Mix(this.FadeFrom, this.FadeTo, this.FadeTimer.ElapsedUnitInterval())
+        }
+        private ApplyGain(): void {
+            if (!this.State.Loaded) return
+            this.State.Gain.gain.setValueAtTime(this.BaseGain * this.FadeUnitInterval(), context.currentTime)
+        }
+        // Fades are timed using Timers rather than the AudioContext so that they stop while the game is paused.
+        private Fade(to: number, durationSeconds: number, then?: () => void): void {
+            this.FadeFrom = this.FadeUnitInterval()
+            this.FadeTo = to
+            if (this.FadeTimer) this.FadeTimer.Cancel()
+            this.FadeTimer = undefined
+            const faded = () => {
+                this.FadeTimer = undefined
+                this.ApplyGain()
+                if (then) then()
+            }
+            if (durationSeconds > 0) this.FadeTimer = new Timer(durationSeconds, faded)
+            else faded()
+        }
+        FadeOut(durationSeconds: number): void {
+            // Music which has been replaced should not continue a playlist if it ends while fading out.
+            this.OnEnd = undefined
+            this.FadeInSeconds = undefined
+            this.Fade(0, durationSeconds, () => this.Delete())
+        }
+        Tick(): boolean {
+            if (!this.FadeTimer) return false
+            this.ApplyGain()
+            return true
         }
         Pause(): void {
             if (!this.State.Loaded) return
             if (!this.State.Source) return
-            this.Progress = (this.Progress + context.currentTime - this.StartedAt) % this.State.Buffer.duration
+            this.Progress = this.WrapProgress(this.Progress + context.currentTime - this.StartedAt)
+            this.State.Source.onended = () => { }
             this.State.Source.disconnect(this.State.Gain)
             this.State.Source.stop()
             this.State.Source = undefined
@@ -155,21 +430,40 @@ function WebAudioApiDriver(): AudioDriver | undefined {
             this.StartedAt = context.currentTime
             this.State.Source = context.createBufferSource()
             this.State.Source.buffer = this.State.Buffer
-            this.State.Source.loop = true
+            this.State.Source.loop = this.Looping
+            this.State.Source.loopStart = this.LoopStartSeconds
+            this.State.Source.loopEnd = this.LoopEndSeconds
+            if (!this.Looping) this.State.Source.onended = () => InternalInvoke(() => this.Ended())
             this.State.Source.connect(this.State.Gain)
             this.State.Source.start(context.currentTime, this.Progress)
         }
+        // Looping music plays any intro once, then returns to the start of the loop each time its end is reached.
+        private WrapProgress(progress: number): number {
+            if (!this.Looping || progress < this.LoopEndSeconds) return progress
+            return this.LoopStartSeconds + (progress - this.LoopStartSeconds) % (this.LoopEndSeconds - this.LoopStartSeconds)
+        }
+        private Ended(): void {
+            const onEnd = this.OnEnd
+            this.Delete()
+            if (onEnd) onEnd()
+        }
         Delete(): void {
             if (this.State.Loaded) {
                 if (this.State.Source) {
+                    this.State.Source.onended = () => { }
                     this.State.Source.disconnect(this.State.Gain)
                     this.State.Source.stop()
                 }
-                this.State.Gain.disconnect(context.destination)
-            } else {
-                this.State.Request.abort()
+                this.State.Gain.disconnect(mixerGains[MixerBus.Music])
             }
-            currentMusic = undefined
+            if (this.Entry) {
+                ReleaseFromCache(this.Entry, this.OnLoaded)
+                this.Entry = undefined
+            }
+            if (this.FadeTimer) this.FadeTimer.Cancel()
+            this.FadeTimer = undefined
+            Remove(musicInstances, this)
+            if (currentMusic == this) currentMusic = undefined
         }
     }
     return {
@@ -198,12 +492,17 @@ function WebAudioApiDriver(): AudioDriver | undefined {
             }
             request.send()
         },
-        PlaySound(sound: Sound, getPanning: () => number, onDeletion: () => void): SoundInstance {
-            return new WebAudioApiSoundInstance(sound, getPanning, onDeletion)
+        PlaySound(sound: Sound, getPosition: () => AudioPosition, onDeletion: () => void, onCompletion?: () => void): SoundInstance {
+            return new WebAudioApiSoundInstance(soundsBuffer, sound.StartSeconds, sound.DurationSeconds, sound.Gain, MixerBus.Sound, getPosition, onDeletion, onCompletion)
+        },
+        PlayDialog(dialog: Dialog, getPosition: () => AudioPosition, onDeletion: () => void, onCompletion?: () => void): SoundInstance {
+            return new WebAudioApiDialogInstance(dialog, getPosition, onDeletion, onCompletion)
         },
         Tick(): boolean {
             for (const soundInstance of SoundInstancesRequiringTick) soundInstance.Tick()
-            return SoundInstancesRequiringTick.length > 0
+            let musicFading = false
+            for (const musicInstance of musicInstances) if (musicInstance.Tick()) musicFading = true
+            return SoundInstancesRequiringTick.length > 0 || musicFading
         },
         FirstUserInteraction(): void {
             const source = context.createBufferSource()
@@ -211,22 +510,38 @@ function WebAudioApiDriver(): AudioDriver | undefined {
             source.connect(context.destination)
             source.start()
         },
-        SetMusic(music: Music): void {
-            if (currentMusic) currentMusic.Delete()
-            currentMusic = new WebAudioApiMusicInstance(music)
+        SetMusic(music: Music, looping: boolean, startSeconds: number, crossfadeSeconds: number, onEnd: () => void): void {
+            if (currentMusic) currentMusic.FadeOut(crossfadeSeconds)
+            currentMusic = new WebAudioApiMusicInstance(music, looping, startSeconds, crossfadeSeconds, onEnd)
         },
-        StopMusic(): void {
+        StopMusic(fadeOutSeconds: number): void {
             if (!currentMusic) return
-            currentMusic.Delete()
+            currentMusic.FadeOut(fadeOutSeconds)
             currentMusic = undefined
         },
         PauseMusic(): void {
             musicPaused = true
-            if (currentMusic) currentMusic.Pause()
+            for (const musicInstance of musicInstances) musicInstance.Pause()
         },
         ResumeMusic(): void {
             musicPaused = false
-            if (currentMusic) currentMusic.Resume()
+            for (const musicInstance of musicInstances) musicInstance.Resume()
+        },
+        SetMixerVolume(bus: MixerBus, volume: number): void {
+            mixerGains[bus].gain.setValueAtTime(volume, context.currentTime)
+        },
+        PreloadMusic(music: Music): OneTimeEvent<(loaded: boolean) => void> {
+            return Preload(`music/${music.Id}.${fileExtension}`)
+        },
+        PreloadDialog(dialog: Dialog): OneTimeEvent<(loaded: boolean) => void> {
+            return Preload(`dialog/${dialog.Id}.${fileExtension}`)
+        },
+        LoadingProgress(): number {
+            return CacheProgress()
+        },
+        SetCacheBudgetSeconds(seconds: number): void {
+            cacheBudgetSeconds = seconds
+            EvictFromCache()
         }
     }
 }
\ No newline at end of file
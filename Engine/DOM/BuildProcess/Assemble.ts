@@ -1,6 +1,7 @@
 import { Error, MinifyImages, ScaleUpToFakeNearestNeighbor } from "./../../../BuildContent/Misc"
-import { Build, Configuration, PackedSpriteFrame, PackedBackgroundFrame, PackedSound, PackedMusic, PackedDialog } from "./../../../BuildContent/Types"
+import { Build, Configuration, AnimationDirection, PackedSpriteFrame, PackedSprite, PackedBackgroundFrame, PackedBackground, PackedSound, PackedMusic, PackedDialog, PackedTilemap } from "./../../../BuildContent/Types"
 import { GenerateCodeFromContentTree, GenerateContentTreeFromBuild } from "./../../../BuildContent/Tree"
+import { GenerateMapCode } from "./../../../BuildContent/Map/Code"
 
 import cpr = require("cpr")
 import fs = require("fs")
@@ -67,14 +68,39 @@ function ReadDOMEngine() {
 
 let Content: string
 
+// Matches the PlaybackDirection enum in the engine's types.
+function GeneratePlaybackDirection(direction: AnimationDirection): string {
+    switch (direction) {
+        case "forward": return "0"
+        case "reverse": return "1"
+        case "pingpong": return "2"
+    }
+}
+
+function GenerateSpriteFrame(spriteFrame: PackedSpriteFrame): string {
+    // Most frames have no events or slices, so these are omitted to keep the scripts small.
+    let optional = ""
+    if (spriteFrame.Slices.length) {
+        // Slice names are quoted so that they are not mangled.
+        optional = `, ${JSON.stringify(spriteFrame.Events)}, {${spriteFrame.Slices.map(slice => `${JSON.stringify(slice.Name)}: {LeftVirtualPixels: ${slice.LeftPixels}, TopVirtualPixels: ${slice.TopPixels}, WidthVirtualPixels: ${slice.WidthPixels}, HeightVirtualPixels: ${slice.HeightPixels}}`).join(", ")}}`
+    } else if (spriteFrame.Events.length) optional = `, ${JSON.stringify(spriteFrame.Events)}`
+    return spriteFrame.Empty ? `new EmptySpriteFrame(${spriteFrame.DurationSeconds}${optional})` : `new SpriteFrame(${spriteFrame.AtlasLeftPixels}, ${spriteFrame.AtlasTopPixels}, ${spriteFrame.WidthPixels}, ${spriteFrame.HeightPixels}, ${spriteFrame.OffsetLeftPixels}, ${spriteFrame.OffsetTopPixels}, ${spriteFrame.DurationSeconds}${optional})`
+}
+
+function GenerateBackgroundFrame(backgroundFrame: PackedBackgroundFrame): string {
+    return backgroundFrame.Empty ? `new EmptyBackgroundFrame(${backgroundFrame.DurationSeconds})` : `new BackgroundFrame(${backgroundFrame.Id}, ${backgroundFrame.WidthPixels}, ${backgroundFrame.HeightPixels}, ${backgroundFrame.DurationSeconds})`
+}
+
 function GenerateContent() {
     console.info("Generating content scripts...")
     Content = GenerateCodeFromContentTree(GenerateContentTreeFromBuild(Build), false, {
-        sprite: (spriteFrame: PackedSpriteFrame) => spriteFrame.Empty ? `new EmptySpriteFrame(${spriteFrame.DurationSeconds})` : `new SpriteFrame(${spriteFrame.AtlasLeftPixels}, ${spriteFrame.AtlasTopPixels}, ${spriteFrame.WidthPixels}, ${spriteFrame.HeightPixels}, ${spriteFrame.OffsetLeftPixels}, ${spriteFrame.OffsetTopPixels}, ${spriteFrame.DurationSeconds})`,
-        background: (backgroundFrame: PackedBackgroundFrame) => backgroundFrame.Empty ? `new EmptyBackgroundFrame(${backgroundFrame.DurationSeconds})` : `new BackgroundFrame(${backgroundFrame.Id}, ${backgroundFrame.WidthPixels}, ${backgroundFrame.HeightPixels}, ${backgroundFrame.DurationSeconds})`,
+        sprite: (sprite: PackedSprite) => sprite.Animation ? `new SpriteAnimation([${sprite.Frames.map(GenerateSpriteFrame).join(", ")}], ${GeneratePlaybackDirection(sprite.Direction)}, ${sprite.Looping}, ${sprite.DurationSeconds})` : GenerateSpriteFrame(sprite),
+        background: (background: PackedBackground) => background.Animation ? `new BackgroundAnimation([${background.Frames.map(GenerateBackgroundFrame).join(", ")}], ${GeneratePlaybackDirection(background.Direction)}, ${background.Looping}, ${background.DurationSeconds})` : GenerateBackgroundFrame(background),
         sound: (sound: PackedSound) => `new Sound(${sound.StartSeconds}, ${sound.DurationSeconds}, ${sound.Gain})`,
-        music: (music: PackedMusic) => `new Music(${music.Id}, ${music.Gain})`,
-        dialog: (dialog: PackedDialog) => `new Dialog(${dialog.Id}, ${dialog.Gain})`
+        music: (music: PackedMusic) => `new Music(${music.Id}, ${music.Gain}, ${music.LoopStartSeconds}, ${music.LoopEndSeconds})`,
+        dialog: (dialog: PackedDialog) => `new Dialog(${dialog.Id}, ${dialog.Gain})`,
+        tilemap: (tilemap: PackedTilemap) => `new TilemapLayout(${tilemap.Columns}, ${tilemap.Rows}, [${tilemap.Tiles.join(", ")}])`,
+        map: GenerateMapCode
     })
     ReadGame()
 }
@@ -0,0 +1,181 @@
+type CameraBounds = {
+    readonly Left: number
+    readonly Top: number
+    readonly Right: number
+    readonly Bottom: number
+}
+
+class Camera {
+    readonly World: Group
+    // Contains World, and is moved to shake it without interrupting the camera's own motion.
+    private readonly Shaker: Group
+    private Bounds?: CameraBounds
+    private Target?: Viewport | Group | Sprite | Background
+    private DeadZoneWidthVirtualPixels = 0
+    private DeadZoneHeightVirtualPixels = 0
+    private ShakeVirtualPixels = 0
+    private ShakeTimer?: Timer
+    private PausedValue = false
+
+    constructor(viewport: Viewport) {
+        this.Shaker = new Group(viewport)
+        this.World = new Group(this.Shaker)
+        this.World.Move(WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+        viewport.AttachCamera(this)
+    }
+
+    VirtualPixelsFromLeft(): number {
+        return WidthVirtualPixels / 2 - this.World.VirtualPixelsFromLeft()
+    }
+
+    VirtualPixelsFromTop(): number {
+        return HeightVirtualPixels / 2 - this.World.VirtualPixelsFromTop()
+    }
+
+    ScreenVirtualPixelsFromLeft(worldVirtualPixelsFromLeft: number): number {
+        return worldVirtualPixelsFromLeft + this.World.VirtualPixelsFromLeft() + this.Shaker.VirtualPixelsFromLeft()
+    }
+
+    ScreenVirtualPixelsFromTop(worldVirtualPixelsFromTop: number): number {
+        return worldVirtualPixelsFromTop + this.World.VirtualPixelsFromTop() + this.Shaker.VirtualPixelsFromTop()
+    }
+
+    WorldVirtualPixelsFromLeft(screenVirtualPixelsFromLeft: number): number {
+        return screenVirtualPixelsFromLeft - this.World.VirtualPixelsFromLeft() - this.Shaker.VirtualPixelsFromLeft()
+    }
+
+    WorldVirtualPixelsFromTop(screenVirtualPixelsFromTop: number): number {
+        return screenVirtualPixelsFromTop - this.World.VirtualPixelsFromTop() - this.Shaker.VirtualPixelsFromTop()
+    }
+
+    Move(virtualPixelsFromLeft: number, virtualPixelsFromTop: number): Camera {
+        this.Target = undefined
+        this.Place(virtualPixelsFromLeft, virtualPixelsFromTop)
+        return this
+    }
+
+    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Camera {
+        this.Target = undefined
+        this.World.MoveOver(this.WorldLeftFor(virtualPixelsFromLeft), this.WorldTopFor(virtualPixelsFromTop), durationSeconds, onArrivingIfUninterrupted, easing)
+        return this
+    }
+
+    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): Camera {
+        this.Target = undefined
+        this.World.MoveAt(this.WorldLeftFor(virtualPixelsFromLeft), this.WorldTopFor(virtualPixelsFromTop), pixelsPerSecond, onArrivingIfUninterrupted, easing)
+        return this
+    }
+
+    Follow(target: Viewport | Group | Sprite | Background, deadZoneWidthVirtualPixels?: number, deadZoneHeightVirtualPixels?: number): Camera {
+        this.Target = target
+        this.DeadZoneWidthVirtualPixels = Math.max(0, deadZoneWidthVirtualPixels || 0)
+        this.DeadZoneHeightVirtualPixels = Math.max(0, deadZoneHeightVirtualPixels || 0)
+        this.FollowTarget()
+        return this
+    }
+
+    Unfollow(): Camera {
+        this.Target = undefined
+        return this
+    }
+
+    SetBounds(leftVirtualPixels: number, topVirtualPixels: number, rightVirtualPixels: number, bottomVirtualPixels: number): Camera {
+        this.Bounds = {
+            Left: leftVirtualPixels,
+            Top: topVirtualPixels,
+            Right: rightVirtualPixels,
+            Bottom: bottomVirtualPixels
+        }
+        this.Place(this.VirtualPixelsFromLeft(), this.VirtualPixelsFromTop())
+        return this
+    }
+
+    ClearBounds(): Camera {
+        this.Bounds = undefined
+        return this
+    }
+
+    Shake(virtualPixels: number, durationSeconds: number): Camera {
+        if (this.ShakeTimer) this.ShakeTimer.Cancel()
+        this.ShakeVirtualPixels = virtualPixels
+        this.ShakeTimer = new Timer(durationSeconds, () => {
+            this.ShakeTimer = undefined
+            this.Shaker.Move(0, 0)
+        })
+        if (this.PausedValue) this.ShakeTimer.Pause()
+        return this
+    }
+
+    // Called by the Viewport when it is paused.
+    PausedByViewport(): void {
+        this.PausedValue = true
+        if (this.ShakeTimer) this.ShakeTimer.Pause()
+    }
+
+    // Called by the Viewport when it is resumed.
+    ResumedByViewport(): void {
+        this.PausedValue = false
+        if (this.ShakeTimer) this.ShakeTimer.Resume()
+    }
+
+    // Called by the Viewport when it is deleted.
+    Deleted(): void {
+        this.Target = undefined
+        if (this.ShakeTimer) this.ShakeTimer.Cancel()
+        this.ShakeTimer = undefined
+    }
+
+    // Called by the Viewport before its children are ticked.  Returns true while following a moving target or shaking.
+    Tick(): boolean {
+        if (this.PausedValue) return false
+        let any = false
+        if (this.Target) {
+            // Targets which move using CSS transitions do not report their location as they move, so must be polled.
+            if (this.Target.SecondsUntilDestinationReachedForTransitions() != Infinity) any = true
+            this.FollowTarget()
+        }
+        if (this.ShakeTimer) {
+            any = true
+            const virtualPixels = this.ShakeVirtualPixels * (1 - this.ShakeTimer.ElapsedUnitInterval())
+            this.Shaker.Move(Math.round((Math.random() * 2 - 1) * virtualPixels), Math.round((Math.random() * 2 - 1) * virtualPixels))
+        }
+        return any
+    }
+
+    private FollowTarget(): void {
+        if (!this.Target) return
+        const targetVirtualPixelsFromLeft = this.Target.CurrentAbsoluteVirtualPixelsFromLeftForTransitions() - this.World.CurrentAbsoluteVirtualPixelsFromLeftForTransitions()
+        const targetVirtualPixelsFromTop = this.Target.CurrentAbsoluteVirtualPixelsFromTopForTransitions() - this.World.CurrentAbsoluteVirtualPixelsFromTopForTransitions()
+        let virtualPixelsFromLeft = this.VirtualPixelsFromLeft()
+        let virtualPixelsFromTop = this.VirtualPixelsFromTop()
+        virtualPixelsFromLeft = Math.max(targetVirtualPixelsFromLeft - this.DeadZoneWidthVirtualPixels / 2, Math.min(targetVirtualPixelsFromLeft + this.DeadZoneWidthVirtualPixels / 2, virtualPixelsFromLeft))
+        virtualPixelsFromTop = Math.max(targetVirtualPixelsFromTop - this.DeadZoneHeightVirtualPixels / 2, Math.min(targetVirtualPixelsFromTop + this.DeadZoneHeightVirtualPixels / 2, virtualPixelsFromTop))
+        this.Place(virtualPixelsFromLeft, virtualPixelsFromTop)
+    }
+
+    private Place(virtualPixelsFromLeft: number, virtualPixelsFromTop: number): void {
+        const worldVirtualPixelsFromLeft = this.WorldLeftFor(virtualPixelsFromLeft)
+        const worldVirtualPixelsFromTop = this.WorldTopFor(virtualPixelsFromTop)
+        // Moving the World repositions all of its children, so is avoided when nothing has changed.
+        if (worldVirtualPixelsFromLeft == this.World.VirtualPixelsFromLeft() && worldVirtualPixelsFromTop == this.World.VirtualPixelsFromTop() && this.World.SecondsUntilDestinationReachedForTransitions() == Infinity) return
+        this.World.Move(worldVirtualPixelsFromLeft, worldVirtualPixelsFromTop)
+    }
+
+    // Converts a camera location to that of World, applying any bounds.
+    // Bounds narrower than the virtual screen are centered upon.
+    private WorldLeftFor(virtualPixelsFromLeft: number): number {
+        if (this.Bounds) {
+            if (this.Bounds.Right - this.Bounds.Left <= WidthVirtualPixels) virtualPixelsFromLeft = (this.Bounds.Left + this.Bounds.Right) / 2
+            else virtualPixelsFromLeft = Math.max(this.Bounds.Left + WidthVirtualPixels / 2, Math.min(this.Bounds.Right - WidthVirtualPixels / 2, virtualPixelsFromLeft))
+        }
+        return WidthVirtualPixels / 2 - virtualPixelsFromLeft
+    }
+
+    private WorldTopFor(virtualPixelsFromTop: number): number {
+        if (this.Bounds) {
+            if (this.Bounds.Bottom - this.Bounds.Top <= HeightVirtualPixels) virtualPixelsFromTop = (this.Bounds.Top + this.Bounds.Bottom) / 2
+            else virtualPixelsFromTop = Math.max(this.Bounds.Top + HeightVirtualPixels / 2, Math.min(this.Bounds.Bottom - HeightVirtualPixels / 2, virtualPixelsFromTop))
+        }
+        return HeightVirtualPixels / 2 - virtualPixelsFromTop
+    }
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+// Relative to a MovingSceneObject's origin.
+type Hitbox = {
+    readonly LeftVirtualPixels: number
+    readonly TopVirtualPixels: number
+    readonly WidthVirtualPixels: number
+    readonly HeightVirtualPixels: number
+}
+
+// Relative to the origin of a Viewport.
+type CollisionRectangle = {
+    readonly Left: number
+    readonly Top: number
+    readonly Right: number
+    readonly Bottom: number
+}
+
+// Rectangles which only touch do not overlap.
+function RectanglesOverlap(a: CollisionRectangle, b: CollisionRectangle): boolean {
+    return a.Left < b.Right && b.Left < a.Right && a.Top < b.Bottom && b.Top < a.Bottom
+}
+
+function FindObjectsInViewport(viewport: Viewport, predicate: (hitbox: CollisionRectangle) => boolean): MovingSceneObject[] {
+    const candidates: MovingSceneObject[] = []
+    viewport.CollectDescendants(candidates)
+    const output: MovingSceneObject[] = []
+    for (const candidate of candidates) {
+        const hitbox = candidate.HitboxInViewport()
+        if (hitbox && predicate(hitbox)) output.push(candidate)
+    }
+    return output
+}
+
+// MovingSceneObjects with OnOverlapEnter or OnOverlapExit callbacks.
+const OverlapWatchers: MovingSceneObject[] = []
+
+// Called by the engine every tick to raise overlap events.
+// Returns true when a future tick is required, as overlaps may change without further calls to methods.
+function TickCollision(): boolean {
+    let any = false
+    // Callbacks may add or remove watchers.
+    for (const watcher of OverlapWatchers.slice()) if (Contains(OverlapWatchers, watcher) && watcher.RefreshOverlaps()) any = true
+    return any
+}
\ No newline at end of file
@@ -2,4 +2,5 @@ const NumberOfInitiallyCachedViewports = 50
 const NumberOfInitiallyCachedSprites = 500
 const NumberOfInitiallyCachedGroups = 100
 const NumberOfInitiallyCachedStaticSprites = 500
-const NumberOfInitiallyCachedBackgroundWrappers = 50
\ No newline at end of file
+const NumberOfInitiallyCachedBackgroundWrappers = 50
+const InitialAudioCacheBudgetSeconds = 240
\ No newline at end of file
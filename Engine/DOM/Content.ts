@@ -6,8 +6,10 @@ class SpriteFrame {
     readonly MarginLeft: number
     readonly MarginTop: number
     readonly DurationSeconds: number
+    readonly Events: string[]
+    readonly Slices: { readonly [name: string]: SpriteSlice }
 
-    constructor(leftPixels: number, topPixels: number, widthPixels: number, heightPixels: number, marginLeft: number, marginTop: number, durationSeconds: number) {
+    constructor(leftPixels: number, topPixels: number, widthPixels: number, heightPixels: number, marginLeft: number, marginTop: number, durationSeconds: number, events?: string[], slices?: { readonly [name: string]: SpriteSlice }) {
         this.LeftPixels = leftPixels
         this.TopPixels = topPixels
         this.WidthPixels = widthPixels
@@ -15,13 +17,33 @@ class SpriteFrame {
         this.MarginLeft = marginLeft
         this.MarginTop = marginTop
         this.DurationSeconds = durationSeconds
+        this.Events = events || []
+        this.Slices = slices || {}
     }
 }
 
 class EmptySpriteFrame {
     readonly DurationSeconds: number
+    readonly Events: string[]
+    readonly Slices: { readonly [name: string]: SpriteSlice }
 
-    constructor(durationSeconds: number) {
+    constructor(durationSeconds: number, events?: string[], slices?: { readonly [name: string]: SpriteSlice }) {
+        this.DurationSeconds = durationSeconds
+        this.Events = events || []
+        this.Slices = slices || {}
+    }
+}
+
+class SpriteAnimation {
+    readonly Frames: (SpriteFrame | EmptySpriteFrame)[]
+    readonly Direction: PlaybackDirection
+    readonly Looping: boolean
+    readonly DurationSeconds: number
+
+    constructor(frames: (SpriteFrame | EmptySpriteFrame)[], direction: PlaybackDirection, looping: boolean, durationSeconds: number) {
+        this.Frames = frames
+        this.Direction = direction
+        this.Looping = looping
         this.DurationSeconds = durationSeconds
     }
 }
@@ -40,6 +62,33 @@ class BackgroundFrame {
     }
 }
 
+class BackgroundAnimation {
+    readonly Frames: BackgroundFrame[]
+    readonly Direction: PlaybackDirection
+    readonly Looping: boolean
+    readonly DurationSeconds: number
+
+    constructor(frames: BackgroundFrame[], direction: PlaybackDirection, looping: boolean, durationSeconds: number) {
+        this.Frames = frames
+        this.Direction = direction
+        this.Looping = looping
+        this.DurationSeconds = durationSeconds
+    }
+}
+
+// Lists the indices of the frames of an animation in the order in which they are shown.
+function CreatePlaybackSequence(frames: number, direction: PlaybackDirection, looping: boolean): number[] {
+    const output: number[] = []
+    if (direction == PlaybackDirection.Reverse) {
+        for (let frame = frames - 1; frame >= 0; frame--) output.push(frame)
+    } else {
+        for (let frame = 0; frame < frames; frame++) output.push(frame)
+        // When looping, the first frame is not repeated at the end as it is shown again immediately afterward.
+        if (direction == PlaybackDirection.PingPong) for (let frame = frames - 2; frame >= (looping ? 1 : 0); frame--) output.push(frame)
+    }
+    return output
+}
+
 class Sound {
     readonly StartSeconds: number
     readonly DurationSeconds: number
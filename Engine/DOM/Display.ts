@@ -15,6 +15,18 @@ namespace Display {
         return Math.min(RealWidthPixels() / WidthVirtualPixels, RealHeightPixels() / HeightVirtualPixels)
     }
 
+    // Converts a number of real pixels from the left of the window to the number of virtual pixels from the left of a centered Viewport.
+    export function AbsoluteVirtualPixelsFromLeft(realPixelsFromLeft: number) {
+        const realPixelsPerVirtualPixel = RealPixelsPerVirtualPixel()
+        return (realPixelsFromLeft - (RealWidthPixels() - WidthVirtualPixels * realPixelsPerVirtualPixel) / 2) / realPixelsPerVirtualPixel
+    }
+
+    // Converts a number of real pixels from the top of the window to the number of virtual pixels from the top of a centered Viewport.
+    export function AbsoluteVirtualPixelsFromTop(realPixelsFromTop: number) {
+        const realPixelsPerVirtualPixel = RealPixelsPerVirtualPixel()
+        return (realPixelsFromTop - (RealHeightPixels() - HeightVirtualPixels * realPixelsPerVirtualPixel) / 2) / realPixelsPerVirtualPixel
+    }
+
     onresize = () => {
         RealWidthPixelsValue = document.documentElement.clientWidth
         RealHeightPixelsValue = document.documentElement.clientHeight
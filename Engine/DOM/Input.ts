@@ -0,0 +1,206 @@
+type InputBindings = {
+    [action: string]: {
+        Keys: number[]
+        GamepadButtons: number[]
+    }
+}
+
+let InputBindings: InputBindings = {}
+const HeldKeys: number[] = []
+let HeldGamepadButtons: number[] = []
+const HeldActions: string[] = []
+
+const InputPressed = new RecurringEvent<(action: string) => void>()
+const InputReleased = new RecurringEvent<(action: string) => void>()
+const InputKeyPressed = new RecurringEvent<(key: Key) => void>()
+const InputGamepadButtonPressed = new RecurringEvent<(button: GamepadStandardButton) => void>()
+
+function InputBlocked(): boolean {
+    return !InternalFocused() || !!CurrentTransition
+}
+
+function InputActionHeld(action: string): boolean {
+    const binding = InputBindings[action]
+    if (!binding) return false
+    for (const key of binding.Keys) if (Contains(HeldKeys, key)) return true
+    for (const button of binding.GamepadButtons) if (Contains(HeldGamepadButtons, button)) return true
+    return false
+}
+
+function InputKeyBound(key: number): boolean {
+    for (const action in InputBindings) if (Contains(InputBindings[action].Keys, key)) return true
+    return false
+}
+
+// Raises Pressed/Released for any actions which have changed state since this was last called.
+// This must be called from inside InternalInvoke.
+function RefreshHeldActions(): void {
+    for (const action in InputBindings) {
+        if (Contains(HeldActions, action)) continue
+        if (!InputActionHeld(action)) continue
+        HeldActions.push(action)
+        InputPressed.Raise(action)
+    }
+    for (const action of HeldActions.slice()) {
+        if (InputActionHeld(action)) continue
+        Remove(HeldActions, action)
+        InputReleased.Raise(action)
+    }
+}
+
+function InputKeyDown(localEvent: KeyboardEvent): boolean {
+    // Some browsers only provide event as a global, and some only as an argument.
+    localEvent = localEvent || event
+    const key = localEvent.keyCode
+    const bound = InputKeyBound(key)
+    // Browsers repeat keydown while a key is held.
+    if (Contains(HeldKeys, key)) return !bound
+    if (InputBlocked()) return !bound
+    HeldKeys.push(key)
+    InternalInvoke(() => {
+        InputKeyPressed.Raise(key)
+        RefreshHeldActions()
+    })
+    // Prevents bound keys from scrolling the page, etc.
+    return !bound
+}
+
+function InputKeyUp(localEvent: KeyboardEvent): boolean {
+    localEvent = localEvent || event
+    const key = localEvent.keyCode
+    const bound = InputKeyBound(key)
+    if (!Contains(HeldKeys, key)) return !bound
+    Remove(HeldKeys, key)
+    InternalInvoke(RefreshHeldActions)
+    return !bound
+}
+
+// Called by the engine when focus is lost so that nothing is considered held while the game is paused.
+// This must be called from inside InternalInvoke.
+function ReleaseInput(): void {
+    HeldKeys.length = 0
+    HeldGamepadButtons = []
+    RefreshHeldActions()
+}
+
+// Called by the engine to poll gamepads, which do not raise events when buttons change state.
+// Returns true when a gamepad is connected, as further polling is then required.
+function TickInput(): boolean {
+    if (!("getGamepads" in navigator)) return false
+    const gamepads = navigator.getGamepads()
+    const blocked = InputBlocked()
+    const held: number[] = []
+    let anyConnected = false
+    for (let i = 0; i < gamepads.length; i++) {
+        const gamepad = gamepads[i]
+        if (!gamepad || !gamepad.connected) continue
+        anyConnected = true
+        for (let button = 0; button < gamepad.buttons.length; button++) {
+            if (!gamepad.buttons[button].pressed) continue
+            if (Contains(held, button)) continue
+            // Buttons pressed while input is blocked are ignored until released and pressed again.
+            if (blocked && !Contains(HeldGamepadButtons, button)) continue
+            held.push(button)
+        }
+    }
+    const previouslyHeld = HeldGamepadButtons
+    HeldGamepadButtons = held
+    for (const button of held) if (!Contains(previouslyHeld, button)) InputGamepadButtonPressed.Raise(button)
+    RefreshHeldActions()
+    return anyConnected
+}
+
+if ("addEventListener" in window) addEventListener("gamepadconnected", () => InternalInvoke())
+
+function InputBindingsValid(bindings: Json | undefined): bindings is InputBindings {
+    if (!bindings || typeof bindings != "object" || bindings instanceof Array) return false
+    for (const action in bindings) {
+        const binding = bindings[action]
+        if (!binding || typeof binding != "object" || binding instanceof Array) return false
+        for (const list of [binding.Keys, binding.GamepadButtons]) {
+            if (!(list instanceof Array)) return false
+            for (const item of list) if (typeof item != "number") return false
+        }
+    }
+    return true
+}
+
+namespace Input {
+    export const Pressed = InputPressed
+    export const Released = InputReleased
+    export const KeyPressed = InputKeyPressed
+    export const GamepadButtonPressed = InputGamepadButtonPressed
+
+    function GetOrCreateBinding(action: string) {
+        return InputBindings[action] = InputBindings[action] || {
+            Keys: [],
+            GamepadButtons: []
+        }
+    }
+
+    function Rebound(): void {
+        // Rebinding can change which actions are held, but may be done outside of an event handler.
+        if (Recursing) RefreshHeldActions()
+        else InternalInvoke(RefreshHeldActions)
+    }
+
+    export function BindKey(action: string, key: Key): void {
+        const binding = GetOrCreateBinding(action)
+        if (Contains(binding.Keys, key)) return
+        binding.Keys.push(key)
+        Rebound()
+    }
+
+    export function UnbindKey(action: string, key: Key): void {
+        const binding = InputBindings[action]
+        if (!binding) return
+        Remove(binding.Keys, key)
+        Rebound()
+    }
+
+    export function BindGamepadButton(action: string, button: GamepadStandardButton): void {
+        const binding = GetOrCreateBinding(action)
+        if (Contains(binding.GamepadButtons, button)) return
+        binding.GamepadButtons.push(button)
+        Rebound()
+    }
+
+    export function UnbindGamepadButton(action: string, button: GamepadStandardButton): void {
+        const binding = InputBindings[action]
+        if (!binding) return
+        Remove(binding.GamepadButtons, button)
+        Rebound()
+    }
+
+    export function Unbind(action: string): void {
+        if (!InputBindings[action]) return
+        delete InputBindings[action]
+        Rebound()
+    }
+
+    export function KeysBoundTo(action: string): Key[] {
+        const binding = InputBindings[action]
+        return binding ? binding.Keys.slice() : []
+    }
+
+    export function GamepadButtonsBoundTo(action: string): GamepadStandardButton[] {
+        const binding = InputBindings[action]
+        return binding ? binding.GamepadButtons.slice() : []
+    }
+
+    export function Held(action: string): boolean {
+        return Contains(HeldActions, action)
+    }
+
+    export function SaveBindings(name: string): boolean {
+        return Save(name, InputBindings)
+    }
+
+    export function LoadBindings(name: string): boolean {
+        const loaded = Load<Json>(name)
+        if (!InputBindingsValid(loaded)) return false
+        InputBindings = loaded
+        Rebound()
+        return true
+    }
+}
\ No newline at end of file
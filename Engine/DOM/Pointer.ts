@@ -0,0 +1,98 @@
+type PointerDrag = {
+    readonly SceneObject: SceneObject
+    RealPixelsFromLeft: number
+    RealPixelsFromTop: number
+    readonly OnDrag?: (virtualPixelsRight: number, virtualPixelsDown: number) => void
+    readonly OnDrop?: () => void
+}
+
+let CurrentPointerDrag: PointerDrag | undefined = undefined
+let LastTouchAt: number | undefined = undefined
+
+// Touchscreen browsers emulate mouse events shortly after touch events, which would otherwise be handled twice.
+function PointerMouseEventEmulated(): boolean {
+    return LastTouchAt !== undefined && new Date().getTime() - LastTouchAt < 1000
+}
+
+function PointerTouched(): void {
+    LastTouchAt = new Date().getTime()
+}
+
+function GetPointerRealPixels(localEvent: MouseEvent | TouchEvent): { readonly Left: number, readonly Top: number } {
+    if ("changedTouches" in localEvent) {
+        const touch = (localEvent as TouchEvent).changedTouches[0]
+        return { Left: touch.clientX, Top: touch.clientY }
+    }
+    return { Left: (localEvent as MouseEvent).clientX, Top: (localEvent as MouseEvent).clientY }
+}
+
+function PointerElementContains(element: HTMLElement, other: Node | null): boolean {
+    while (other) {
+        if (other == element) return true
+        other = other.parentNode
+    }
+    return false
+}
+
+function MovePointerDrag(localEvent: MouseEvent | TouchEvent): void {
+    if (!CurrentPointerDrag) return
+    const drag = CurrentPointerDrag
+    const realPixels = GetPointerRealPixels(localEvent)
+    const realPixelsPerVirtualPixel = Display.RealPixelsPerVirtualPixel()
+    const virtualPixelsRight = (realPixels.Left - drag.RealPixelsFromLeft) / realPixelsPerVirtualPixel
+    const virtualPixelsDown = (realPixels.Top - drag.RealPixelsFromTop) / realPixelsPerVirtualPixel
+    drag.RealPixelsFromLeft = realPixels.Left
+    drag.RealPixelsFromTop = realPixels.Top
+    if (!virtualPixelsRight && !virtualPixelsDown) return
+    const onDrag = drag.OnDrag
+    // The SceneObject may have been disabled or paused by timers which have not yet run.
+    if (onDrag) InternalInvoke(() => {
+        if (CurrentPointerDrag == drag && !PointerDragInterrupted(drag)) onDrag(virtualPixelsRight, virtualPixelsDown)
+    })
+}
+
+// Drags end silently should the SceneObject dragged be disabled or paused, as they do when it is deleted.
+function PointerDragInterrupted(drag: PointerDrag): boolean {
+    if (!drag.SceneObject.DragInterrupted()) return false
+    CancelPointerDrag(drag.SceneObject)
+    return true
+}
+
+function PointerMouseMove(localEvent: MouseEvent): void {
+    // Some browsers only provide event as a global, and some only as an argument.
+    localEvent = localEvent || event
+    if (PointerMouseEventEmulated()) return
+    MovePointerDrag(localEvent)
+}
+
+function PointerMouseUp(localEvent: MouseEvent): void {
+    localEvent = localEvent || event
+    if (PointerMouseEventEmulated()) return
+    MovePointerDrag(localEvent)
+    InternalInvoke(ReleasePointer)
+}
+
+function PointerTouchMove(localEvent: TouchEvent): void {
+    PointerTouched()
+    MovePointerDrag(localEvent)
+}
+
+function PointerTouchEnd(localEvent: TouchEvent): void {
+    PointerTouched()
+    MovePointerDrag(localEvent)
+    InternalInvoke(ReleasePointer)
+}
+
+// Called by the engine when the pointer is released or focus is lost to end any drag in progress.
+// This must be called from inside InternalInvoke.
+function ReleasePointer(): void {
+    if (!CurrentPointerDrag || PointerDragInterrupted(CurrentPointerDrag)) return
+    const onDrop = CurrentPointerDrag.OnDrop
+    CurrentPointerDrag = undefined
+    if (onDrop) onDrop()
+}
+
+// Called by the engine when a SceneObject is deleted, as its drag should end silently.
+function CancelPointerDrag(sceneObject: SceneObject): void {
+    if (CurrentPointerDrag && CurrentPointerDrag.SceneObject == sceneObject) CurrentPointerDrag = undefined
+}
\ No newline at end of file
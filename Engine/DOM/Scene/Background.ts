@@ -2,6 +2,7 @@ function CreateBackgroundWrapper(): HTMLDivElement {
     const element = document.createElement("div")
     element.style.position = "absolute"
     element.style.pointerEvents = "none"
+    element.style.transformOrigin = "0 0"
     return element
 }
 
@@ -13,11 +14,21 @@ class Background extends MovingSceneObject {
     private LoadedImages = 0
     private AnimationTimer?: Timer
 
-    constructor(parent: Viewport | Group, animation: BackgroundFrame | BackgroundFrame[]) {
+    constructor(parent: Viewport | Group, animation: BackgroundFrame | BackgroundAnimation | BackgroundFrame[]) {
         super(parent, undefined)
         if (this.Deleted()) return
-        this.Animation = animation instanceof BackgroundFrame ? [animation] : animation
-        let animationProgress = 0
+        this.Animation = animation instanceof BackgroundFrame ? [animation] : animation instanceof BackgroundAnimation ? animation.Frames : animation
+        // Arrays of frames loop forward, as they always have.
+        const looping = animation instanceof BackgroundAnimation ? animation.Looping : true
+        const sequence = CreatePlaybackSequence(this.Animation.length, animation instanceof BackgroundAnimation ? animation.Direction : PlaybackDirection.Forward, looping)
+        let position = 0
+        let visibleImage: HTMLImageElement | undefined
+        const showPosition = () => {
+            if (this.LoadedImages < this.Animation.length) return
+            if (visibleImage) visibleImage.style.visibility = "hidden"
+            visibleImage = this.Images[sequence[position]]
+            visibleImage.style.visibility = "inherit"
+        }
         for (const frame of this.Animation) InternalLoadAndPrepareImage(`backgrounds/${frame.FileNumber}.png`, `backgrounds/${frame.FileNumber}prescaled.png`, frame.Height, frame.Height, element => {
             if (this.Deleted()) return
             this.Images[IndexOf(this.Animation, frame)] = element
@@ -31,18 +42,21 @@ class Background extends MovingSceneObject {
             element.style.top = `${(frame.Height - HeightVirtualPixels) * pixelsPerVirtualPixel / -2}px`
             this.Element.appendChild(element)
             this.LoadedImages++
-            if (this.LoadedImages == this.Animation.length) this.Images[animationProgress].style.visibility = "inherit"
+            showPosition()
         }, () => this.Delete())
 
-        if (this.Animation.length > 1) {
+        if (sequence.length > 1) {
             const advanceFrame = () => {
-                if (this.LoadedImages == this.Animation.length) {
-                    this.Images[animationProgress].style.visibility = "inherit"
-                    this.Images[(animationProgress || this.Animation.length) - 1].style.visibility = "hidden"
+                showPosition()
+                // Animations which do not loop stop on their last frame.
+                if (position == sequence.length - 1 && !looping) {
+                    this.AnimationTimer = undefined
+                    return
                 }
-                this.AnimationTimer = new Timer(this.Animation[animationProgress].DurationSeconds, advanceFrame)
-                animationProgress++
-                if (animationProgress == this.Animation.length) animationProgress = 0
+                this.AnimationTimer = new Timer(this.Animation[sequence[position]].DurationSeconds, () => {
+                    position = (position + 1) % sequence.length
+                    advanceFrame()
+                })
             }
             advanceFrame()
             if (this.Paused() && this.AnimationTimer) this.AnimationTimer.Pause()
@@ -2,6 +2,7 @@ function CreateGroup(): HTMLDivElement {
     const element = document.createElement("div")
     element.style.position = "absolute"
     element.style.pointerEvents = "none"
+    element.style.transformOrigin = "0 0"
     return element
 }
 
@@ -1,5 +1,59 @@
-function ConvertPositionToPanning(position: number) {
-    return ((position - (WidthVirtualPixels / 2)) / WidthVirtualPixels) * 2
+// A numeric property of a MovingSceneObject which can be changed over time, much like its location.
+class MovingSceneObjectTween {
+    private From: number
+    private To: number
+    private Timer?: Timer
+    private Easing = Easing.Linear
+
+    constructor(value: number) {
+        this.From = value
+        this.To = value
+    }
+
+    Active(): boolean {
+        return !!this.Timer
+    }
+
+    Running(): boolean {
+        return !!this.Timer && !this.Timer.Paused()
+    }
+
+    Current(): number {
+        if (!this.Timer) return this.To
+        return Mix(this.From, this.To, this.Easing.Apply(this.Timer.ElapsedUnitInterval()))
+    }
+
+    Set(value: number): void {
+        this.Cancel()
+        this.From = value
+        this.To = value
+    }
+
+    SetOver(value: number, durationSeconds: number, paused: boolean, onArriving: () => void, easing?: Easing): void {
+        this.From = this.Current()
+        this.Cancel()
+        this.To = value
+        this.Easing = easing || Easing.Linear
+        this.Timer = new Timer(durationSeconds, () => {
+            this.Timer = undefined
+            onArriving()
+        })
+        if (paused) this.Timer.Pause()
+    }
+
+    Pause(): void {
+        if (this.Timer) this.Timer.Pause()
+    }
+
+    Resume(): void {
+        if (this.Timer) this.Timer.Resume()
+    }
+
+    Cancel(): void {
+        if (!this.Timer) return
+        this.Timer.Cancel()
+        this.Timer = undefined
+    }
 }
 
 abstract class MovingSceneObject extends SceneObject {
@@ -8,6 +62,12 @@ abstract class MovingSceneObject extends SceneObject {
     private ToVirtualPixelsFromLeft = 0
     private ToVirtualPixelsFromTop = 0
     private MotionTimer?: Timer
+    private MotionEasing = Easing.Linear
+    private readonly Scaling = new MovingSceneObjectTween(1)
+    private readonly Rotation = new MovingSceneObjectTween(0)
+    private readonly Opacity = new MovingSceneObjectTween(1)
+    private MirroredHorizontallyValue = false
+    private MirroredVerticallyValue = false
 
     SecondsUntilDestinationReachedForTransitions(): number {
         return Math.max(0, Math.min(
@@ -20,39 +80,60 @@ abstract class MovingSceneObject extends SceneObject {
         return super.CurrentAbsoluteVirtualPixelsFromLeftForTransitions() + this.VirtualPixelsFromLeftForTransitions()
     }
 
+    CurrentAbsoluteVirtualPixelsFromTopForTransitions(): number {
+        return super.CurrentAbsoluteVirtualPixelsFromTopForTransitions() + this.VirtualPixelsFromTopForTransitions()
+    }
+
     DestinationAbsoluteVirtualPixelsFromLeftForTransitions(): number {
         let output = super.DestinationAbsoluteVirtualPixelsFromLeftForTransitions()
         if (this.MotionTimer && !this.Paused()) {
             const elapsedAtDestination = this.MotionTimer.ElapsedSecondsForTransitions() + this.SecondsUntilDestinationReachedForTransitions()
-            output += Mix(this.FromVirtualPixelsFromLeft, this.ToVirtualPixelsFromLeft, elapsedAtDestination / this.MotionTimer.DurationSeconds)
+            output += Mix(this.FromVirtualPixelsFromLeft, this.ToVirtualPixelsFromLeft, this.MotionEasing.Apply(elapsedAtDestination / this.MotionTimer.DurationSeconds))
         } else output += this.VirtualPixelsFromLeftForTransitions()
         return output
     }
 
+    DestinationAbsoluteVirtualPixelsFromTopForTransitions(): number {
+        let output = super.DestinationAbsoluteVirtualPixelsFromTopForTransitions()
+        if (this.MotionTimer && !this.Paused()) {
+            const elapsedAtDestination = this.MotionTimer.ElapsedSecondsForTransitions() + this.SecondsUntilDestinationReachedForTransitions()
+            output += Mix(this.FromVirtualPixelsFromTop, this.ToVirtualPixelsFromTop, this.MotionEasing.Apply(elapsedAtDestination / this.MotionTimer.DurationSeconds))
+        } else output += this.VirtualPixelsFromTopForTransitions()
+        return output
+    }
+
+    protected VirtualPixelsFromTopForSorting(): number {
+        return this.VirtualPixelsFromTop()
+    }
+
+    protected InMotion(): boolean {
+        return !!this.MotionTimer && !this.MotionTimer.Paused()
+    }
+
     VirtualPixelsFromLeft(): number {
         if (!this.MotionTimer) return this.ToVirtualPixelsFromLeft
-        return Mix(this.FromVirtualPixelsFromLeft, this.ToVirtualPixelsFromLeft, this.MotionTimer.ElapsedUnitInterval())
+        return Mix(this.FromVirtualPixelsFromLeft, this.ToVirtualPixelsFromLeft, this.MotionEasing.Apply(this.MotionTimer.ElapsedUnitInterval()))
     }
 
     VirtualPixelsFromTop(): number {
         if (!this.MotionTimer) return this.ToVirtualPixelsFromTop
-        return Mix(this.FromVirtualPixelsFromTop, this.ToVirtualPixelsFromTop, this.MotionTimer.ElapsedUnitInterval())
+        return Mix(this.FromVirtualPixelsFromTop, this.ToVirtualPixelsFromTop, this.MotionEasing.Apply(this.MotionTimer.ElapsedUnitInterval()))
     }
 
     private VirtualPixelsFromLeftForTransitions(): number {
         if (!this.MotionTimer) return this.ToVirtualPixelsFromLeft
-        return Mix(this.FromVirtualPixelsFromLeft, this.ToVirtualPixelsFromLeft, this.MotionTimer.ElapsedUnitIntervalForTransitions())
+        return Mix(this.FromVirtualPixelsFromLeft, this.ToVirtualPixelsFromLeft, this.MotionEasing.Apply(this.MotionTimer.ElapsedUnitIntervalForTransitions()))
     }
 
     private VirtualPixelsFromTopForTransitions(): number {
         if (!this.MotionTimer) return this.ToVirtualPixelsFromTop
-        return Mix(this.FromVirtualPixelsFromTop, this.ToVirtualPixelsFromTop, this.MotionTimer.ElapsedUnitIntervalForTransitions())
+        return Mix(this.FromVirtualPixelsFromTop, this.ToVirtualPixelsFromTop, this.MotionEasing.Apply(this.MotionTimer.ElapsedUnitIntervalForTransitions()))
     }
 
     Move(virtualPixelsFromLeft: number, virtualPixelsFromTop: number): this {
         if (this.Deleted()) return this
         if (this.MotionTimer) {
-            if ("transition" in this.Element.style) {
+            if (this.CssTransitionsUsed()) {
                 this.SetElementLocation(this.VirtualPixelsFromLeftForTransitions(), this.VirtualPixelsFromTopForTransitions())
                 this.Element.style.transition = "initial"
                 ForceStyleRefresh(this.Element)
@@ -68,12 +149,13 @@ abstract class MovingSceneObject extends SceneObject {
         return this
     }
 
-    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void): this {
+    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): this {
         if (this.Deleted()) return this
 
         if (this.MotionTimer) {
             this.FromVirtualPixelsFromLeft = this.VirtualPixelsFromLeft()
             this.FromVirtualPixelsFromTop = this.VirtualPixelsFromTop()
+            if (this.CssTransitionsUsed()) this.Element.style.transition = "initial"
             this.MotionTimer.Cancel()
             this.MotionTimer = undefined
         } else {
@@ -82,8 +164,9 @@ abstract class MovingSceneObject extends SceneObject {
         }
         this.ToVirtualPixelsFromLeft = virtualPixelsFromLeft
         this.ToVirtualPixelsFromTop = virtualPixelsFromTop
+        this.MotionEasing = easing || Easing.Linear
 
-        if ("transition" in this.Element.style) {
+        if (this.CssTransitionsUsed()) {
             // IE10+, Edge, Firefox, Chrome.
             this.MotionTimer = new Timer(durationSeconds, () => {
                 this.MotionTimer = undefined
@@ -99,13 +182,15 @@ abstract class MovingSceneObject extends SceneObject {
             if (this.Paused()) {
                 this.MotionTimer.Pause()
             } else {
-                this.SetTransition(durationSeconds - this.MotionTimer.ElapsedSecondsForTransitions())
+                this.SetTransition(durationSeconds - this.MotionTimer.ElapsedSecondsForTransitions(), this.MotionTimer.ElapsedUnitIntervalForTransitions())
                 this.SetElementLocation(virtualPixelsFromLeft, virtualPixelsFromTop)
             }
         } else {
-            // IE9-.
+            // IE9-, or Easings which CSS cannot resume part-way through, or while scaling or rotating.
             this.MotionTimer = new Timer(durationSeconds, () => {
                 this.MotionTimer = undefined
+                // Scaling or rotation may have finished part-way through, handing this motion to a CSS transition.
+                if ("transition" in this.Element.style) this.Element.style.transition = "initial"
                 this.Move(virtualPixelsFromLeft, virtualPixelsFromTop)
                 if (onArrivingIfUninterrupted) onArrivingIfUninterrupted()
             })
@@ -117,16 +202,242 @@ abstract class MovingSceneObject extends SceneObject {
         return this
     }
 
-    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void): this {
-        return this.MoveOver(virtualPixelsFromLeft, virtualPixelsFromTop, Distance(virtualPixelsFromLeft, virtualPixelsFromTop, this.VirtualPixelsFromLeft(), this.VirtualPixelsFromTop()) / pixelsPerSecond, onArrivingIfUninterrupted)
+    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): this {
+        return this.MoveOver(virtualPixelsFromLeft, virtualPixelsFromTop, Distance(virtualPixelsFromLeft, virtualPixelsFromTop, this.VirtualPixelsFromLeft(), this.VirtualPixelsFromTop()) / pixelsPerSecond, onArrivingIfUninterrupted, easing)
+    }
+
+    ScaleFactor(): number {
+        return this.Scaling.Current()
     }
 
-    private SetTransition(durationSeconds: number): void {
+    Scale(factor: number): this {
+        if (this.Deleted()) return this
+        this.Scaling.Set(factor)
+        this.SynchronizeElementLocation()
+        return this
+    }
+
+    ScaleOver(factor: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): this {
+        if (this.Deleted()) return this
+        this.Scaling.SetOver(factor, durationSeconds, this.Paused(), () => {
+            this.SynchronizeElementLocation()
+            if (onArrivingIfUninterrupted) onArrivingIfUninterrupted()
+        }, easing)
+        this.SynchronizeElementLocation()
+        return this
+    }
+
+    RotationDegrees(): number {
+        return this.Rotation.Current()
+    }
+
+    Rotate(degrees: number): this {
+        if (this.Deleted()) return this
+        this.Rotation.Set(degrees)
+        this.SynchronizeElementLocation()
+        return this
+    }
+
+    RotateOver(degrees: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): this {
+        if (this.Deleted()) return this
+        this.Rotation.SetOver(degrees, durationSeconds, this.Paused(), () => {
+            this.SynchronizeElementLocation()
+            if (onArrivingIfUninterrupted) onArrivingIfUninterrupted()
+        }, easing)
+        this.SynchronizeElementLocation()
+        return this
+    }
+
+    OpacityUnitInterval(): number {
+        return this.Opacity.Current()
+    }
+
+    Fade(opacityUnitInterval: number): this {
+        if (this.Deleted()) return this
+        this.Opacity.Set(opacityUnitInterval)
+        this.SetElementOpacity(opacityUnitInterval)
+        return this
+    }
+
+    FadeOver(opacityUnitInterval: number, durationSeconds: number, onArrivingIfUninterrupted?: () => void, easing?: Easing): this {
+        if (this.Deleted()) return this
+        this.Opacity.SetOver(opacityUnitInterval, durationSeconds, this.Paused(), () => {
+            this.SetElementOpacity(opacityUnitInterval)
+            if (onArrivingIfUninterrupted) onArrivingIfUninterrupted()
+        }, easing)
+        return this
+    }
+
+    MirroredHorizontally(): boolean {
+        return this.MirroredHorizontallyValue
+    }
+
+    MirroredVertically(): boolean {
+        return this.MirroredVerticallyValue
+    }
+
+    Mirror(horizontally: boolean, vertically: boolean): this {
+        if (this.Deleted()) return this
+        this.MirroredHorizontallyValue = horizontally
+        this.MirroredVerticallyValue = vertically
+        this.SynchronizeElementLocation()
+        return this
+    }
+
+    VirtualPixelsFromLeftInViewport(): number {
+        return super.VirtualPixelsFromLeftInViewport() + this.VirtualPixelsFromLeft()
+    }
+
+    VirtualPixelsFromTopInViewport(): number {
+        return super.VirtualPixelsFromTopInViewport() + this.VirtualPixelsFromTop()
+    }
+
+    private HitboxValue?: Hitbox
+    private OnOverlapEnterValue?: (other: MovingSceneObject) => void
+    private OnOverlapExitValue?: (other: MovingSceneObject) => void
+    private readonly Overlapping: MovingSceneObject[] = []
+
+    SetHitbox(leftVirtualPixels: number, topVirtualPixels: number, widthVirtualPixels: number, heightVirtualPixels: number): this {
+        if (this.Deleted()) return this
+        this.HitboxValue = {
+            LeftVirtualPixels: leftVirtualPixels,
+            TopVirtualPixels: topVirtualPixels,
+            WidthVirtualPixels: widthVirtualPixels,
+            HeightVirtualPixels: heightVirtualPixels
+        }
+        return this
+    }
+
+    ClearHitbox(): this {
+        if (this.Deleted()) return this
+        this.HitboxValue = undefined
+        return this
+    }
+
+    // Used when no hitbox has been set.  Sprites use the bounds of their current frame.
+    protected DefaultHitbox(): Hitbox | undefined {
+        return undefined
+    }
+
+    HitboxInViewport(): CollisionRectangle | undefined {
+        if (this.Deleted()) return undefined
+        const hitbox = this.HitboxValue || this.DefaultHitbox()
+        if (!hitbox || hitbox.WidthVirtualPixels <= 0 || hitbox.HeightVirtualPixels <= 0) return undefined
+        const left = this.VirtualPixelsFromLeftInViewport() + hitbox.LeftVirtualPixels
+        const top = this.VirtualPixelsFromTopInViewport() + hitbox.TopVirtualPixels
+        return {
+            Left: left,
+            Top: top,
+            Right: left + hitbox.WidthVirtualPixels,
+            Bottom: top + hitbox.HeightVirtualPixels
+        }
+    }
+
+    Overlaps(other: MovingSceneObject): boolean {
+        if (other == this) return false
+        const viewport = this.ContainingViewport()
+        if (!viewport || viewport != other.ContainingViewport()) return false
+        const hitbox = this.HitboxInViewport()
+        const otherHitbox = other.HitboxInViewport()
+        return !!hitbox && !!otherHitbox && RectanglesOverlap(hitbox, otherHitbox)
+    }
+
+    OnOverlapEnter(onOverlapEnter?: (other: MovingSceneObject) => void): this {
+        if (this.Deleted()) return this
+        this.OnOverlapEnterValue = onOverlapEnter
+        this.WatchOverlaps()
+        return this
+    }
+
+    OnOverlapExit(onOverlapExit?: (other: MovingSceneObject) => void): this {
+        if (this.Deleted()) return this
+        this.OnOverlapExitValue = onOverlapExit
+        this.WatchOverlaps()
+        return this
+    }
+
+    private WatchOverlaps(): void {
+        if (this.OnOverlapEnterValue || this.OnOverlapExitValue) {
+            if (!Contains(OverlapWatchers, this)) OverlapWatchers.push(this)
+        } else {
+            Remove(OverlapWatchers, this)
+            this.Overlapping.length = 0
+        }
+    }
+
+    private InMotionForCollision(): boolean {
+        return !this.Paused() && this.SecondsUntilDestinationReachedForTransitions() != Infinity
+    }
+
+    // Called by the engine every tick while this has OnOverlapEnter or OnOverlapExit callbacks, to raise them.
+    // While paused, nothing is raised, and any changes are raised once resumed.
+    // Returns true when overlaps may change without further calls to methods, such as while anything is in motion.
+    RefreshOverlaps(): boolean {
+        if (this.Paused()) return false
+        let any = this.InMotionForCollision()
+        const hitbox = this.HitboxInViewport()
+        const candidates: MovingSceneObject[] = []
+        const viewport = this.ContainingViewport()
+        if (viewport) viewport.CollectDescendants(candidates)
+        const overlapping: MovingSceneObject[] = []
+        for (const candidate of candidates) {
+            // Parents and children usually overlap, so are not reported.
+            if (candidate == this || candidate.DescendsFrom(this) || this.DescendsFrom(candidate)) continue
+            if (candidate.InMotionForCollision()) any = true
+            const candidateHitbox = candidate.HitboxInViewport()
+            if (hitbox && candidateHitbox && RectanglesOverlap(hitbox, candidateHitbox)) overlapping.push(candidate)
+        }
+        const exited: MovingSceneObject[] = []
+        for (const other of this.Overlapping) if (!Contains(overlapping, other)) exited.push(other)
+        const entered: MovingSceneObject[] = []
+        for (const other of overlapping) if (!Contains(this.Overlapping, other)) entered.push(other)
+        this.Overlapping.length = 0
+        for (const other of overlapping) this.Overlapping.push(other)
+        // Callbacks may move or delete scene objects, so overlaps are checked again on the next tick.
+        for (const other of exited) {
+            if (this.Deleted()) break
+            const onOverlapExit = this.OnOverlapExitValue
+            if (onOverlapExit) onOverlapExit(other)
+            any = true
+        }
+        for (const other of entered) {
+            if (this.Deleted()) break
+            const onOverlapEnter = this.OnOverlapEnterValue
+            if (onOverlapEnter) onOverlapEnter(other)
+            any = true
+        }
+        return any
+    }
+
+    // When false, the current motion is animated by Tick instead.
+    // A single CSS transition cannot follow scaling or rotation with different timing to the motion, so these are also animated by Tick.
+    private CssTransitionsUsed(): boolean {
+        return "transition" in this.Element.style && this.MotionEasing.CssRemainder(0) !== undefined && !this.Scaling.Active() && !this.Rotation.Active()
+    }
+
+    // Snaps the element to the current location, scale and rotation, then restarts any CSS transition towards the destination.
+    // This must be called whenever CssTransitionsUsed may have changed, or the scale, rotation or mirroring have changed.
+    private SynchronizeElementLocation(): void {
+        if (this.MotionTimer && !this.MotionTimer.Paused() && this.CssTransitionsUsed()) {
+            this.SetElementLocation(this.VirtualPixelsFromLeft(), this.VirtualPixelsFromTop())
+            this.Element.style.transition = "initial"
+            ForceStyleRefresh(this.Element)
+            this.SetTransition(this.MotionTimer.DurationSeconds - this.MotionTimer.ElapsedSecondsForTransitions(), this.MotionTimer.ElapsedUnitIntervalForTransitions())
+            this.SetElementLocation(this.ToVirtualPixelsFromLeft, this.ToVirtualPixelsFromTop)
+        } else {
+            // Stops any CSS transition which is no longer used.
+            if ("transition" in this.Element.style) this.Element.style.transition = "initial"
+            this.SetElementLocation(this.VirtualPixelsFromLeft(), this.VirtualPixelsFromTop())
+        }
+    }
+
+    private SetTransition(durationSeconds: number, elapsedUnitInterval: number): void {
         if (durationSeconds < 0) durationSeconds = 0
+        const timingFunction = this.MotionEasing.CssRemainder(elapsedUnitInterval)
         if ("transform" in this.Element.style) {
-            this.Element.style.transition = `transform ${durationSeconds}s linear`
+            this.Element.style.transition = `transform ${durationSeconds}s ${timingFunction}`
         } else {
-            this.Element.style.transition = `top ${durationSeconds}s linear, left ${durationSeconds}s linear`
+            this.Element.style.transition = `top ${durationSeconds}s ${timingFunction}, left ${durationSeconds}s ${timingFunction}`
         }
     }
 
@@ -134,17 +445,33 @@ abstract class MovingSceneObject extends SceneObject {
         virtualPixelsFromLeft *= Display.RealPixelsPerVirtualPixel()
         virtualPixelsFromTop *= Display.RealPixelsPerVirtualPixel()
         if ("transform" in this.Element.style) {
-            this.Element.style.transform = `translate(${virtualPixelsFromLeft}px, ${virtualPixelsFromTop}px)`
+            let transform = `translate(${virtualPixelsFromLeft}px, ${virtualPixelsFromTop}px)`
+            const rotationDegrees = this.Rotation.Current()
+            if (rotationDegrees) transform += ` rotate(${rotationDegrees}deg)`
+            // Mirroring is an exact negation, so atlas sprites remain pixel-perfect.
+            const scaleFactor = this.Scaling.Current()
+            const horizontalScaleFactor = this.MirroredHorizontallyValue ? -scaleFactor : scaleFactor
+            const verticalScaleFactor = this.MirroredVerticallyValue ? -scaleFactor : scaleFactor
+            if (horizontalScaleFactor != 1 || verticalScaleFactor != 1) transform += ` scale(${horizontalScaleFactor}, ${verticalScaleFactor})`
+            this.Element.style.transform = transform
         } else {
             this.Element.style.left = `${virtualPixelsFromLeft}px`
             this.Element.style.top = `${virtualPixelsFromTop}px`
         }
     }
 
+    private SetElementOpacity(opacityUnitInterval: number): void {
+        if ("opacity" in this.Element.style) {
+            this.Element.style.opacity = opacityUnitInterval == 1 ? "" : `${opacityUnitInterval}`
+        } else {
+            this.Element.style.filter = opacityUnitInterval == 1 ? "" : `alpha(opacity=${opacityUnitInterval * 100})` // IE8.
+        }
+    }
+
     protected OnPause(): void {
         if (this.MotionTimer) {
             this.MotionTimer.Pause()
-            if ("transition" in this.Element.style) {
+            if (this.CssTransitionsUsed()) {
                 this.SetElementLocation(this.VirtualPixelsFromLeft(), this.VirtualPixelsFromTop())
                 this.Element.style.transition = "initial"
                 ForceStyleRefresh(this.Element)
@@ -152,6 +479,15 @@ abstract class MovingSceneObject extends SceneObject {
                 this.SetElementLocation(this.VirtualPixelsFromLeft(), this.VirtualPixelsFromTop())
             }
         }
+        if (this.Scaling.Active() || this.Rotation.Active()) {
+            this.Scaling.Pause()
+            this.Rotation.Pause()
+            this.SetElementLocation(this.VirtualPixelsFromLeft(), this.VirtualPixelsFromTop())
+        }
+        if (this.Opacity.Active()) {
+            this.Opacity.Pause()
+            this.SetElementOpacity(this.Opacity.Current())
+        }
         for (const instance of this.SoundInstances) instance.Pause()
         this.OnMovingSceneObjectPause()
     }
@@ -159,12 +495,15 @@ abstract class MovingSceneObject extends SceneObject {
     protected OnMovingSceneObjectPause(): void { }
 
     protected OnResume(): void {
+        this.Scaling.Resume()
+        this.Rotation.Resume()
+        this.Opacity.Resume()
         if (this.MotionTimer) {
             this.MotionTimer.Resume()
-            if ("transition" in this.Element.style) {
+            if (this.CssTransitionsUsed()) {
                 this.SetElementLocation(this.VirtualPixelsFromLeftForTransitions(), this.VirtualPixelsFromTopForTransitions())
                 ForceStyleRefresh(this.Element)
-                this.SetTransition(this.MotionTimer.DurationSeconds - this.MotionTimer.ElapsedSecondsForTransitions())
+                this.SetTransition(this.MotionTimer.DurationSeconds - this.MotionTimer.ElapsedSecondsForTransitions(), this.MotionTimer.ElapsedUnitIntervalForTransitions())
                 this.SetElementLocation(this.ToVirtualPixelsFromLeft, this.ToVirtualPixelsFromTop)
             }
         }
@@ -175,61 +514,122 @@ abstract class MovingSceneObject extends SceneObject {
     protected OnMovingSceneObjectResume(): void { }
 
     protected OnRescale(): void {
-        if (this.MotionTimer && !this.MotionTimer.Paused() && "transition" in this.Element.style) {
-            this.SetElementLocation(this.VirtualPixelsFromLeft(), this.VirtualPixelsFromTop())
-            this.Element.style.transition = "initial"
-            ForceStyleRefresh(this.Element)
-            this.SetTransition(this.MotionTimer.DurationSeconds - this.MotionTimer.ElapsedSecondsForTransitions())
-            this.SetElementLocation(this.ToVirtualPixelsFromLeft, this.ToVirtualPixelsFromTop)
-        } else {
-            this.SetElementLocation(this.VirtualPixelsFromLeft(), this.VirtualPixelsFromTop())
-        }
+        this.SynchronizeElementLocation()
         this.OnMoved()
         this.OnMovingSceneObjectRescale()
     }
 
     protected OnMovingSceneObjectRescale(): void { }
 
+    protected OnTransitionsInterrupted(): void {
+        if (this.MotionTimer && !this.MotionTimer.Paused() && this.CssTransitionsUsed()) this.SynchronizeElementLocation()
+    }
+
     Tick(): boolean {
         let any = false
-        if (this.MotionTimer && !this.MotionTimer.Paused() && !("transition" in this.Element.style)) {
+        if ((this.MotionTimer && !this.MotionTimer.Paused() && !this.CssTransitionsUsed()) || this.Scaling.Running() || this.Rotation.Running()) {
             any = true
             this.SetElementLocation(this.VirtualPixelsFromLeft(), this.VirtualPixelsFromTop())
         }
+        if (this.Opacity.Running()) {
+            any = true
+            this.SetElementOpacity(this.Opacity.Current())
+        }
+        if (this.SoundInstances.length && !this.Paused() && SpatialAudioListenerMoving()) {
+            any = true
+            this.FollowingSpatialAudioListener = true
+            this.PositionSounds()
+        } else if (this.FollowingSpatialAudioListener) {
+            // Ensures that sounds are positioned relative to where the listener stopped.
+            this.FollowingSpatialAudioListener = false
+            this.PositionSounds()
+        }
         for (const child of this.Children) if (child.Tick()) any = true
+        // Children are sorted after ticking so that their elements have been moved.
+        if (this.TickSorting()) any = true
         return any
     }
 
     private readonly SoundInstances: SoundInstance[] = []
+    private FollowingSpatialAudioListener = false
 
-    PlaySound(sound: Sound): void {
-        const soundInstance = AudioDriver.PlaySound(sound, () => ConvertPositionToPanning(this.CurrentAbsoluteVirtualPixelsFromLeftForTransitions()), () => Remove(this.SoundInstances, soundInstance))
+    private CurrentAudioPosition(): AudioPosition {
+        return GetAudioPosition(this.CurrentAbsoluteVirtualPixelsFromLeftForTransitions(), this.CurrentAbsoluteVirtualPixelsFromTopForTransitions())
+    }
+
+    private AddSoundInstance(soundInstance: SoundInstance): void {
         this.SoundInstances.push(soundInstance)
-        this.OnMoved()
+        if (!Contains(SpatialAudioEmitters, this)) SpatialAudioEmitters.push(this)
+        this.PositionSounds()
+    }
+
+    private RemoveSoundInstance(soundInstance: SoundInstance): void {
+        Remove(this.SoundInstances, soundInstance)
+        if (!this.SoundInstances.length) Remove(SpatialAudioEmitters, this)
+    }
+
+    PlaySound(sound: Sound, onCompletionIfUninterrupted?: () => void): SoundHandle {
+        if (this.Deleted()) return new SoundHandle(undefined)
+        const soundInstance = AudioDriver.PlaySound(sound, () => this.CurrentAudioPosition(), () => {
+            this.RemoveSoundInstance(soundInstance)
+            handle.Released()
+        }, onCompletionIfUninterrupted)
+        const handle = new SoundHandle(soundInstance)
+        this.AddSoundInstance(soundInstance)
+        return handle
+    }
+
+    PlayDialog(dialog: Dialog, onCompletionIfUninterrupted?: () => void): SoundHandle {
+        if (this.Deleted()) return new SoundHandle(undefined)
+        const dialogInstance = AudioDriver.PlayDialog(dialog, () => this.CurrentAudioPosition(), () => {
+            this.RemoveSoundInstance(dialogInstance)
+            handle.Released()
+        }, onCompletionIfUninterrupted)
+        const handle = new SoundHandle(dialogInstance)
+        this.AddSoundInstance(dialogInstance)
+        return handle
     }
 
     protected OnMoved(): void {
+        this.PositionSounds()
+    }
+
+    // Called by the engine when this or the spatial audio listener move, to reposition any sounds being played.
+    PositionSounds(): void {
         if (!this.SoundInstances.length) return
         if (this.Paused()) {
             for (const sound of this.SoundInstances) sound.Pause()
         } else {
             const secondsUntilDestinationReached = this.SecondsUntilDestinationReachedForTransitions()
-            if (secondsUntilDestinationReached == Infinity) {
-                for (const sound of this.SoundInstances) sound.ResumeAt(ConvertPositionToPanning(this.CurrentAbsoluteVirtualPixelsFromLeftForTransitions()))
+            // While the listener is moving, this is instead called every frame.
+            if (secondsUntilDestinationReached == Infinity || SpatialAudioListenerMoving()) {
+                const position = this.CurrentAudioPosition()
+                for (const sound of this.SoundInstances) sound.ResumeAt(position)
             } else {
-                const from = ConvertPositionToPanning(this.CurrentAbsoluteVirtualPixelsFromLeftForTransitions())
-                const to = ConvertPositionToPanning(this.DestinationAbsoluteVirtualPixelsFromLeftForTransitions())
+                const from = this.CurrentAudioPosition()
+                const to = GetAudioPosition(this.DestinationAbsoluteVirtualPixelsFromLeftForTransitions(), this.DestinationAbsoluteVirtualPixelsFromTopForTransitions())
                 for (const sound of this.SoundInstances) sound.ResumeMotion(from, to, secondsUntilDestinationReached)
             }
         }
     }
 
     protected OnDelete(): void {
+        // Elements are reused, so must be returned to their default state.
+        this.Scaling.Set(1)
+        this.Rotation.Set(0)
+        this.Opacity.Set(1)
+        this.MirroredHorizontallyValue = false
+        this.MirroredVerticallyValue = false
         this.SetElementLocation(0, 0)
+        this.SetElementOpacity(1)
         while (this.SoundInstances.length) this.SoundInstances[0].Delete()
+        this.HitboxValue = undefined
+        this.OnOverlapEnterValue = undefined
+        this.OnOverlapExitValue = undefined
+        this.WatchOverlaps()
 
         if (this.MotionTimer) {
-            if ("transition" in this.Element.style) this.Element.style.transition = "initial"
+            if (this.CssTransitionsUsed()) this.Element.style.transition = "initial"
             this.MotionTimer.Cancel()
             this.MotionTimer = undefined
         }
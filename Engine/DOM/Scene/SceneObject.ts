@@ -1,11 +1,27 @@
+// The elements of SceneObjects refer back to them, so that their children can be sorted without searching for each.
+type SceneObjectElement = HTMLDivElement & { SceneObject?: SceneObject }
+
 abstract class SceneObject {
-    protected readonly Parent?: SceneObject
+    protected Parent?: SceneObject
     protected readonly Children: SceneObject[] = []
     readonly StaticSprites: StaticSprite[] = []
+    readonly Timelines: Timeline[] = []
     readonly Element: HTMLDivElement
     private LocallyDeletedValue = false
     private LocallyDisabledValue = false
     private LocallyPausedValue = false
+    private LayerValue = 0
+    private SortModeValue = SortMode.InsertionOrder
+    private PointerHandlersInstalled = false
+    private Hovered = false
+    private Draggable = false
+    private OnPointerDownValue?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void
+    private OnPointerMoveValue?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void
+    private OnPointerUpValue?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void
+    private OnHoverEnterValue?: () => void
+    private OnHoverLeaveValue?: () => void
+    private OnDragValue?: (virtualPixelsRight: number, virtualPixelsDown: number) => void
+    private OnDropValue?: () => void
 
     constructor(parent?: SceneObject, onClick?: () => void) {
         if (parent) this.LocallyDeletedValue = parent.LocallyDeletedValue
@@ -13,8 +29,9 @@ abstract class SceneObject {
         this.Parent = parent
         if (parent) parent.Children.push(this)
         this.Element = this.CreateElement()
+        ; (this.Element as SceneObjectElement).SceneObject = this
         if (parent)
-            parent.Element.appendChild(this.Element)
+            parent.PlaceChildElement(this.Element, 0, false)
         else
             document.body.appendChild(this.Element)
         if (onClick) this.Element.onclick = () => {
@@ -27,6 +44,7 @@ abstract class SceneObject {
     protected Moved(): void {
         for (const child of this.Children) child.Moved()
         this.OnMoved()
+        if (this == SpatialAudioListener) RepositionSpatialAudio()
     }
 
     protected OnMoved(): void { }
@@ -43,8 +61,166 @@ abstract class SceneObject {
         return this.Parent ? this.Parent.DestinationAbsoluteVirtualPixelsFromLeftForTransitions() : 0
     }
 
+    CurrentAbsoluteVirtualPixelsFromTopForTransitions(): number {
+        return this.Parent ? this.Parent.CurrentAbsoluteVirtualPixelsFromTopForTransitions() : 0
+    }
+
+    DestinationAbsoluteVirtualPixelsFromTopForTransitions(): number {
+        return this.Parent ? this.Parent.DestinationAbsoluteVirtualPixelsFromTopForTransitions() : 0
+    }
+
+    // Collision detection uses engine time rather than transition time, and ignores scaling and rotation.
+    VirtualPixelsFromLeftInViewport(): number {
+        return this.Parent ? this.Parent.VirtualPixelsFromLeftInViewport() : 0
+    }
+
+    VirtualPixelsFromTopInViewport(): number {
+        return this.Parent ? this.Parent.VirtualPixelsFromTopInViewport() : 0
+    }
+
+    ContainingViewport(): Viewport | undefined {
+        return this.Parent ? this.Parent.ContainingViewport() : undefined
+    }
+
+    DescendsFrom(ancestor: SceneObject): boolean {
+        for (let parent = this.Parent; parent; parent = parent.Parent) if (parent == ancestor) return true
+        return false
+    }
+
+    // Adds every MovingSceneObject inside this SceneObject, however deeply nested, to a list.
+    CollectDescendants(output: MovingSceneObject[]): void {
+        for (const child of this.Children) {
+            if (child instanceof MovingSceneObject) output.push(child)
+            child.CollectDescendants(output)
+        }
+    }
+
     protected abstract CreateElement(): HTMLDivElement
 
+    // Called by Timeline so that it is paused, resumed and cancelled along with this SceneObject.
+    AttachTimeline(timeline: Timeline): void {
+        if (this.LocallyDeletedValue) {
+            timeline.Cancel()
+            return
+        }
+        this.Timelines.push(timeline)
+        if (this.Paused()) timeline.PausedByTarget()
+    }
+
+    // Moves an element (which may not yet have been added) to the top or bottom of a layer of this SceneObject's children.
+    // Elements which are not SceneObjects, such as StaticSprites, are considered to be on layer 0.
+    PlaceChildElement(element: HTMLElement, layer: number, toBack: boolean): void {
+        let before: Node | null = null
+        for (let i = 0; i < this.Element.childNodes.length; i++) {
+            const node = this.Element.childNodes[i]
+            if (node == element) continue
+            const nodeLayer = this.LayerOfChildNode(node)
+            if (nodeLayer < layer) continue
+            if (nodeLayer == layer && !toBack) continue
+            before = node
+            break
+        }
+        if (element.parentNode != this.Element) {
+            if (before) this.Element.insertBefore(element, before)
+            else this.Element.appendChild(element)
+        } else if (element.nextSibling != before) this.MoveChildElement(element, before)
+    }
+
+    private MoveChildElement(node: Node, before: Node | null): void {
+        if (before) this.Element.insertBefore(node, before)
+        else this.Element.appendChild(node)
+        const child = (node as SceneObjectElement).SceneObject
+        if (child) child.TransitionsInterrupted()
+    }
+
+    // Called when this SceneObject's element is moved, which cancels its CSS transitions and those of its descendants.
+    private TransitionsInterrupted(): void {
+        this.OnTransitionsInterrupted()
+        for (const child of this.Children) child.TransitionsInterrupted()
+    }
+
+    // Restarts any CSS transitions from where they were interrupted.
+    protected OnTransitionsInterrupted(): void { }
+
+    private LayerOfChildNode(node: Node): number {
+        const child = (node as SceneObjectElement).SceneObject
+        return child ? child.LayerValue : 0
+    }
+
+    // Reorders the elements of this SceneObject's children when they are not in the order described by SortModeValue.
+    private SortChildElements(): void {
+        const entries: {
+            readonly Node: Node
+            readonly Layer: number
+            readonly Key: number
+            readonly Index: number
+        }[] = []
+        for (let i = 0; i < this.Element.childNodes.length; i++) {
+            const node = this.Element.childNodes[i]
+            const child = (node as SceneObjectElement).SceneObject
+            // Elements which are not SceneObjects, such as StaticSprites, are drawn beneath those on the same layer.
+            entries.push({ Node: node, Layer: child ? child.LayerValue : 0, Key: child ? child.VirtualPixelsFromTopForSorting() : -Infinity, Index: i })
+        }
+        // Some browsers do not sort stably, so the previous order is used to break ties.
+        entries.sort((a, b) => {
+            if (a.Layer != b.Layer) return a.Layer - b.Layer
+            if (a.Key < b.Key) return -1
+            if (a.Key > b.Key) return 1
+            return a.Index - b.Index
+        })
+        // Only the elements found out of place are moved.
+        for (let i = 0; i < entries.length; i++) {
+            const node = this.Element.childNodes[i]
+            if (node != entries[i].Node) this.MoveChildElement(entries[i].Node, node)
+        }
+    }
+
+    protected VirtualPixelsFromTopForSorting(): number {
+        return 0
+    }
+
+    // Returns true when this SceneObject's children's order may change without further calls to its methods.
+    protected TickSorting(): boolean {
+        if (this.SortModeValue == SortMode.InsertionOrder) return false
+        this.SortChildElements()
+        for (const child of this.Children) if (child.InMotion()) return true
+        return false
+    }
+
+    protected InMotion(): boolean {
+        return false
+    }
+
+    Layer(): number {
+        return this.LayerValue
+    }
+
+    SetLayer(layer: number): SceneObject {
+        if (this.LocallyDeletedValue) return this
+        this.LayerValue = layer
+        if (this.Parent) this.Parent.PlaceChildElement(this.Element, layer, false)
+        return this
+    }
+
+    BringToFront(): SceneObject {
+        if (this.LocallyDeletedValue) return this
+        if (this.Parent) this.Parent.PlaceChildElement(this.Element, this.LayerValue, false)
+        return this
+    }
+
+    SendToBack(): SceneObject {
+        if (this.LocallyDeletedValue) return this
+        if (this.Parent) this.Parent.PlaceChildElement(this.Element, this.LayerValue, true)
+        return this
+    }
+
+    SortChildren(mode: SortMode): SceneObject {
+        if (this.LocallyDeletedValue) return this
+        this.SortModeValue = mode
+        if (mode != SortMode.InsertionOrder) this.SortChildElements()
+        return this
+    }
+
     protected Deleted(): boolean {
         return this.LocallyDeletedValue
     }
@@ -55,6 +231,11 @@ abstract class SceneObject {
         return false
     }
 
+    // Called by Pointer, as drags end when the SceneObject dragged is disabled or paused.
+    DragInterrupted(): boolean {
+        return this.Disabled() || this.Paused()
+    }
+
     protected Disabled(): boolean {
         if (this.LocallyDisabledValue) return true
         if (this.Parent) return this.Parent.Disabled()
@@ -67,6 +248,7 @@ abstract class SceneObject {
         this.LocallyPausedValue = true
         if (this.Parent && this.Parent.Paused()) return this
         this.OnPause()
+        for (const timeline of this.Timelines) timeline.PausedByTarget()
         for (const child of this.Children) child.PausedByParent()
         return this
     }
@@ -75,6 +257,7 @@ abstract class SceneObject {
         // Don't pause us because we're already paused.
         if (this.LocallyPausedValue) return
         this.OnPause()
+        for (const timeline of this.Timelines) timeline.PausedByTarget()
         for (const child of this.Children) child.PausedByParent()
     }
 
@@ -86,6 +269,7 @@ abstract class SceneObject {
         this.LocallyPausedValue = false
         if (this.Paused()) return this
         this.OnResume()
+        for (const timeline of this.Timelines) timeline.ResumedByTarget()
         for (const child of this.Children) child.ResumedByParent()
         return this
     }
@@ -94,6 +278,7 @@ abstract class SceneObject {
         // Don't resume us because we've paused ourselves.
         if (this.LocallyPausedValue) return
         this.OnResume()
+        for (const timeline of this.Timelines) timeline.ResumedByTarget()
         for (const child of this.Children) child.ResumedByParent()
     }
 
@@ -123,6 +308,155 @@ abstract class SceneObject {
         return this
     }
 
+    OnPointerDown(onPointerDown?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): SceneObject {
+        if (this.LocallyDeletedValue) return this
+        this.InstallPointerHandlers()
+        this.OnPointerDownValue = onPointerDown
+        return this
+    }
+
+    OnPointerMove(onPointerMove?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): SceneObject {
+        if (this.LocallyDeletedValue) return this
+        this.InstallPointerHandlers()
+        this.OnPointerMoveValue = onPointerMove
+        return this
+    }
+
+    OnPointerUp(onPointerUp?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): SceneObject {
+        if (this.LocallyDeletedValue) return this
+        this.InstallPointerHandlers()
+        this.OnPointerUpValue = onPointerUp
+        return this
+    }
+
+    OnHoverEnter(onHoverEnter?: () => void): SceneObject {
+        if (this.LocallyDeletedValue) return this
+        this.InstallPointerHandlers()
+        this.OnHoverEnterValue = onHoverEnter
+        return this
+    }
+
+    OnHoverLeave(onHoverLeave?: () => void): SceneObject {
+        if (this.LocallyDeletedValue) return this
+        this.InstallPointerHandlers()
+        this.OnHoverLeaveValue = onHoverLeave
+        return this
+    }
+
+    OnDrag(onDrag?: (virtualPixelsRight: number, virtualPixelsDown: number) => void, onDrop?: () => void): SceneObject {
+        if (this.LocallyDeletedValue) return this
+        this.InstallPointerHandlers()
+        this.Draggable = !!(onDrag || onDrop)
+        this.OnDragValue = onDrag
+        this.OnDropValue = onDrop
+        return this
+    }
+
+    private InstallPointerHandlers(): void {
+        if (this.PointerHandlersInstalled) return
+        this.PointerHandlersInstalled = true
+        this.Element.onmousedown = localEvent => {
+            // Some browsers only provide event as a global, and some only as an argument.
+            localEvent = localEvent || event
+            if (PointerMouseEventEmulated()) return
+            this.PointerDown(localEvent)
+        }
+        this.Element.ontouchstart = localEvent => {
+            PointerTouched()
+            this.PointerDown(localEvent)
+        }
+        this.Element.onmousemove = localEvent => {
+            localEvent = localEvent || event
+            if (PointerMouseEventEmulated()) return
+            this.RaisePointerEvent(localEvent, this.OnPointerMoveValue)
+        }
+        this.Element.ontouchmove = localEvent => {
+            PointerTouched()
+            this.RaisePointerEvent(localEvent, this.OnPointerMoveValue)
+        }
+        this.Element.onmouseup = localEvent => {
+            localEvent = localEvent || event
+            if (PointerMouseEventEmulated()) return
+            this.RaisePointerEvent(localEvent, this.OnPointerUpValue)
+        }
+        this.Element.ontouchend = localEvent => {
+            PointerTouched()
+            this.RaisePointerEvent(localEvent, this.OnPointerUpValue)
+        }
+        this.Element.onmouseover = localEvent => {
+            localEvent = localEvent || event
+            if (PointerMouseEventEmulated()) return
+            if (this.Hovered) return
+            if (this.LocallyDeletedValue) return
+            if (this.Disabled()) return
+            this.Hovered = true
+            const onHoverEnter = this.OnHoverEnterValue
+            if (onHoverEnter) InternalInvoke(onHoverEnter)
+        }
+        this.Element.onmouseout = localEvent => {
+            localEvent = localEvent || event
+            // These events bubble, so moving between our own children looks like leaving.
+            // IE8 uses toElement rather than relatedTarget.  Either is always a Node, or null when leaving the page.
+            if (PointerElementContains(this.Element, (localEvent.relatedTarget || (localEvent as any).toElement) as Node | null)) return
+            if (!this.Hovered) return
+            this.Hovered = false
+            if (this.LocallyDeletedValue) return
+            // Leaving is reported even when disabled, so that every enter is matched.
+            const onHoverLeave = this.OnHoverLeaveValue
+            if (onHoverLeave) InternalInvoke(onHoverLeave)
+        }
+    }
+
+    private PointerDown(localEvent: MouseEvent | TouchEvent): void {
+        if (this.LocallyDeletedValue) return
+        if (this.Disabled()) return
+        // This event bubbles, so the innermost draggable SceneObject takes the drag.
+        if (this.Draggable && !CurrentPointerDrag && !this.Paused()) {
+            const realPixels = GetPointerRealPixels(localEvent)
+            CurrentPointerDrag = {
+                SceneObject: this,
+                RealPixelsFromLeft: realPixels.Left,
+                RealPixelsFromTop: realPixels.Top,
+                OnDrag: this.OnDragValue,
+                OnDrop: this.OnDropValue
+            }
+        }
+        this.RaisePointerEvent(localEvent, this.OnPointerDownValue)
+    }
+
+    private RaisePointerEvent(localEvent: MouseEvent | TouchEvent, callback?: (virtualPixelsFromLeft: number, virtualPixelsFromTop: number) => void): void {
+        if (!callback) return
+        if (this.LocallyDeletedValue) return
+        if (this.Disabled()) return
+        const realPixels = GetPointerRealPixels(localEvent)
+        // Our position is only correct once the timers have been brought up to date.
+        InternalInvoke(() => callback(
+            Display.AbsoluteVirtualPixelsFromLeft(realPixels.Left) - this.CurrentAbsoluteVirtualPixelsFromLeftForTransitions(),
+            Display.AbsoluteVirtualPixelsFromTop(realPixels.Top) - this.CurrentAbsoluteVirtualPixelsFromTopForTransitions()
+        ))
+    }
+
+    MoveTo(parent: SceneObject): SceneObject {
+        if (this.LocallyDeletedValue) return this
+        if (!this.Parent) throw "Cannot move the scene root"
+        if (parent == this.Parent) return this
+        for (let ancestor: SceneObject | undefined = parent; ancestor; ancestor = ancestor.Parent) if (ancestor == this) throw "Cannot move a scene object into itself or one of its children"
+        if (parent.LocallyDeletedValue) {
+            this.Delete()
+            return this
+        }
+        const wasPaused = this.Paused()
+        Remove(this.Parent.Children, this)
+        this.Parent = parent
+        parent.Children.push(this)
+        parent.PlaceChildElement(this.Element, this.LayerValue, false)
+        if (!wasPaused && this.Paused()) this.PausedByParent()
+        if (wasPaused && !this.Paused()) this.ResumedByParent()
+        // Moving an element between parents cancels its CSS transitions, and panning depends upon the parent's location.
+        this.Rescale()
+        return this
+    }
+
     Rescale(): void {
         this.OnRescale()
         for (const staticSprite of this.StaticSprites) staticSprite.Rescale()
@@ -137,9 +471,25 @@ abstract class SceneObject {
         if (this.LocallyDeletedValue) return
         while (this.StaticSprites.length) this.StaticSprites[0].Delete()
         while (this.Children.length) this.Children[0].Delete()
+        while (this.Timelines.length) this.Timelines[0].Cancel()
         this.Element.style.visibility = "inherit"
         this.Element.onclick = () => { }
+        if (this.PointerHandlersInstalled) {
+            this.Element.onmousedown = () => { }
+            this.Element.ontouchstart = () => { }
+            this.Element.onmousemove = () => { }
+            this.Element.ontouchmove = () => { }
+            this.Element.onmouseup = () => { }
+            this.Element.ontouchend = () => { }
+            this.Element.onmouseover = () => { }
+            this.Element.onmouseout = () => { }
+        }
+        CancelPointerDrag(this)
+        // Sounds are then heard relative to the display instead.
+        if (this == SpatialAudioListener) SpatialAudio.SetListener()
         if (this.Parent) this.Parent.Element.removeChild(this.Element)
+        // Elements may be reused by other SceneObjects.
+        ; (this.Element as SceneObjectElement).SceneObject = undefined
         this.OnDelete()
         this.LocallyDeletedValue = true
         if (this.Parent) Remove(this.Parent.Children, this)
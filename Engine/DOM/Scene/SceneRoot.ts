@@ -21,14 +21,9 @@ class SceneRoot extends SceneObject {
     }
 
     Tick(): boolean {
-        // IE10+, Edge, Firefox, Chrome.
-        if ("transition" in this.Element.style) {
-            return false
-        } else {
-            // IE9-.
-            let any = false
-            for (const child of this.Children) if (child.Tick()) any = true
-            return any
-        }
+        // On IE10+, Edge, Firefox and Chrome, most motion is animated using CSS transitions, and children only need a tick for motion which CSS cannot follow.
+        let any = false
+        for (const child of this.Children) if (child.Tick()) any = true
+        return any
     }
 }
\ No newline at end of file
@@ -14,6 +14,23 @@ class Sprite extends MovingSceneObject {
     private AnimationTimer?: Timer
     private CurrentFrame?: SpriteFrame | EmptySpriteFrame
     private ImageElement: HTMLImageElement
+    private Animation: (SpriteFrame | EmptySpriteFrame)[] = []
+    private Looping = false
+    // Indices into Animation, in the order in which they are shown.
+    private Sequence: number[] = []
+    // Index into Sequence.
+    private Position = 0
+    // The time spent showing the current frame before AnimationTimer started, ignoring the playback rate.
+    private FrameElapsedSeconds = 0
+    private OnAnimationCompletion?: () => void
+    // Called should another animation be played before this one completes.
+    private OnAnimationReplaced?: () => void
+    private OnAnimationEvent?: (event: string) => void
+    private PlaybackRateValue = 1
+    private PlaybackDirectionValue = PlaybackDirection.Forward
+    // The direction chosen in Aseprite for the SpriteAnimation playing, which is combined with PlaybackDirectionValue.
+    private AnimationDirection = PlaybackDirection.Forward
+    private AnimationPausedValue = false
 
     constructor(parent: SceneObject, onClick?: () => void) {
         super(parent, onClick)
@@ -26,51 +43,197 @@ class Sprite extends MovingSceneObject {
         return CachedSprites.pop() || CreateSprite()
     }
 
-    Play(animation: SpriteFrame | EmptySpriteFrame | (SpriteFrame | EmptySpriteFrame)[], onCompletionIfUninterrupted?: () => void): Sprite {
+    Play(animation: SpriteFrame | EmptySpriteFrame | SpriteAnimation | (SpriteFrame | EmptySpriteFrame)[], onCompletionIfUninterrupted?: () => void, onEvent?: (event: string) => void): Sprite {
         if (this.Deleted()) return this
+        this.Start(animation, false, onCompletionIfUninterrupted, onEvent)
+        return this
+    }
+
+    Loop(animation: SpriteFrame | EmptySpriteFrame | SpriteAnimation | (SpriteFrame | EmptySpriteFrame)[], onEvent?: (event: string) => void): Sprite {
+        if (this.Deleted()) return this
+        this.Start(animation, true, undefined, onEvent)
+        return this
+    }
+
+    PlaybackRate(): number {
+        return this.PlaybackRateValue
+    }
+
+    SetPlaybackRate(rate: number): Sprite {
+        if (this.Deleted()) return this
+        if (!(rate > 0)) throw "Playback rates must be greater than zero"
+        const elapsed = this.CurrentFrameElapsedSeconds()
+        this.PlaybackRateValue = rate
+        if (this.AnimationTimer) this.Reschedule(elapsed)
+        return this
+    }
+
+    PlaybackDirection(): PlaybackDirection {
+        return this.PlaybackDirectionValue
+    }
+
+    SetPlaybackDirection(direction: PlaybackDirection): Sprite {
+        if (this.Deleted() || direction == this.PlaybackDirectionValue) return this
+        const elapsed = this.CurrentFrameElapsedSeconds()
+        const frameIndex = this.FrameIndex()
+        this.PlaybackDirectionValue = direction
+        if (!this.Animation.length) return this
+        this.Sequence = CreatePlaybackSequence(this.Animation.length, this.CombinedPlaybackDirection(this.AnimationDirection), this.Looping)
+        this.Position = IndexOf(this.Sequence, frameIndex)
+        if (this.AnimationTimer) this.Reschedule(elapsed)
+        return this
+    }
+
+    FrameIndex(): number {
+        return this.Animation.length ? this.Sequence[this.Position] : 0
+    }
+
+    SeekFrame(frameIndex: number): Sprite {
+        if (this.Deleted() || !this.Animation.length) return this
+        this.ShowPosition(IndexOf(this.Sequence, Math.max(0, Math.min(this.Animation.length - 1, Math.floor(frameIndex)))), 0, false)
+        return this
+    }
+
+    SeekSeconds(seconds: number): Sprite {
+        if (this.Deleted() || !this.Animation.length) return this
+        let remaining = Math.max(0, seconds)
+        const totalDurationSeconds = this.TotalDurationSeconds()
+        if (this.Looping && totalDurationSeconds) remaining %= totalDurationSeconds
+        let position = 0
+        while (position < this.Sequence.length - 1 && remaining >= this.Animation[this.Sequence[position]].DurationSeconds) {
+            remaining -= this.Animation[this.Sequence[position]].DurationSeconds
+            position++
+        }
+        this.ShowPosition(position, Math.min(remaining, this.Animation[this.Sequence[position]].DurationSeconds), false)
+        return this
+    }
+
+    AnimationPaused(): boolean {
+        return this.AnimationPausedValue
+    }
+
+    PauseAnimation(): Sprite {
+        if (this.Deleted() || this.AnimationPausedValue) return this
+        this.AnimationPausedValue = true
+        if (this.AnimationTimer) this.AnimationTimer.Pause()
+        return this
+    }
+
+    ResumeAnimation(): Sprite {
+        if (this.Deleted() || !this.AnimationPausedValue) return this
+        this.AnimationPausedValue = false
+        if (this.AnimationTimer && !this.Paused()) this.AnimationTimer.Resume()
+        return this
+    }
+
+    // Called by Timeline to .Play(...) an animation, calling onEnd once it completes or another animation is played instead.
+    PlayUntilReplaced(animation: SpriteFrame | EmptySpriteFrame | SpriteAnimation | (SpriteFrame | EmptySpriteFrame)[], onEnd: () => void): void {
+        if (this.Deleted()) return
+        this.Start(animation, false, onEnd, undefined, onEnd)
+    }
+
+    private Start(animation: SpriteFrame | EmptySpriteFrame | SpriteAnimation | (SpriteFrame | EmptySpriteFrame)[], looping: boolean, onCompletion?: () => void, onEvent?: (event: string) => void, onReplaced?: () => void): void {
+        const replaced = this.OnAnimationReplaced
+        this.OnAnimationReplaced = onReplaced
+        let frames: (SpriteFrame | EmptySpriteFrame)[]
+        if (animation instanceof SpriteFrame || animation instanceof EmptySpriteFrame) frames = [animation]
+        else if (animation instanceof SpriteAnimation) frames = animation.Frames
+        else frames = animation
+        this.AnimationDirection = animation instanceof SpriteAnimation ? animation.Direction : PlaybackDirection.Forward
+        this.Animation = frames.length ? frames.slice() : [new EmptySpriteFrame(0)]
+        this.Looping = looping
+        this.OnAnimationCompletion = onCompletion
+        this.OnAnimationEvent = onEvent
+        this.Sequence = CreatePlaybackSequence(this.Animation.length, this.CombinedPlaybackDirection(this.AnimationDirection), looping)
+        this.ShowPosition(0, 0, true)
+        // Called last, as the callback may play yet another animation.
+        if (replaced) replaced()
+    }
+
+    // Animations imported from Aseprite play in the direction chosen there, which a PlaybackDirection of Reverse turns around.
+    private CombinedPlaybackDirection(animationDirection: PlaybackDirection): PlaybackDirection {
+        if (this.PlaybackDirectionValue == PlaybackDirection.Forward) return animationDirection
+        if (animationDirection == PlaybackDirection.Forward) return this.PlaybackDirectionValue
+        if (this.PlaybackDirectionValue == PlaybackDirection.Reverse && animationDirection == PlaybackDirection.Reverse) return PlaybackDirection.Forward
+        return PlaybackDirection.PingPong
+    }
+
+    private TotalDurationSeconds(): number {
+        let output = 0
+        for (const frame of this.Sequence) output += this.Animation[frame].DurationSeconds
+        return output
+    }
 
+    private CurrentFrameElapsedSeconds(): number {
+        if (!this.AnimationTimer) return this.FrameElapsedSeconds
+        return this.FrameElapsedSeconds + this.AnimationTimer.ElapsedSeconds() * this.PlaybackRateValue
+    }
+
+    private ShowPosition(position: number, frameElapsedSeconds: number, raiseEvents: boolean): void {
+        const frame = this.Animation[this.Sequence[position]]
+        this.Position = position
+        this.CurrentFrame = frame
+        this.OnMovingSceneObjectRescale()
+        this.Reschedule(frameElapsedSeconds)
+        if (raiseEvents) this.RaiseFrameEvents(frame)
+    }
+
+    private Reschedule(frameElapsedSeconds: number): void {
         if (this.AnimationTimer) {
             this.AnimationTimer.Cancel()
             this.AnimationTimer = undefined
         }
+        this.FrameElapsedSeconds = frameElapsedSeconds
+        if (this.Position == this.Sequence.length - 1 && !this.Looping && !this.OnAnimationCompletion) return
+        // Looping animations which take no time would otherwise never yield.
+        if (this.Looping && !this.TotalDurationSeconds()) return
+        const frame = this.Animation[this.Sequence[this.Position]]
+        this.AnimationTimer = new Timer(Math.max(0, frame.DurationSeconds - frameElapsedSeconds) / this.PlaybackRateValue, () => this.FrameFinished())
+        if (this.Paused() || this.AnimationPausedValue) this.AnimationTimer.Pause()
+    }
 
-        if (animation instanceof SpriteFrame || animation instanceof EmptySpriteFrame) {
-            this.CurrentFrame = animation
-            this.OnMovingSceneObjectRescale()
-            if (onCompletionIfUninterrupted == null) return this
-            this.AnimationTimer = new Timer(animation.DurationSeconds, onCompletionIfUninterrupted)
-            if (this.Paused()) this.AnimationTimer.Pause()
-        } else if (!animation.length) {
-            this.Play(new EmptySpriteFrame(0), onCompletionIfUninterrupted)
-        } else {
-            let frame = 0
-
-            const showNext = () => {
-                this.CurrentFrame = animation[frame]
-                this.OnMovingSceneObjectRescale()
-
-                if (frame == animation.length - 1) {
-                    if (!onCompletionIfUninterrupted) return
-                    this.AnimationTimer = new Timer(animation[frame].DurationSeconds, onCompletionIfUninterrupted)
-                } else {
-                    this.AnimationTimer = new Timer(animation[frame].DurationSeconds, showNext)
-                    frame++
-                }
-                if (this.Paused()) this.AnimationTimer.Pause()
-            }
-            showNext()
+    private FrameFinished(): void {
+        this.AnimationTimer = undefined
+        if (this.Position < this.Sequence.length - 1) this.ShowPosition(this.Position + 1, 0, true)
+        else if (this.Looping) this.ShowPosition(0, 0, true)
+        else {
+            this.OnAnimationReplaced = undefined
+            const onAnimationCompletion = this.OnAnimationCompletion
+            if (onAnimationCompletion) onAnimationCompletion()
         }
-        return this
     }
 
-    Loop(animation: SpriteFrame | EmptySpriteFrame | (SpriteFrame | EmptySpriteFrame)[]): Sprite {
-        if (animation instanceof SpriteFrame || animation instanceof EmptySpriteFrame || animation.length < 2) {
-            this.Play(animation)
-        } else {
-            const playAgain = () => this.Play(animation, playAgain)
-            playAgain()
+    // Called once the next frame has been scheduled, as the callback may play another animation or delete this Sprite.
+    private RaiseFrameEvents(frame: SpriteFrame | EmptySpriteFrame): void {
+        const onEvent = this.OnAnimationEvent
+        if (!onEvent) return
+        for (const event of frame.Events) {
+            if (this.Deleted() || this.CurrentFrame != frame) return
+            onEvent(event)
+        }
+    }
+
+    // Finds every MovingSceneObject in the same Viewport whose hitbox overlaps a slice of the current frame, such as an attack box.
+    ObjectsInSlice(name: string): MovingSceneObject[] {
+        const viewport = this.ContainingViewport()
+        const slice = this.CurrentFrame && this.CurrentFrame.Slices[name]
+        if (this.Deleted() || !viewport || !slice) return []
+        const output = viewport.ObjectsWithin(this.VirtualPixelsFromLeftInViewport() + slice.LeftVirtualPixels, this.VirtualPixelsFromTopInViewport() + slice.TopVirtualPixels, slice.WidthVirtualPixels, slice.HeightVirtualPixels)
+        Remove(output, this)
+        return output
+    }
+
+    protected DefaultHitbox(): Hitbox | undefined {
+        // Artists can draw a slice named "Hitbox" in Aseprite to replace the trimmed bounds of the frame.
+        const slice = this.CurrentFrame && this.CurrentFrame.Slices["Hitbox"]
+        if (slice) return slice
+        if (!(this.CurrentFrame instanceof SpriteFrame)) return undefined
+        return {
+            LeftVirtualPixels: this.CurrentFrame.MarginLeft,
+            TopVirtualPixels: this.CurrentFrame.MarginTop,
+            WidthVirtualPixels: this.CurrentFrame.WidthPixels,
+            HeightVirtualPixels: this.CurrentFrame.HeightPixels
         }
-        return this
     }
 
     protected OnMovingSceneObjectPause(): void {
@@ -78,7 +241,7 @@ class Sprite extends MovingSceneObject {
     }
 
     protected OnMovingSceneObjectResume(): void {
-        if (this.AnimationTimer) this.AnimationTimer.Resume()
+        if (this.AnimationTimer && !this.AnimationPausedValue) this.AnimationTimer.Resume()
     }
 
     protected OnMovingSceneObjectRescale(): void {
@@ -89,6 +252,8 @@ class Sprite extends MovingSceneObject {
             this.Element.style.height = `${this.CurrentFrame.HeightPixels * realPixelsPerVirtualPixel}px`
             this.Element.style.marginLeft = `${this.CurrentFrame.MarginLeft * realPixelsPerVirtualPixel}px`
             this.Element.style.marginTop = `${this.CurrentFrame.MarginTop * realPixelsPerVirtualPixel}px`
+            // Scaling, rotation and mirroring are around the origin rather than the corner of the frame.
+            this.Element.style.transformOrigin = `${-this.CurrentFrame.MarginLeft * realPixelsPerVirtualPixel}px ${-this.CurrentFrame.MarginTop * realPixelsPerVirtualPixel}px`
             this.ImageElement.style.left = `-${this.CurrentFrame.LeftPixels * realPixelsPerVirtualPixel}px`
             this.ImageElement.style.width = `${ContentSpritesWidth * realPixelsPerVirtualPixel}px`
             this.ImageElement.style.top = `-${this.CurrentFrame.TopPixels * realPixelsPerVirtualPixel}px`
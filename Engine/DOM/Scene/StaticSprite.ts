@@ -19,7 +19,7 @@ class StaticSprite {
     }
 
     Set(parent: Viewport | Group, frame: SpriteFrame, virtualPixelsFromLeft: number, virtualPixelsFromTop: number): void {
-        parent.Element.appendChild(this.Element)
+        parent.PlaceChildElement(this.Element, 0, false)
         parent.StaticSprites.push(this)
         this.Parent = parent
         this.Frame = frame
@@ -0,0 +1,241 @@
+type TilemapTile = SpriteFrame | EmptySpriteFrame | SpriteAnimation | (SpriteFrame | EmptySpriteFrame)[]
+
+type TilemapCell = {
+    readonly Element: HTMLDivElement
+    readonly ImageElement: HTMLImageElement
+}
+
+function CreateTilemapCell(): TilemapCell {
+    const element = document.createElement("div")
+    element.style.position = "absolute"
+    element.style.pointerEvents = "none"
+    element.style.overflow = "hidden"
+    if (!Sprites) throw "Creating a tilemap cell before the atlas has been loaded.  This should not be possible."
+    const imageElement = Sprites.cloneNode(true) as HTMLImageElement
+    element.appendChild(imageElement)
+    return {
+        Element: element,
+        ImageElement: imageElement
+    }
+}
+
+const CachedTilemapCells: TilemapCell[] = []
+
+function CreateTilemap(): HTMLDivElement {
+    const element = document.createElement("div")
+    element.style.position = "absolute"
+    element.style.pointerEvents = "none"
+    element.style.transformOrigin = "0 0"
+    return element
+}
+
+const CachedTilemaps: HTMLDivElement[] = []
+
+class Tilemap extends MovingSceneObject {
+    // SpriteAnimations are expanded to the frames they show, in order.
+    private readonly Tileset: (SpriteFrame | EmptySpriteFrame | (SpriteFrame | EmptySpriteFrame)[])[] = []
+    private readonly TileWidthVirtualPixels: number
+    private readonly TileHeightVirtualPixels: number
+    private readonly ColumnsValue: number
+    private readonly RowsValue: number
+    private readonly Tiles: number[]
+    // Indexed by row, then column.  Rows are undefined while culled, and cells are undefined while empty.
+    private readonly Cells: ((TilemapCell | undefined)[] | undefined)[] = []
+    // Every animated tile is driven by this, so that all stay in step.
+    private AnimationTimer?: Timer
+    private AnimationSeconds = 0
+
+    constructor(parent: Viewport | Group, tileset: TilemapTile[], tileWidthVirtualPixels: number, tileHeightVirtualPixels: number, layout: TilemapLayout, onClick?: () => void) {
+        super(parent, onClick)
+        if (this.Deleted()) return
+        for (const entry of tileset) {
+            if (!(entry instanceof SpriteAnimation)) {
+                this.Tileset.push(entry)
+                continue
+            }
+            // Tiles always loop, so that they stay in step with one another.
+            const frames: (SpriteFrame | EmptySpriteFrame)[] = []
+            for (const frame of CreatePlaybackSequence(entry.Frames.length, entry.Direction, true)) frames.push(entry.Frames[frame])
+            this.Tileset.push(frames)
+        }
+        this.TileWidthVirtualPixels = tileWidthVirtualPixels
+        this.TileHeightVirtualPixels = tileHeightVirtualPixels
+        this.ColumnsValue = layout.Columns
+        this.RowsValue = layout.Rows
+        // Copied so that changing tiles does not change the content it was created from.
+        this.Tiles = layout.Tiles.slice()
+        while (this.Cells.length < this.RowsValue) this.Cells.push(undefined)
+        this.Rescale()
+        this.ScheduleAnimation()
+    }
+
+    protected CreateElement(): HTMLDivElement {
+        return CachedTilemaps.pop() || CreateTilemap()
+    }
+
+    Columns(): number {
+        return this.ColumnsValue
+    }
+
+    Rows(): number {
+        return this.RowsValue
+    }
+
+    Tile(column: number, row: number): number {
+        if (column < 0 || column >= this.ColumnsValue || row < 0 || row >= this.RowsValue) return -1
+        return this.Tiles[row * this.ColumnsValue + column]
+    }
+
+    SetTile(column: number, row: number, tile: number): Tilemap {
+        if (this.Deleted()) return this
+        if (column < 0 || column >= this.ColumnsValue || row < 0 || row >= this.RowsValue) return this
+        this.Tiles[row * this.ColumnsValue + column] = tile
+        const cells = this.Cells[row]
+        if (cells) this.RefreshCell(cells, column, row)
+        return this
+    }
+
+    private Frame(tile: number): SpriteFrame | EmptySpriteFrame | undefined {
+        const entry = this.Tileset[tile]
+        if (!(entry instanceof Array)) return entry
+        if (!entry.length) return undefined
+        let totalSeconds = 0
+        for (const frame of entry) totalSeconds += frame.DurationSeconds
+        let remainingSeconds = totalSeconds ? this.AnimationSeconds % totalSeconds : 0
+        for (const frame of entry) {
+            if (remainingSeconds < frame.DurationSeconds) return frame
+            remainingSeconds -= frame.DurationSeconds
+        }
+        return entry[entry.length - 1]
+    }
+
+    // Creates, updates or removes the cell for a tile in a row which is not culled.
+    private RefreshCell(cells: (TilemapCell | undefined)[], column: number, row: number): void {
+        const frame = this.Frame(this.Tiles[row * this.ColumnsValue + column])
+        let cell = cells[column]
+        if (!(frame instanceof SpriteFrame)) {
+            if (cell) {
+                this.Element.removeChild(cell.Element)
+                CachedTilemapCells.push(cell)
+                cells[column] = undefined
+            }
+            return
+        }
+        if (!cell) {
+            cell = cells[column] = CachedTilemapCells.pop() || CreateTilemapCell()
+            this.Element.appendChild(cell.Element)
+        }
+        const realPixelsPerVirtualPixel = Display.RealPixelsPerVirtualPixel()
+        // Frames are centered on their tiles, as StaticSprites are on their locations.
+        cell.Element.style.left = `${((column + 0.5) * this.TileWidthVirtualPixels + frame.MarginLeft) * realPixelsPerVirtualPixel}px`
+        cell.Element.style.top = `${((row + 0.5) * this.TileHeightVirtualPixels + frame.MarginTop) * realPixelsPerVirtualPixel}px`
+        cell.Element.style.width = `${frame.WidthPixels * realPixelsPerVirtualPixel}px`
+        cell.Element.style.height = `${frame.HeightPixels * realPixelsPerVirtualPixel}px`
+        cell.ImageElement.style.left = `-${frame.LeftPixels * realPixelsPerVirtualPixel}px`
+        cell.ImageElement.style.width = `${ContentSpritesWidth * realPixelsPerVirtualPixel}px`
+        cell.ImageElement.style.top = `-${frame.TopPixels * realPixelsPerVirtualPixel}px`
+        cell.ImageElement.style.height = `${ContentSpritesHeight * realPixelsPerVirtualPixel}px`
+    }
+
+    private ShowRow(row: number): void {
+        const cells: (TilemapCell | undefined)[] = []
+        this.Cells[row] = cells
+        for (let column = 0; column < this.ColumnsValue; column++) {
+            cells.push(undefined)
+            this.RefreshCell(cells, column, row)
+        }
+    }
+
+    private HideRow(row: number): void {
+        const cells = this.Cells[row]
+        if (!cells) return
+        for (const cell of cells) {
+            if (!cell) continue
+            this.Element.removeChild(cell.Element)
+            CachedTilemapCells.push(cell)
+        }
+        this.Cells[row] = undefined
+    }
+
+    // Only rows which are on the display have elements.  This does not account for scaling or rotation.
+    private Cull(): void {
+        const marginVirtualPixels = (Display.RealHeightPixels() / Display.RealPixelsPerVirtualPixel() - HeightVirtualPixels) / 2
+        const virtualPixelsFromTop = this.CurrentAbsoluteVirtualPixelsFromTopForTransitions()
+        // Frames may be larger than their tiles, so an extra row is kept either side.
+        const firstRow = Math.floor((-marginVirtualPixels - virtualPixelsFromTop) / this.TileHeightVirtualPixels) - 1
+        const lastRow = Math.floor((HeightVirtualPixels + marginVirtualPixels - virtualPixelsFromTop) / this.TileHeightVirtualPixels) + 1
+        for (let row = 0; row < this.RowsValue; row++) {
+            const visible = row >= firstRow && row <= lastRow
+            if (visible && !this.Cells[row]) this.ShowRow(row)
+            else if (!visible && this.Cells[row]) this.HideRow(row)
+        }
+    }
+
+    private ScheduleAnimation(): void {
+        let secondsUntilNextFrame = Infinity
+        for (const entry of this.Tileset) {
+            if (!(entry instanceof Array) || entry.length < 2) continue
+            let totalSeconds = 0
+            for (const frame of entry) totalSeconds += frame.DurationSeconds
+            if (!totalSeconds) continue
+            let remainingSeconds = this.AnimationSeconds % totalSeconds
+            for (const frame of entry) {
+                if (remainingSeconds < frame.DurationSeconds) {
+                    secondsUntilNextFrame = Math.min(secondsUntilNextFrame, frame.DurationSeconds - remainingSeconds)
+                    break
+                }
+                remainingSeconds -= frame.DurationSeconds
+            }
+        }
+        if (secondsUntilNextFrame == Infinity) return
+        this.AnimationTimer = new Timer(secondsUntilNextFrame, () => {
+            this.AnimationSeconds += secondsUntilNextFrame
+            for (let row = 0; row < this.RowsValue; row++) {
+                const cells = this.Cells[row]
+                if (!cells) continue
+                for (let column = 0; column < this.ColumnsValue; column++) if (this.Tileset[this.Tiles[row * this.ColumnsValue + column]] instanceof Array) this.RefreshCell(cells, column, row)
+            }
+            this.ScheduleAnimation()
+        })
+        if (this.Paused()) this.AnimationTimer.Pause()
+    }
+
+    Tick(): boolean {
+        let any = super.Tick()
+        // Motion using CSS transitions does not report its progress, so culling must be polled.
+        if (!this.Paused() && this.SecondsUntilDestinationReachedForTransitions() != Infinity) {
+            any = true
+            this.Cull()
+        }
+        return any
+    }
+
+    protected OnMoved(): void {
+        super.OnMoved()
+        this.Cull()
+    }
+
+    protected OnMovingSceneObjectPause(): void {
+        if (this.AnimationTimer) this.AnimationTimer.Pause()
+    }
+
+    protected OnMovingSceneObjectResume(): void {
+        if (this.AnimationTimer) this.AnimationTimer.Resume()
+    }
+
+    protected OnMovingSceneObjectRescale(): void {
+        for (let row = 0; row < this.RowsValue; row++) {
+            const cells = this.Cells[row]
+            if (cells) for (let column = 0; column < this.ColumnsValue; column++) this.RefreshCell(cells, column, row)
+        }
+    }
+
+    protected OnMovingSceneObjectDelete(): void {
+        if (this.AnimationTimer) {
+            this.AnimationTimer.Cancel()
+            this.AnimationTimer = undefined
+        }
+        for (let row = 0; row < this.RowsValue; row++) this.HideRow(row)
+        CachedTilemaps.push(this.Element)
+    }
+}
\ No newline at end of file
@@ -10,6 +10,7 @@ const CachedViewports: HTMLDivElement[] = []
 class Viewport extends MovingSceneObject {
     private readonly HorizontalPositionSignedUnitInterval: number
     private readonly VerticalPositionSignedUnitInterval: number
+    private CameraValue?: Camera
 
     constructor(horizontalPositionSignedUnitInterval?: number, verticalPositionSignedUnitInterval?: number, crop?: boolean, onClick?: () => void) {
         super(SceneRoot.Instance, onClick)
@@ -28,19 +29,80 @@ class Viewport extends MovingSceneObject {
         return super.DestinationAbsoluteVirtualPixelsFromLeftForTransitions() + this.HorizontalPositionSignedUnitInterval * ((Display.RealWidthPixels() / Display.RealPixelsPerVirtualPixel()) - WidthVirtualPixels) * 0.5
     }
 
+    CurrentAbsoluteVirtualPixelsFromTopForTransitions(): number {
+        return super.CurrentAbsoluteVirtualPixelsFromTopForTransitions() + this.VerticalPositionSignedUnitInterval * ((Display.RealHeightPixels() / Display.RealPixelsPerVirtualPixel()) - HeightVirtualPixels) * 0.5
+    }
+
+    DestinationAbsoluteVirtualPixelsFromTopForTransitions(): number {
+        return super.DestinationAbsoluteVirtualPixelsFromTopForTransitions() + this.VerticalPositionSignedUnitInterval * ((Display.RealHeightPixels() / Display.RealPixelsPerVirtualPixel()) - HeightVirtualPixels) * 0.5
+    }
+
+    VirtualPixelsFromLeftInViewport(): number {
+        return 0
+    }
+
+    VirtualPixelsFromTopInViewport(): number {
+        return 0
+    }
+
+    ContainingViewport(): Viewport | undefined {
+        return this
+    }
+
+    ObjectsAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number): MovingSceneObject[] {
+        if (this.Deleted()) return []
+        return FindObjectsInViewport(this, hitbox => virtualPixelsFromLeft >= hitbox.Left && virtualPixelsFromLeft < hitbox.Right && virtualPixelsFromTop >= hitbox.Top && virtualPixelsFromTop < hitbox.Bottom)
+    }
+
+    ObjectsWithin(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, widthVirtualPixels: number, heightVirtualPixels: number): MovingSceneObject[] {
+        if (this.Deleted()) return []
+        return FindObjectsInViewport(this, hitbox => RectanglesOverlap(hitbox, {
+            Left: virtualPixelsFromLeft,
+            Top: virtualPixelsFromTop,
+            Right: virtualPixelsFromLeft + widthVirtualPixels,
+            Bottom: virtualPixelsFromTop + heightVirtualPixels
+        }))
+    }
+
+    // Called by Camera so that it is ticked, paused and resumed along with this Viewport.
+    AttachCamera(camera: Camera): void {
+        if (this.Deleted()) return
+        if (this.CameraValue) throw "A Viewport can only have one Camera"
+        this.CameraValue = camera
+        if (this.Paused()) camera.PausedByViewport()
+    }
+
+    Tick(): boolean {
+        // The Camera moves its Groups before they are ticked.
+        const cameraRequiresTick = this.CameraValue ? this.CameraValue.Tick() : false
+        return super.Tick() || cameraRequiresTick
+    }
+
     protected CreateElement(): HTMLDivElement {
         return CachedViewports.pop() || CreateViewport()
     }
 
+    protected OnMovingSceneObjectPause(): void {
+        if (this.CameraValue) this.CameraValue.PausedByViewport()
+    }
+
+    protected OnMovingSceneObjectResume(): void {
+        if (this.CameraValue) this.CameraValue.ResumedByViewport()
+    }
+
     protected OnMovingSceneObjectRescale(): void {
         const realPixelsPerVirtualPixel = Display.RealPixelsPerVirtualPixel()
         this.Element.style.width = `${WidthVirtualPixels * realPixelsPerVirtualPixel}px`
         this.Element.style.height = `${HeightVirtualPixels * realPixelsPerVirtualPixel}px`
         this.Element.style.marginLeft = `${(Display.RealWidthPixels() - WidthVirtualPixels * realPixelsPerVirtualPixel) * (this.HorizontalPositionSignedUnitInterval * 0.5 + 0.5)}px`
         this.Element.style.marginTop = `${(Display.RealHeightPixels() - HeightVirtualPixels * realPixelsPerVirtualPixel) * (this.VerticalPositionSignedUnitInterval * 0.5 + 0.5)}px`
+        // Viewports scale and rotate around their centers.
+        this.Element.style.transformOrigin = "50% 50%"
     }
 
     protected OnMovingSceneObjectDelete(): void {
+        if (this.CameraValue) this.CameraValue.Deleted()
+        this.CameraValue = undefined
         CachedViewports.push(this.Element)
     }
 }
\ No newline at end of file
@@ -4,13 +4,34 @@ onload = () => {
     document.onselectstart = function () { return false };
     (document.body.style as any).MozUserSelect = "none"
 
+    if ("onfocusout" in document) {
+        // IE8.
+        (document as any).onfocusout = FocusLost
+    } else {
+        onblur = FocusLost
+    }
+
+    if ("onfocusin" in document) {
+        // IE8.
+        (document as any).onfocusin = FocusRegained
+    } else {
+        onfocus = FocusRegained
+    }
+
     AudioDriver.Load(() => LoadSprites(() => {
-        RemoveLoadingMessage()
         InternalInvoke(StartGame)
+        FinishAudioCacheStartup()
 
         onmousedown = OnFirstUserInteraction
         ontouchstart = OnFirstUserInteraction
         onkeydown = OnFirstUserInteraction
+        document.onkeydown = InputKeyDown
+        document.onkeyup = InputKeyUp
+        document.onmousemove = PointerMouseMove
+        document.onmouseup = PointerMouseUp
+        document.ontouchmove = PointerTouchMove
+        document.ontouchend = PointerTouchEnd
+        document.ontouchcancel = PointerTouchEnd
         let firstUserInteraction = true
         function OnFirstUserInteraction() {
             if (!firstUserInteraction) return
@@ -0,0 +1,39 @@
+type TestCase = {
+    readonly Name: string
+    readonly Run: (clock: ManualTimersClock) => void
+}
+
+const TestCases: TestCase[] = []
+
+// Registers a test to be run by RunTests.  Each is given a new ManualTimersClock, already installed using InternalSetTimersClock.
+function Test(name: string, run: (clock: ManualTimersClock) => void): void {
+    TestCases.push({ Name: name, Run: run })
+}
+
+function AssertEqual<T>(actual: T, expected: T): void {
+    const actualJson = JSON.stringify(actual)
+    const expectedJson = JSON.stringify(expected)
+    if (actualJson != expectedJson) throw `Expected ${expectedJson}, but got ${actualJson}`
+}
+
+// Runs every registered test, logging the outcome of each.  Returns the number which failed.
+function RunTests(): number {
+    let failures = 0
+    for (const testCase of TestCases) {
+        // Nothing left behind by the previous test, including a failure part way through an InternalInvoke, may affect the next.
+        CallbackQueue.length = 0
+        Recursing = false
+        StandInFutureTickRequired = false
+        const clock = new ManualTimersClock()
+        InternalSetTimersClock(clock)
+        try {
+            testCase.Run(clock)
+            console.log(`Passed: ${testCase.Name}`)
+        } catch (e) {
+            failures++
+            console.log(`Failed: ${testCase.Name}: ${e}`)
+        }
+    }
+    console.log(`${TestCases.length - failures} of ${TestCases.length} tests passed.`)
+    return failures
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+type ManualTimersClockItem = {
+    readonly Handle: number
+    readonly At: number
+    readonly Call: () => void
+}
+
+// A TimersClock which only advances when told to, for driving the engine deterministically from a test harness.
+// Install it using InternalSetTimersClock, then call Advance to simulate the passage of time.
+class ManualTimersClock implements TimersClock {
+    private NowSeconds = 0
+    private NextHandle = 1
+    private Frames: ManualTimersClockItem[] = []
+    private Timeouts: ManualTimersClockItem[] = []
+
+    readonly Now = () => this.NowSeconds
+
+    readonly RequestFrame = (callback: () => void) => {
+        const handle = this.NextHandle++
+        this.Frames.push({ Handle: handle, At: this.NowSeconds, Call: callback })
+        return handle
+    }
+
+    readonly CancelFrame = (handle: number) => {
+        this.Frames = this.Frames.filter(item => item.Handle != handle)
+    }
+
+    readonly RequestTimeout = (callback: () => void, seconds: number) => {
+        const handle = this.NextHandle++
+        const item = { Handle: handle, At: this.NowSeconds + Math.max(0, seconds), Call: callback }
+        let index = 0
+        while (index < this.Timeouts.length && this.Timeouts[index].At <= item.At) index++
+        this.Timeouts.splice(index, 0, item)
+        return handle
+    }
+
+    readonly CancelTimeout = (handle: number) => {
+        this.Timeouts = this.Timeouts.filter(item => item.Handle != handle)
+    }
+
+    // Returns true when a frame has been requested but not yet drawn.
+    FramePending(): boolean {
+        return this.Frames.length > 0
+    }
+
+    // Returns the number of seconds until the next timeout is due, or undefined when none are pending.
+    SecondsUntilNextTimeout(): number | undefined {
+        return this.Timeouts.length ? this.Timeouts[0].At - this.NowSeconds : undefined
+    }
+
+    // Moves time forward by the given number of seconds, executing each timeout which falls due in order, at the time it falls due.
+    // If a frame is pending once time has moved forward, it is then drawn.
+    Advance(seconds: number): void {
+        const target = this.NowSeconds + seconds
+        while (this.Timeouts.length && this.Timeouts[0].At <= target) {
+            const item = this.Timeouts.shift()
+            if (!item) break // Impossible, but TypeScript cannot know it.
+            this.NowSeconds = item.At
+            item.Call()
+        }
+        this.NowSeconds = target
+        this.Frame()
+    }
+
+    // Draws any pending frames without moving time forward.
+    Frame(): void {
+        const frames = this.Frames
+        this.Frames = []
+        for (const item of frames) item.Call()
+    }
+}
\ No newline at end of file
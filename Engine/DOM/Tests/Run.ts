@@ -0,0 +1 @@
+if (RunTests()) process.exitCode = 1
\ No newline at end of file
@@ -0,0 +1,33 @@
+// Replaces the engine subsystems which InternalInvoke ticks, so that Timers can be tested without a browser.
+
+// When true, every subsystem asks for another frame, as the scene does while anything on it is in motion.
+let StandInFutureTickRequired = false
+
+const SceneRoot = {
+    Instance: {
+        Tick: () => StandInFutureTickRequired,
+        Pause: () => { },
+        Resume: () => { },
+        Disable: () => { },
+        Enable: () => { }
+    }
+}
+
+const AudioDriver = {
+    Tick: () => false,
+    PauseMusic: () => { },
+    ResumeMusic: () => { }
+}
+
+const Display = {
+    RealWidthPixels: () => 0,
+    RealHeightPixels: () => 0
+}
+
+function TickInput() { return false }
+function TickCollision() { return false }
+function TickTransition() { return false }
+function PauseTransition() { }
+function ResumeTransition() { }
+function ReleaseInput() { }
+function ReleasePointer() { }
\ No newline at end of file
@@ -0,0 +1,81 @@
+Test("Timers complete in order of when they are due, then in order of creation", clock => {
+    const completed: string[] = []
+    new Timer(0.5, () => completed.push("second"))
+    new Timer(0.25, () => completed.push("first"))
+    new Timer(0.5, () => completed.push("third"))
+    InternalInvoke()
+    clock.Advance(0.125)
+    AssertEqual(completed, [])
+    clock.Advance(0.125)
+    AssertEqual(completed, ["first"])
+    clock.Advance(0.25)
+    AssertEqual(completed, ["first", "second", "third"])
+})
+
+Test("Timers started when another completes are timed from when it was due", clock => {
+    const completed: string[] = []
+    new Timer(0.25, () => {
+        completed.push("outer")
+        new Timer(0.25, () => completed.push("inner"))
+    })
+    InternalInvoke()
+    clock.Advance(0.375)
+    AssertEqual(completed, ["outer"])
+    clock.Advance(0.125)
+    AssertEqual(completed, ["outer", "inner"])
+})
+
+Test("Recurring timers fire once per interval, between other timers", clock => {
+    const fired: string[] = []
+    const recurringTimer = new RecurringTimer(0.25, () => fired.push("recurring"))
+    new Timer(0.375, () => fired.push("timer"))
+    InternalInvoke()
+    clock.Advance(0.75)
+    AssertEqual(fired, ["recurring", "timer", "recurring", "recurring"])
+    AssertEqual(recurringTimer.CompletedLoops(), 3)
+    recurringTimer.Stop()
+    clock.Advance(1)
+    AssertEqual(fired.length, 4)
+})
+
+Test("Paused timers do not complete until resumed", clock => {
+    const completed: string[] = []
+    const timer = new Timer(0.25, () => completed.push("timer"))
+    InternalInvoke()
+    clock.Advance(0.125)
+    InternalInvoke(() => timer.Pause())
+    clock.Advance(1)
+    AssertEqual(completed, [])
+    AssertEqual(timer.ElapsedSeconds(), 0.125)
+    InternalInvoke(() => timer.Resume())
+    clock.Advance(0.0625)
+    AssertEqual(completed, [])
+    clock.Advance(0.0625)
+    AssertEqual(completed, ["timer"])
+})
+
+Test("A long wait for a frame only simulates 0.125 seconds", clock => {
+    const completed: string[] = []
+    new Timer(0.0625, () => completed.push("short"))
+    new Timer(0.25, () => completed.push("long"))
+    StandInFutureTickRequired = true
+    InternalInvoke()
+    const startedAt = CurrentTime
+    clock.Advance(10)
+    AssertEqual(completed, ["short"])
+    AssertEqual(CurrentTime - startedAt, 0.125)
+    clock.Advance(0.125)
+    AssertEqual(completed, ["short", "long"])
+})
+
+Test("A long wait for a frame still simulates up to the next timer due beyond 0.125 seconds", clock => {
+    const completed: string[] = []
+    new Timer(5, () => completed.push("long"))
+    new Timer(20, () => completed.push("longer"))
+    StandInFutureTickRequired = true
+    InternalInvoke()
+    const startedAt = CurrentTime
+    clock.Advance(10)
+    AssertEqual(completed, ["long"])
+    AssertEqual(CurrentTime - startedAt, 5)
+})
\ No newline at end of file
@@ -0,0 +1,264 @@
+type TimelineStepInstance = {
+    readonly Pause: () => void
+    readonly Resume: () => void
+    readonly Cancel: () => void
+}
+
+// Starts a step, calling done when it has finished.  Steps which finish immediately need not return anything.
+type TimelineStep = (done: () => void) => TimelineStepInstance | undefined
+
+class Timeline {
+    private readonly Target: Viewport | Group | Sprite | Background
+    private readonly OnIdle?: () => void
+    // Steps are removed once started, so that their closures can be freed.
+    private readonly Steps: TimelineStep[] = []
+    private CompletedStepsValue = 0
+    private TotalStepsValue = 0
+    // Idle Timelines detach from their targets, so that those repeatedly given new Timelines do not keep every one of them.
+    private Attached = true
+    private Held: boolean
+    private Running = false
+    private Current?: TimelineStepInstance
+    private CurrentToken?: {}
+    private FinishedWhilePaused = false
+    private LocallyPausedValue = false
+    private PausedByTargetValue = false
+    private CancelledValue = false
+    private ElapsedSecondsBeforeResuming = 0
+    private ResumedAt?: number
+
+    constructor(target: Viewport | Group | Sprite | Background, onIdle?: () => void, held?: boolean) {
+        this.Target = target
+        this.OnIdle = onIdle
+        this.Held = !!held
+        target.AttachTimeline(this)
+    }
+
+    readonly Paused = () => this.LocallyPausedValue || this.PausedByTargetValue
+    readonly Cancelled = () => this.CancelledValue
+    readonly Completed = () => !this.CancelledValue && !this.Running && !this.Steps.length
+    readonly CompletedSteps = () => this.CompletedStepsValue
+    readonly TotalSteps = () => this.TotalStepsValue
+
+    readonly ElapsedSeconds = () => {
+        if (this.ResumedAt === undefined) return this.ElapsedSecondsBeforeResuming
+        return this.ElapsedSecondsBeforeResuming + CurrentTime - this.ResumedAt
+    }
+
+    Wait(seconds: number): Timeline {
+        return this.Enqueue(done => new Timer(seconds, done))
+    }
+
+    Call(callback: () => void): Timeline {
+        return this.Enqueue(done => {
+            callback()
+            done()
+            return undefined
+        })
+    }
+
+    MoveOver(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, durationSeconds: number, easing?: Easing): Timeline {
+        return this.Enqueue(done => {
+            this.Target.MoveOver(virtualPixelsFromLeft, virtualPixelsFromTop, durationSeconds, undefined, easing)
+            // A Timer is used rather than the arrival callback so that this Timeline continues even if the motion is interrupted.
+            return new Timer(durationSeconds, done)
+        })
+    }
+
+    MoveAt(virtualPixelsFromLeft: number, virtualPixelsFromTop: number, pixelsPerSecond: number, easing?: Easing): Timeline {
+        return this.Enqueue(done => {
+            const durationSeconds = Distance(virtualPixelsFromLeft, virtualPixelsFromTop, this.Target.VirtualPixelsFromLeft(), this.Target.VirtualPixelsFromTop()) / pixelsPerSecond
+            this.Target.MoveOver(virtualPixelsFromLeft, virtualPixelsFromTop, durationSeconds, undefined, easing)
+            return new Timer(durationSeconds, done)
+        })
+    }
+
+    Play(animation: SpriteFrame | EmptySpriteFrame | SpriteAnimation | (SpriteFrame | EmptySpriteFrame)[]): Timeline {
+        const target = this.Target
+        if (!(target instanceof Sprite)) throw "Only Timelines targeting Sprites can Play animations"
+        return this.Enqueue(done => {
+            // The animation itself is followed, so that changes to its playback rate, pausing and seeking are respected.
+            target.PlayUntilReplaced(animation, done)
+            return undefined
+        })
+    }
+
+    PlaySound(sound: Sound): Timeline {
+        return this.Call(() => this.Target.PlaySound(sound))
+    }
+
+    PlayDialog(dialog: Dialog): Timeline {
+        return this.Call(() => this.Target.PlayDialog(dialog))
+    }
+
+    Parallel(...branches: ((timeline: Timeline) => void)[]): Timeline {
+        return this.Enqueue(done => {
+            let remaining = branches.length
+            const timelines: Timeline[] = []
+            for (const branch of branches) {
+                let idle = false
+                const timeline = new Timeline(this.Target, () => {
+                    // Steps may be added to a branch after it has become idle, which should not count twice.
+                    if (idle) return
+                    idle = true
+                    remaining--
+                    if (!remaining) done()
+                }, true)
+                timelines.push(timeline)
+                branch(timeline)
+            }
+            // Branches are held until all have been built, as otherwise, one containing only Calls would finish immediately.
+            for (const timeline of timelines) timeline.Release()
+            if (!remaining) {
+                done()
+                return undefined
+            }
+            return {
+                Pause: () => { for (const timeline of timelines) timeline.Pause() },
+                Resume: () => { for (const timeline of timelines) timeline.Resume() },
+                Cancel: () => { for (const timeline of timelines) timeline.Cancel() }
+            }
+        })
+    }
+
+    Pause(): Timeline {
+        if (this.CancelledValue || this.LocallyPausedValue) return this
+        const wasPaused = this.Paused()
+        this.LocallyPausedValue = true
+        if (!wasPaused) this.Suspend()
+        return this
+    }
+
+    Resume(): Timeline {
+        if (this.CancelledValue || !this.LocallyPausedValue) return this
+        this.LocallyPausedValue = false
+        if (!this.Paused()) this.Unsuspend()
+        return this
+    }
+
+    Cancel(): Timeline {
+        if (this.CancelledValue) return this
+        this.CancelledValue = true
+        this.StopClock()
+        this.CurrentToken = undefined
+        if (this.Current) this.Current.Cancel()
+        this.Current = undefined
+        this.Detach()
+        return this
+    }
+
+    // Called by the target SceneObject when it or its parents are paused.
+    PausedByTarget(): void {
+        if (this.CancelledValue || this.PausedByTargetValue) return
+        const wasPaused = this.Paused()
+        this.PausedByTargetValue = true
+        if (!wasPaused) this.Suspend()
+    }
+
+    // Called by the target SceneObject when it and its parents are resumed.
+    ResumedByTarget(): void {
+        if (this.CancelledValue || !this.PausedByTargetValue) return
+        this.PausedByTargetValue = false
+        if (!this.Paused()) this.Unsuspend()
+    }
+
+    private Release(): void {
+        this.Held = false
+        this.StartNextStep()
+    }
+
+    private Enqueue(step: TimelineStep): Timeline {
+        if (this.CancelledValue) return this
+        if (!this.Attached) {
+            this.Attached = true
+            // This cancels the Timeline should the target have been deleted while it was idle.
+            this.Target.AttachTimeline(this)
+            if (this.CancelledValue) return this
+        }
+        this.Steps.push(step)
+        this.TotalStepsValue++
+        this.StartNextStep()
+        return this
+    }
+
+    private Detach(): void {
+        if (!this.Attached) return
+        this.Attached = false
+        Remove(this.Target.Timelines, this)
+        // Whether the target is paused is checked again when attaching.
+        this.PausedByTargetValue = false
+    }
+
+    private StartNextStep(): void {
+        while (!this.CancelledValue && !this.Held && !this.Running) {
+            if (!this.Steps.length) {
+                this.StopClock()
+                this.Detach()
+                if (this.OnIdle) this.OnIdle()
+                return
+            }
+            this.Running = true
+            if (!this.Paused()) this.StartClock()
+            let starting = true
+            let finishedWhileStarting = false
+            const token = {}
+            this.CurrentToken = token
+            const step = this.Steps.shift()
+            if (!step) return // Impossible, but TypeScript cannot know it.
+            const current = step(() => {
+                if (this.CurrentToken != token) return
+                if (starting) finishedWhileStarting = true
+                else this.StepFinished()
+            })
+            starting = false
+            if (this.CurrentToken != token) return
+            if (finishedWhileStarting) {
+                this.CurrentToken = undefined
+                this.Running = false
+                this.CompletedStepsValue++
+                continue
+            }
+            this.Current = current
+            if (current && this.Paused()) current.Pause()
+        }
+    }
+
+    private StepFinished(): void {
+        // This is possible when a Parallel branch is resumed independently, for example.
+        if (this.Paused()) {
+            this.FinishedWhilePaused = true
+            return
+        }
+        this.Current = undefined
+        this.CurrentToken = undefined
+        this.Running = false
+        this.CompletedStepsValue++
+        this.StartNextStep()
+    }
+
+    private Suspend(): void {
+        this.StopClock()
+        if (this.Current && !this.FinishedWhilePaused) this.Current.Pause()
+    }
+
+    private Unsuspend(): void {
+        if (this.FinishedWhilePaused) {
+            this.FinishedWhilePaused = false
+            this.StepFinished()
+            return
+        }
+        if (!this.Running) return
+        this.StartClock()
+        if (this.Current) this.Current.Resume()
+    }
+
+    private StartClock(): void {
+        if (this.ResumedAt === undefined) this.ResumedAt = CurrentTime
+    }
+
+    private StopClock(): void {
+        if (this.ResumedAt === undefined) return
+        this.ElapsedSecondsBeforeResuming += CurrentTime - this.ResumedAt
+        this.ResumedAt = undefined
+    }
+}
\ No newline at end of file
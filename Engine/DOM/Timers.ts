@@ -15,22 +15,57 @@ function AddToCallbackQueue(item: CallbackQueueItem) {
     CallbackQueue.splice(index, 0, item)
 }
 
+// Abstracts the passage of real time and the scheduling of future InternalInvokes.
+// The browser's clock is used by default, but a deterministic replacement can be used for testing.
+type TimersClock = {
+    // Gets the current real time, in seconds.
+    readonly Now: () => number
+
+    // Calls the given callback once, when the next frame is to be drawn.  Returns a handle which can be given to CancelFrame.
+    readonly RequestFrame: (callback: () => void) => number
+    readonly CancelFrame: (handle: number) => void
+
+    // Calls the given callback once, after the given number of seconds.  Returns a handle which can be given to CancelTimeout.
+    readonly RequestTimeout: (callback: () => void, seconds: number) => number
+    readonly CancelTimeout: (handle: number) => void
+}
+
+// The window is only inspected when a frame is requested, so that test harnesses without one can load this file.
+const BrowserTimersClock: TimersClock = {
+    Now: () => (+new Date()) / 1000,
+    RequestFrame: callback => "requestAnimationFrame" in window
+        ? requestAnimationFrame(callback)
+        : setTimeout(callback, 50) as any, // todo
+    CancelFrame: handle => "cancelAnimationFrame" in window
+        ? cancelAnimationFrame(handle)
+        : clearTimeout(handle),
+    RequestTimeout: (callback, seconds) => setTimeout(callback, 1000 * seconds) as any, // todo
+    CancelTimeout: handle => clearTimeout(handle)
+}
+
+let CurrentTimersClock = BrowserTimersClock
+
 let AnimationFrame: number | undefined = undefined
 let Timeout: number | undefined = undefined
-let Interval: number | undefined = undefined
 
-if ("onfocusout" in document) {
-    // IE8.
-    (document as any).onfocusout = FocusLost
-} else {
-    onblur = FocusLost
+function CancelScheduledInvokes() {
+    if (AnimationFrame !== undefined) {
+        CurrentTimersClock.CancelFrame(AnimationFrame)
+        AnimationFrame = undefined
+    }
+
+    if (Timeout !== undefined) {
+        CurrentTimersClock.CancelTimeout(Timeout)
+        Timeout = undefined
+    }
 }
 
-if ("onfocusin" in document) {
-    // IE8.
-    (document as any).onfocusin = FocusRegained
-} else {
-    onfocus = FocusRegained
+// Called by test harnesses to replace the clock used by InternalInvoke, such as with a ManualTimersClock.
+// Anything scheduled using the previous clock is cancelled, and the next InternalInvoke will not advance time.
+function InternalSetTimersClock(clock: TimersClock) {
+    CancelScheduledInvokes()
+    CurrentTimersClock = clock
+    TimeAtLastInvoke = undefined
 }
 
 let shadeElement: HTMLDivElement | undefined
@@ -69,26 +104,16 @@ function FocusLost(localEvent: Event) {
         document.body.appendChild(shadeElement)
 
         InternalInvoke(() => {
+            // The pointer is released first, as drags of paused SceneObjects end without being dropped.
+            ReleasePointer()
             SceneRoot.Instance.Pause()
             SceneRoot.Instance.Disable()
             PauseTransition()
             AudioDriver.PauseMusic()
+            ReleaseInput()
         })
 
-        if (AnimationFrame !== undefined) {
-            window.cancelAnimationFrame(AnimationFrame)
-            AnimationFrame = undefined
-        }
-
-        if (Timeout !== undefined) {
-            clearTimeout(Timeout)
-            Timeout = undefined
-        }
-
-        if (Interval !== undefined) {
-            clearInterval(Interval)
-            Interval = undefined
-        }
+        CancelScheduledInvokes()
     }
 }
 
@@ -118,7 +143,7 @@ let Recursing = false
 function InternalInvoke(callback?: () => void) {
     if (Recursing) throw new Error("Timers.Update should not be called recursively")
     Recursing = true
-    const time = (+new Date()) / 1000
+    const time = CurrentTimersClock.Now()
     let delta = 0
     if (TimeAtLastInvoke !== undefined) {
         delta = time - TimeAtLastInvoke
@@ -148,48 +173,39 @@ function InternalInvoke(callback?: () => void) {
     }
 
     CurrentTime = RunningTowardsTime
+    // Input is polled first so that any changes it makes to the scene are drawn below.
+    const futureTickRequiredByInput = TickInput()
     const futureTickRequiredByScene = SceneRoot.Instance.Tick()
+    const futureTickRequiredByCollision = TickCollision()
     const futureTickRequiredByTransition = TickTransition()
     const futureTickRequiredByAudio = AudioDriver.Tick()
-    const futureTickRequired = futureTickRequiredByScene || futureTickRequiredByTransition || futureTickRequiredByAudio
+    const futureTickRequired = futureTickRequiredByInput || futureTickRequiredByScene || futureTickRequiredByCollision || futureTickRequiredByTransition || futureTickRequiredByAudio
 
     if (Timeout !== undefined) {
-        clearTimeout(Timeout)
+        CurrentTimersClock.CancelTimeout(Timeout)
         Timeout = undefined
     }
 
     if (futureTickRequired) {
-        if ("requestAnimationFrame" in window) {
-            if (AnimationFrame === undefined) {
-                AnimationFrame = requestAnimationFrame(() => {
-                    AnimationFrame = undefined
-                    InternalInvoke()
-                })
-            }
-        } else {
-            if (Interval === undefined) {
-                Interval = setInterval(InternalInvoke, 50) as any // todo
-            }
+        if (AnimationFrame === undefined) {
+            AnimationFrame = CurrentTimersClock.RequestFrame(() => {
+                AnimationFrame = undefined
+                InternalInvoke()
+            })
         }
     } else {
         if (AnimationFrame !== undefined) {
-            cancelAnimationFrame(AnimationFrame)
+            CurrentTimersClock.CancelFrame(AnimationFrame)
             AnimationFrame = undefined
         }
-        if (Interval !== undefined) {
-            clearInterval(Interval)
-            Interval = undefined
-        }
         if (CallbackQueue.length) {
-            Timeout = setTimeout(() => {
+            Timeout = CurrentTimersClock.RequestTimeout(() => {
                 Timeout = undefined
                 InternalInvoke()
             },
-                1000 * (
-                    CallbackQueue[0].At - CurrentTime
-                    - (((+new Date()) / 1000) - TimeAtLastInvoke) // If processing the above loop took significant time, skip that much of the delay.
-                )
-            ) as any // todo
+                CallbackQueue[0].At - CurrentTime
+                - (CurrentTimersClock.Now() - TimeAtLastInvoke) // If processing the above loop took significant time, skip that much of the delay.
+            )
         }
     }
 
@@ -238,7 +254,7 @@ class Timer {
     readonly ElapsedSecondsForTransitions = () => {
         if (this.PausedElapsed !== undefined) return this.PausedElapsed
         if (this.CancelledElapsed !== undefined) return this.CancelledElapsed
-        return Math.min(this.DurationSeconds, ((+new Date()) / 1000) - (TimeAtLastInvoke || 0 /* this cannot be undefined here, but TypeScript cannot know that. */) + RunningTowardsTime - this.StartedAt)
+        return Math.min(this.DurationSeconds, CurrentTimersClock.Now() - (TimeAtLastInvoke || 0 /* this cannot be undefined here, but TypeScript cannot know that. */) + RunningTowardsTime - this.StartedAt)
     }
 
     readonly ElapsedUnitIntervalForTransitions = () => {
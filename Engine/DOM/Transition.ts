@@ -2,26 +2,34 @@ class TransitionStepRectangleInstance {
     private readonly Timer: Timer
     private readonly From: TransitionStepRectangleKeyFrame
     private readonly To: TransitionStepRectangleKeyFrame
+    private readonly Easing: Easing
     private readonly Element: HTMLDivElement
 
-    constructor(wrappingElement: HTMLDivElement, timer: Timer, from: TransitionStepRectangleKeyFrame, to: TransitionStepRectangleKeyFrame) {
+    constructor(wrappingElement: HTMLDivElement, timer: Timer, from: TransitionStepRectangleKeyFrame, to: TransitionStepRectangleKeyFrame, easing: Easing) {
         this.From = from
         this.To = to
+        this.Easing = easing
         this.Timer = timer
         this.Element = document.createElement("div")
         this.Element.style.position = "absolute"
-        this.SetStyle(("transition" in this.Element.style) ? this.Timer.ElapsedUnitIntervalForTransitions() : 0)
+        this.SetStyle(this.CssTransitionsUsed() ? this.Easing.Apply(this.Timer.ElapsedUnitIntervalForTransitions()) : 0)
         wrappingElement.appendChild(this.Element)
-        if ("transition" in this.Element.style) {
+        if (this.CssTransitionsUsed()) {
             ForceStyleRefresh(this.Element)
             this.SetTransition(timer.DurationSeconds - timer.ElapsedSecondsForTransitions())
             this.SetStyle(1)
         }
     }
 
+    // When false, this rectangle is animated by Tick instead.
+    CssTransitionsUsed(): boolean {
+        return "transition" in this.Element.style && this.Easing.CssRemainder(0) !== undefined
+    }
+
     SetTransition(seconds: number): void {
         if (seconds < 0) seconds = 0
-        this.Element.style.transition = `left ${seconds}s linear, right ${seconds}s linear, top ${seconds}s linear, bottom ${seconds}s linear, opacity ${seconds}s linear, background ${seconds}s linear`
+        const timingFunction = this.Easing.CssRemainder(this.Timer.ElapsedUnitIntervalForTransitions())
+        this.Element.style.transition = `left ${seconds}s ${timingFunction}, right ${seconds}s ${timingFunction}, top ${seconds}s ${timingFunction}, bottom ${seconds}s ${timingFunction}, opacity ${seconds}s ${timingFunction}, background ${seconds}s ${timingFunction}`
     }
 
     SetStyle(progress: number): void {
@@ -39,15 +47,15 @@ class TransitionStepRectangleInstance {
 
     Pause(): void {
         this.Tick()
-        if ("transition" in this.Element.style) {
+        if (this.CssTransitionsUsed()) {
             this.Element.style.transition = "initial"
             ForceStyleRefresh(this.Element)
         }
     }
 
     Resume(): void {
-        if ("transition" in this.Element.style) {
-            this.SetStyle(this.Timer.ElapsedUnitIntervalForTransitions())
+        if (this.CssTransitionsUsed()) {
+            this.SetStyle(this.Easing.Apply(this.Timer.ElapsedUnitIntervalForTransitions()))
             ForceStyleRefresh(this.Element)
             this.SetTransition(this.Timer.DurationSeconds - this.Timer.ElapsedSecondsForTransitions())
             this.SetStyle(1)
@@ -57,7 +65,7 @@ class TransitionStepRectangleInstance {
     }
 
     Tick(): void {
-        this.SetStyle(this.Timer.ElapsedUnitInterval())
+        this.SetStyle(this.Easing.Apply(this.Timer.ElapsedUnitInterval()))
     }
 }
 
@@ -76,7 +84,7 @@ class TransitionStepInstance {
             call()
             document.body.removeChild(this.WrappingElement)
         })
-        for (const rectangle of step.Rectangles) this.Rectangles.push(new TransitionStepRectangleInstance(this.WrappingElement, timer, rectangle.From, rectangle.To))
+        for (const rectangle of step.Rectangles) this.Rectangles.push(new TransitionStepRectangleInstance(this.WrappingElement, timer, rectangle.From, rectangle.To, rectangle.Easing || Easing.Linear))
     }
 
     Pause(): void {
@@ -87,8 +95,14 @@ class TransitionStepInstance {
         for (const rectangle of this.Rectangles) rectangle.Resume()
     }
 
-    Tick(): void {
-        for (const rectangle of this.Rectangles) rectangle.Tick()
+    Tick(): boolean {
+        let any = false
+        for (const rectangle of this.Rectangles) {
+            if (rectangle.CssTransitionsUsed()) continue
+            any = true
+            rectangle.Tick()
+        }
+        return any
     }
 
     Resize(): void {
@@ -133,11 +147,11 @@ class TransitionInstance {
             this.EntryInstance.Resume()
     }
 
-    Tick(): void {
+    Tick(): boolean {
         if (this.ExitInstance)
-            this.ExitInstance.Tick()
+            return this.ExitInstance.Tick()
         else
-            this.EntryInstance.Tick()
+            return this.EntryInstance.Tick()
     }
 }
 
@@ -150,11 +164,9 @@ function Transition(entry: TransitionStep, exit: TransitionStep, call: () => voi
 
 function TickTransition(): boolean {
     if (!CurrentTransition) return false
-    // IE10+, Edge, Firefox, Chrome.
-    if ("transition" in document.body.style) return false
-    // IE9-.
-    CurrentTransition.Tick()
-    return true
+    // IE9-, or rectangles using Easings which CSS cannot resume part-way through.
+    // Otherwise, CSS transitions animate the rectangles.
+    return CurrentTransition.Tick()
 }
 
 function ResizeTransition(): void {
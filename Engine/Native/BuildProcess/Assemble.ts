@@ -1,6 +1,8 @@
 import { Error } from "./../../../BuildContent/Misc"
-import { Build, Configuration, PackedSpriteFrame, PackedBackgroundFrame, PackedSound, PackedMusic, PackedDialog } from "./../../../BuildContent/Types"
+import { Build, Configuration, PackedSpriteFrame, PackedSprite, PackedBackgroundFrame, PackedBackground, PackedSound, PackedMusic, PackedDialog, PackedTilemap } from "./../../../BuildContent/Types"
 import { GenerateCodeFromContentTree, GenerateContentTreeFromBuild } from "./../../../BuildContent/Tree"
+import { GenerateMapCode } from "./../../../BuildContent/Map/Code"
+import { AnimationSequence } from "./../../../BuildContent/Animation"
 
 import zlib = require("zlib")
 import fs = require("fs")
@@ -37,10 +39,36 @@ function ReadConfiguration() {
     fs.readFile("Game/Configuration.json", "utf8", (err, data) => {
         Error(err)
         Configuration = JSON.parse(data)
-        GenerateContent()
+        ReportUnsupportedContent()
     })
 }
 
+// Anything the native engine cannot yet play as the DOM engine would is listed once, by content name, rather than as it is generated.
+function ReportUnsupportedContent() {
+    console.info("Checking for content not yet supported by the native engine...")
+    const unsupported: string[] = []
+
+    const sprites: { [contentName: string]: PackedSprite } = Build.PackedContent["sprite"] || {}
+    for (const contentName in sprites) {
+        const sprite = sprites[contentName]
+        const frames = sprite.Animation ? sprite.Frames : [sprite]
+        const features: string[] = []
+        if (frames.some(frame => frame.Events.length > 0)) features.push("events (ignored)")
+        if (frames.some(frame => frame.Slices.length > 0)) features.push("slices (ignored)")
+        if (sprite.Animation && !sprite.Looping) features.push("playing without looping (played looping)")
+        if (features.length) unsupported.push(`\t${contentName}: ${features.join(", ")}`)
+    }
+
+    const backgrounds: { [contentName: string]: PackedBackground } = Build.PackedContent["background"] || {}
+    for (const contentName in backgrounds) {
+        const background = backgrounds[contentName]
+        if (background.Animation && !background.Looping) unsupported.push(`\t${contentName}: playing without looping (played looping)`)
+    }
+
+    if (unsupported.length) console.warn(`The following content uses features not yet supported by the native engine:\n${unsupported.join("\n")}`)
+    GenerateContent()
+}
+
 const Chunks: ArrayBuffer[] = []
 
 let Content: string
@@ -57,27 +85,41 @@ const SoundDirectories: string[] = []
 const SoundGains: number[] = []
 const MusicDirectories: string[] = []
 const MusicGains: number[] = []
+const MusicLoopStartSeconds: number[] = []
+const MusicLoopEndSeconds: number[] = []
 const DialogDirectories: string[] = []
 const DialogGains: number[] = []
 
+function GenerateSpriteFrame(spriteFrame: PackedSpriteFrame): string {
+    SpriteFrameAtlasLeftPixels.push(spriteFrame.Empty ? 0 : spriteFrame.AtlasLeftPixels)
+    SpriteFrameAtlasTopPixels.push(spriteFrame.Empty ? 0 : spriteFrame.AtlasTopPixels)
+    SpriteFrameWidthPixels.push(spriteFrame.Empty ? 0 : spriteFrame.WidthPixels)
+    SpriteFrameHeightPixels.push(spriteFrame.Empty ? 0 : spriteFrame.HeightPixels)
+    SpriteFrameOffsetLeftPixels.push(spriteFrame.Empty ? 0 : spriteFrame.OffsetLeftPixels)
+    SpriteFrameOffsetTopPixels.push(spriteFrame.Empty ? 0 : spriteFrame.OffsetTopPixels)
+    SpriteFrameDurationMilliseconds.push(spriteFrame.DurationSeconds * 1000)
+    return `${SpriteFrameAtlasLeftPixels.length - 1}`
+}
+
+function GenerateBackgroundFrame(backgroundFrame: PackedBackgroundFrame): string {
+    BackgroundFrameIds.push(backgroundFrame.Empty ? 65535 : backgroundFrame.Id)
+    BackgroundFrameDurationMilliseconds.push(backgroundFrame.DurationSeconds * 1000)
+    return `${BackgroundFrameIds.length - 1}`
+}
+
 function GenerateContent() {
     console.info("Generating content scripts...")
 
     Content = GenerateCodeFromContentTree(GenerateContentTreeFromBuild(Build), false, {
-        sprite: (spriteFrame: PackedSpriteFrame) => {
-            SpriteFrameAtlasLeftPixels.push(spriteFrame.Empty ? 0 : spriteFrame.AtlasLeftPixels)
-            SpriteFrameAtlasTopPixels.push(spriteFrame.Empty ? 0 : spriteFrame.AtlasTopPixels)
-            SpriteFrameWidthPixels.push(spriteFrame.Empty ? 0 : spriteFrame.WidthPixels)
-            SpriteFrameHeightPixels.push(spriteFrame.Empty ? 0 : spriteFrame.HeightPixels)
-            SpriteFrameOffsetLeftPixels.push(spriteFrame.Empty ? 0 : spriteFrame.OffsetLeftPixels)
-            SpriteFrameOffsetTopPixels.push(spriteFrame.Empty ? 0 : spriteFrame.OffsetTopPixels)
-            SpriteFrameDurationMilliseconds.push(spriteFrame.DurationSeconds * 1000)
-            return `${SpriteFrameAtlasLeftPixels.length - 1}`
+        sprite: (sprite: PackedSprite) => {
+            if (!sprite.Animation) return GenerateSpriteFrame(sprite)
+            // The native engine only knows arrays of frames, which it plays forward, looping, so other directions are expanded here.
+            return `[${AnimationSequence(sprite.Frames.map(GenerateSpriteFrame), sprite.Direction, sprite.Looping).join(", ")}]`
         },
-        background: (backgroundFrame: PackedBackgroundFrame) => {
-            BackgroundFrameIds.push(backgroundFrame.Empty ? 65535 : backgroundFrame.Id)
-            BackgroundFrameDurationMilliseconds.push(backgroundFrame.DurationSeconds * 1000)
-            return `${BackgroundFrameIds.length - 1}`
+        background: (background: PackedBackground) => {
+            if (!background.Animation) return GenerateBackgroundFrame(background)
+            // The native engine only knows arrays of frames, which it plays forward, looping, so other directions are expanded here.
+            return `[${AnimationSequence(background.Frames.map(GenerateBackgroundFrame), background.Direction, background.Looping).join(", ")}]`
         },
         sound: (sound: PackedSound) => {
             SoundDirectories.push(sound.Directory)
@@ -87,13 +129,18 @@ function GenerateContent() {
         music: (music: PackedMusic) => {
             MusicDirectories[music.Id] = music.Directory
             MusicGains.push(music.Gain)
+            MusicLoopStartSeconds.push(music.LoopStartSeconds)
+            MusicLoopEndSeconds.push(music.LoopEndSeconds)
             return `${music.Id}`
         },
         dialog: (dialog: PackedDialog) => {
             DialogDirectories[dialog.Id] = dialog.Directory
             DialogGains.push(dialog.Gain)
             return `${dialog.Id}`
-        }
+        },
+        // Tilemaps are small enough to embed in the scripts rather than adding a table.
+        tilemap: (tilemap: PackedTilemap) => `new TilemapLayout(${tilemap.Columns}, ${tilemap.Rows}, [${tilemap.Tiles.join(", ")}])`,
+        map: GenerateMapCode
     })
     GenerateHeader()
 }
@@ -292,7 +339,9 @@ function LoadSounds() {
 function BuildMusicTable() {
     console.info("Building music table...")
     const buffer = Buffer.concat([
-        Float32Array.from(MusicGains).buffer
+        Float32Array.from(MusicGains).buffer,
+        Float32Array.from(MusicLoopStartSeconds).buffer,
+        Float32Array.from(MusicLoopEndSeconds).buffer
     ].map(ab => new Buffer(ab)))
 
     if (process.env.NODE_ENV != "production") {
@@ -0,0 +1,88 @@
+abstract class Easing {
+    // Converts elapsed time to progress, both as unit intervals.
+    abstract Apply(elapsedUnitInterval: number): number
+
+    // Gets a CSS timing function which continues this Easing from the given point to its end, as though that were a new transition.
+    // Returns undefined when this is not possible, in which case the motion must be animated by script.
+    abstract CssRemainder(elapsedUnitInterval: number): string | undefined
+}
+
+class CubicBezierEasing extends Easing {
+    constructor(private readonly X1: number, private readonly Y1: number, private readonly X2: number, private readonly Y2: number) {
+        super()
+    }
+
+    private static Sample(control1: number, control2: number, t: number) {
+        const inverse = 1 - t
+        return 3 * inverse * inverse * t * control1 + 3 * inverse * t * t * control2 + t * t * t
+    }
+
+    // Finds the curve parameter at which the given elapsed time is reached.
+    private Solve(elapsedUnitInterval: number): number {
+        if (elapsedUnitInterval <= 0) return 0
+        if (elapsedUnitInterval >= 1) return 1
+        let lower = 0
+        let upper = 1
+        let t = elapsedUnitInterval
+        for (let iteration = 0; iteration < 32; iteration++) {
+            const error = CubicBezierEasing.Sample(this.X1, this.X2, t) - elapsedUnitInterval
+            if (Math.abs(error) < 0.000001) break
+            if (error > 0) upper = t
+            else lower = t
+            t = (lower + upper) / 2
+        }
+        return t
+    }
+
+    Apply(elapsedUnitInterval: number): number {
+        if (elapsedUnitInterval >= 1) return 1
+        return CubicBezierEasing.Sample(this.Y1, this.Y2, this.Solve(elapsedUnitInterval))
+    }
+
+    CssRemainder(elapsedUnitInterval: number): string | undefined {
+        if (this.X1 == this.Y1 && this.X2 == this.Y2) return "linear"
+        // Splitting a cubic Bezier curve gives another cubic Bezier curve, which is rescaled to fit the remaining time and distance.
+        const t = this.Solve(elapsedUnitInterval)
+        const startX = CubicBezierEasing.Sample(this.X1, this.X2, t)
+        const startY = CubicBezierEasing.Sample(this.Y1, this.Y2, t)
+        if (startX >= 1 || startY == 1) return "linear"
+        const control1X = Mix(Mix(this.X1, this.X2, t), Mix(this.X2, 1, t), t)
+        const control1Y = Mix(Mix(this.Y1, this.Y2, t), Mix(this.Y2, 1, t), t)
+        const control2X = Mix(this.X2, 1, t)
+        const control2Y = Mix(this.Y2, 1, t)
+        return `cubic-bezier(${(control1X - startX) / (1 - startX)}, ${(control1Y - startY) / (1 - startY)}, ${(control2X - startX) / (1 - startX)}, ${(control2Y - startY) / (1 - startY)})`
+    }
+}
+
+class StepsEasing extends Easing {
+    constructor(private readonly Count: number, private readonly JumpAtStart: boolean) {
+        super()
+    }
+
+    Apply(elapsedUnitInterval: number): number {
+        if (elapsedUnitInterval >= 1) return 1
+        if (elapsedUnitInterval < 0) return 0
+        const step = Math.floor(elapsedUnitInterval * this.Count) + (this.JumpAtStart ? 1 : 0)
+        return Math.min(this.Count, step) / this.Count
+    }
+
+    // Steps cannot be resumed part-way through using CSS, as the remaining steps do not evenly divide the remaining time.
+    CssRemainder(): string | undefined {
+        return undefined
+    }
+}
+
+namespace Easing {
+    export const Linear: Easing = new CubicBezierEasing(0, 0, 1, 1)
+    export const EaseIn: Easing = new CubicBezierEasing(0.42, 0, 1, 1)
+    export const EaseOut: Easing = new CubicBezierEasing(0, 0, 0.58, 1)
+    export const EaseInOut: Easing = new CubicBezierEasing(0.42, 0, 0.58, 1)
+
+    export function CubicBezier(x1: number, y1: number, x2: number, y2: number): Easing {
+        return new CubicBezierEasing(Math.max(0, Math.min(1, x1)), y1, Math.max(0, Math.min(1, x2)), y2)
+    }
+
+    export function Steps(count: number, jumpAtStart?: boolean): Easing {
+        return new StepsEasing(Math.max(1, Math.round(count)), !!jumpAtStart)
+    }
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+class TiledMap {
+    readonly Columns: number
+    readonly Rows: number
+    readonly TileWidthVirtualPixels: number
+    readonly TileHeightVirtualPixels: number
+    readonly Layers: { readonly [name: string]: TilemapLayout }
+    readonly ObjectLayers: { readonly [name: string]: TiledObject[] }
+    readonly Properties: { readonly [name: string]: TiledProperty }
+    // Content cannot refer to other content while it is being created, so the tileset is looked up when first used.
+    private readonly CreateTileset: () => SpriteFrame[]
+    private TilesetValue?: SpriteFrame[]
+
+    constructor(
+        columns: number,
+        rows: number,
+        tileWidthVirtualPixels: number,
+        tileHeightVirtualPixels: number,
+        createTileset: () => SpriteFrame[],
+        layers: { readonly [name: string]: TilemapLayout },
+        objectLayers: { readonly [name: string]: TiledObject[] },
+        properties: { readonly [name: string]: TiledProperty }
+    ) {
+        this.Columns = columns
+        this.Rows = rows
+        this.TileWidthVirtualPixels = tileWidthVirtualPixels
+        this.TileHeightVirtualPixels = tileHeightVirtualPixels
+        this.CreateTileset = createTileset
+        this.Layers = layers
+        this.ObjectLayers = objectLayers
+        this.Properties = properties
+    }
+
+    Tileset(): SpriteFrame[] {
+        return this.TilesetValue = this.TilesetValue || this.CreateTileset()
+    }
+}
\ No newline at end of file
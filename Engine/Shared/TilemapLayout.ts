@@ -0,0 +1,13 @@
+class TilemapLayout {
+    readonly Columns: number
+    readonly Rows: number
+    // Indices into a tileset, row by row from the top left, where -1 is empty.
+    readonly Tiles: number[]
+
+    constructor(columns: number, rows: number, tiles?: number[]) {
+        this.Columns = columns
+        this.Rows = rows
+        this.Tiles = tiles || []
+        while (this.Tiles.length < columns * rows) this.Tiles.push(-1)
+    }
+}
\ No newline at end of file
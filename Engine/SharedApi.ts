@@ -78,6 +78,45 @@ declare class RecurringEvent<T extends Function> {
     readonly Raise: T
 }
 
+/** Describes how progress through a motion accelerates and decelerates over time. */
+declare abstract class Easing {
+    /** Converts elapsed time to progress.
+     * @param {float} elapsedUnitInterval The proportion of the motion's duration which has elapsed, where 0 is the start and 1 is the end.
+     * @returns {float} The proportion of the distance covered, where 0 is the start and 1 is the end.  May fall outside this range for curves which overshoot.
+     */
+    Apply(elapsedUnitInterval: number): number
+}
+
+declare namespace Easing {
+    /** Progresses at a constant rate. */
+    const Linear: Easing
+
+    /** Starts slowly and accelerates; equivalent to CSS "ease-in". */
+    const EaseIn: Easing
+
+    /** Starts quickly and decelerates; equivalent to CSS "ease-out". */
+    const EaseOut: Easing
+
+    /** Starts slowly, accelerates, then decelerates; equivalent to CSS "ease-in-out". */
+    const EaseInOut: Easing
+
+    /** Creates an Easing from a cubic Bezier curve from (0, 0) to (1, 1); equivalent to CSS "cubic-bezier(...)".
+     * @param {float} x1 The elapsed time of the first control point.  Clamped to 0...1.
+     * @param {float} y1 The progress of the first control point.
+     * @param {float} x2 The elapsed time of the second control point.  Clamped to 0...1.
+     * @param {float} y2 The progress of the second control point.
+     * @returns {Easing} An Easing following the described curve.
+     */
+    function CubicBezier(x1: number, y1: number, x2: number, y2: number): Easing
+
+    /** Creates an Easing which jumps between a number of evenly spaced positions; equivalent to CSS "steps(...)".
+     * @param {integer} count The number of jumps to make.
+     * @param {?boolean} jumpAtStart When true, the first jump is made immediately at the start of the motion.  When false, the last jump is made at the end of the motion.  Defaults to false.
+     * @returns {Easing} An Easing jumping between the described positions.
+     */
+    function Steps(count: number, jumpAtStart?: boolean): Easing
+}
+
 declare class Font {
     /** A container for SpriteFrames representing a bitmap font, including kerning data.
      * @param {{ [character: string]: SpriteFrame }} characterSpriteFrames A map of characters to SpriteFrames to draw.  The origin should be the lefthand edge of the character at the cap height.  Missing characters will be treated as whitespace.
@@ -124,4 +163,51 @@ declare class Font {
      * @returns {string} The given text, including line breaks to wrap it to the given number of virtual pixels in width when rendered using this Font.
      */
     Wrap(text: string, widthVirtualPixels: number): string
+}
+
+declare class TilemapLayout {
+    /** A grid of indices into a tileset, drawn using a Tilemap.  Imported from "tilemap" content, or created by code.
+     * @param {integer} columns The number of columns of tiles.
+     * @param {integer} rows The number of rows of tiles.
+     * @param {?integer[]} tiles Indices into a tileset, row by row from the top left, where -1 is empty.  Any tiles not given are empty.
+     */
+    constructor(columns: number, rows: number, tiles?: number[])
+
+    /** The number of columns of tiles. */
+    readonly Columns: number
+
+    /** The number of rows of tiles. */
+    readonly Rows: number
+
+    /** Indices into a tileset, row by row from the top left, where -1 is empty. */
+    readonly Tiles: number[]
+}
+
+/** A map imported from Tiled, as "*.map.tmx" or "*.map.json" content.  Its tilesets must be collections of images, each of which is a "*.sprite.png" in the Game directory.  Layers, object layers and properties are found by name, and are strongly typed. */
+declare abstract class TiledMap {
+    /** The number of columns of tiles in every layer. */
+    readonly Columns: number
+
+    /** The number of rows of tiles in every layer. */
+    readonly Rows: number
+
+    /** The number of virtual pixels between the left borders of horizontally adjacent tiles. */
+    readonly TileWidthVirtualPixels: number
+
+    /** The number of virtual pixels between the top borders of vertically adjacent tiles. */
+    readonly TileHeightVirtualPixels: number
+
+    /** The tile layers, by name.  Groups of layers are flattened. */
+    readonly Layers: { readonly [name: string]: TilemapLayout }
+
+    /** The objects in each object layer, by name.  Groups of layers are flattened. */
+    readonly ObjectLayers: { readonly [name: string]: TiledObject[] }
+
+    /** The custom properties set on the map, by name. */
+    readonly Properties: { readonly [name: string]: TiledProperty }
+
+    /** Gets the SpriteFrames which tile indices in Layers and ObjectLayers refer to, for use with a Tilemap.
+     * @returns {SpriteFrame[]} The SpriteFrames which tile indices in Layers and ObjectLayers refer to.
+     */
+    Tileset(): SpriteFrame[]
 }
\ No newline at end of file
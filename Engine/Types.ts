@@ -22,6 +22,270 @@ declare const enum VerticalAlignment {
     Bottom
 }
 
+/** Identifies a key on a keyboard. */
+declare const enum Key {
+    /** The backspace key. */
+    Backspace = 8,
+
+    /** The tab key. */
+    Tab = 9,
+
+    /** The enter/return key. */
+    Enter = 13,
+
+    /** Either shift key. */
+    Shift = 16,
+
+    /** Either control key. */
+    Control = 17,
+
+    /** Either alt key. */
+    Alt = 18,
+
+    /** The escape key. */
+    Escape = 27,
+
+    /** The space bar. */
+    Space = 32,
+
+    /** The page up key. */
+    PageUp = 33,
+
+    /** The page down key. */
+    PageDown = 34,
+
+    /** The end key. */
+    End = 35,
+
+    /** The home key. */
+    Home = 36,
+
+    /** The left arrow key. */
+    Left = 37,
+
+    /** The up arrow key. */
+    Up = 38,
+
+    /** The right arrow key. */
+    Right = 39,
+
+    /** The down arrow key. */
+    Down = 40,
+
+    /** The insert key. */
+    Insert = 45,
+
+    /** The delete key. */
+    Delete = 46,
+
+    /** The "0" key above the letters (not on the numeric keypad). */
+    Digit0 = 48,
+
+    /** The "1" key above the letters (not on the numeric keypad). */
+    Digit1 = 49,
+
+    /** The "2" key above the letters (not on the numeric keypad). */
+    Digit2 = 50,
+
+    /** The "3" key above the letters (not on the numeric keypad). */
+    Digit3 = 51,
+
+    /** The "4" key above the letters (not on the numeric keypad). */
+    Digit4 = 52,
+
+    /** The "5" key above the letters (not on the numeric keypad). */
+    Digit5 = 53,
+
+    /** The "6" key above the letters (not on the numeric keypad). */
+    Digit6 = 54,
+
+    /** The "7" key above the letters (not on the numeric keypad). */
+    Digit7 = 55,
+
+    /** The "8" key above the letters (not on the numeric keypad). */
+    Digit8 = 56,
+
+    /** The "9" key above the letters (not on the numeric keypad). */
+    Digit9 = 57,
+
+    /** The "A" key. */
+    A = 65,
+
+    /** The "B" key. */
+    B = 66,
+
+    /** The "C" key. */
+    C = 67,
+
+    /** The "D" key. */
+    D = 68,
+
+    /** The "E" key. */
+    E = 69,
+
+    /** The "F" key. */
+    F = 70,
+
+    /** The "G" key. */
+    G = 71,
+
+    /** The "H" key. */
+    H = 72,
+
+    /** The "I" key. */
+    I = 73,
+
+    /** The "J" key. */
+    J = 74,
+
+    /** The "K" key. */
+    K = 75,
+
+    /** The "L" key. */
+    L = 76,
+
+    /** The "M" key. */
+    M = 77,
+
+    /** The "N" key. */
+    N = 78,
+
+    /** The "O" key. */
+    O = 79,
+
+    /** The "P" key. */
+    P = 80,
+
+    /** The "Q" key. */
+    Q = 81,
+
+    /** The "R" key. */
+    R = 82,
+
+    /** The "S" key. */
+    S = 83,
+
+    /** The "T" key. */
+    T = 84,
+
+    /** The "U" key. */
+    U = 85,
+
+    /** The "V" key. */
+    V = 86,
+
+    /** The "W" key. */
+    W = 87,
+
+    /** The "X" key. */
+    X = 88,
+
+    /** The "Y" key. */
+    Y = 89,
+
+    /** The "Z" key. */
+    Z = 90
+}
+
+/** Identifies a button on a gamepad using the "standard" layout. */
+declare const enum GamepadStandardButton {
+    /** The bottom face button (A on Xbox controllers, cross on PlayStation controllers). */
+    A,
+
+    /** The right face button (B on Xbox controllers, circle on PlayStation controllers). */
+    B,
+
+    /** The left face button (X on Xbox controllers, square on PlayStation controllers). */
+    X,
+
+    /** The top face button (Y on Xbox controllers, triangle on PlayStation controllers). */
+    Y,
+
+    /** The left shoulder button. */
+    LeftBumper,
+
+    /** The right shoulder button. */
+    RightBumper,
+
+    /** The left trigger. */
+    LeftTrigger,
+
+    /** The right trigger. */
+    RightTrigger,
+
+    /** The left center button (back, select, share, etc.). */
+    Select,
+
+    /** The right center button (start, options, etc.). */
+    Start,
+
+    /** Pressing down on the left stick. */
+    LeftStick,
+
+    /** Pressing down on the right stick. */
+    RightStick,
+
+    /** The up button on the directional pad. */
+    Up,
+
+    /** The down button on the directional pad. */
+    Down,
+
+    /** The left button on the directional pad. */
+    Left,
+
+    /** The right button on the directional pad. */
+    Right
+}
+
+/** Describes the order in which a scene object's children are drawn. */
+declare const enum SortMode {
+    /** Children are drawn in the order they were added (or brought to the front/sent to the back), so that later children are drawn over earlier ones. */
+    InsertionOrder,
+
+    /** Children nearer the bottom of the screen are drawn over those nearer the top, as is typical of top-down games.  Static sprites are drawn beneath other children. */
+    VirtualPixelsFromTop
+}
+
+/** Describes the order in which a Sprite shows the frames of an animation. */
+declare const enum PlaybackDirection {
+    /** Frames are shown from first to last. */
+    Forward,
+
+    /** Frames are shown from last to first. */
+    Reverse,
+
+    /** Frames are shown from first to last, then back to the first. */
+    PingPong
+}
+
+/** Describes a volume control in the audio mixer. */
+declare const enum MixerBus {
+    /** Controls the volume of all audio. */
+    Master,
+
+    /** Controls the volume of music. */
+    Music,
+
+    /** Controls the volume of Sounds played by scene objects. */
+    Sound,
+
+    /** Controls the volume of Dialog played by scene objects. */
+    Dialog
+}
+
+/** Describes how SpatialAudio treats Sounds and Dialog played by scene objects outside of the display. */
+declare const enum OffscreenAudio {
+    /** Scene objects outside of the display are heard the same way as those inside it. */
+    Unchanged,
+
+    /** Scene objects outside of the display are heard as though they were at its nearest edge. */
+    Clamp,
+
+    /** Scene objects outside of the display fade to silence as they move further from its edges. */
+    Fade
+}
+
 // This is a workaround for JSON https://github.com/Microsoft/TypeScript/issues/3496#issuecomment-128553540
 /** This type is part of Json, and is required to implement Json under TypeScript. */
 interface JsonArray extends Array<Json> { }
@@ -36,10 +300,12 @@ type TransitionStep = {
 
     /** The rectangles to draw during this transition. */
     readonly Rectangles: {
-        /** The state of this rectangle at the start of this step.  All values are linearly interpolated. */
+        /** The state of this rectangle at the start of this step.  All values are linearly interpolated unless an Easing is given. */
         readonly From: TransitionStepRectangleKeyFrame
-        /** The state of this rectangle at the end of this step.  All values are linearly interpolated. */
+        /** The state of this rectangle at the end of this step.  All values are linearly interpolated unless an Easing is given. */
         readonly To: TransitionStepRectangleKeyFrame
+        /** The Easing to interpolate between From and To using.  Defaults to Easing.Linear. */
+        readonly Easing?: Easing
     }[]
 }
 
@@ -68,4 +334,52 @@ type TransitionStepRectangleKeyFrame = {
 
     /** The opacity of the rectangle, where 0 is fully transparent and 1 is fully opaque. */
     readonly OpacityUnitInterval: number
+}
+
+/** The value of a custom property set in Tiled. */
+type TiledProperty = string | number | boolean
+
+/** An object placed in an object layer of a TiledMap. */
+type TiledObject = {
+    /** The name given to the object in Tiled, or an empty string. */
+    readonly Name: string
+
+    /** The type (or class) given to the object in Tiled, or an empty string. */
+    readonly Type: string
+
+    /** The number of virtual pixels between the left border of the map and the object's origin.  This is its left border, or for tile objects, its bottom left corner, as in Tiled. */
+    readonly VirtualPixelsFromLeft: number
+
+    /** The number of virtual pixels between the top border of the map and the object's origin.  This is its top border, or for tile objects, its bottom left corner, as in Tiled. */
+    readonly VirtualPixelsFromTop: number
+
+    /** The width of the object in virtual pixels, or 0 for points. */
+    readonly WidthVirtualPixels: number
+
+    /** The height of the object in virtual pixels, or 0 for points. */
+    readonly HeightVirtualPixels: number
+
+    /** The number of degrees the object is rotated clockwise around its origin. */
+    readonly RotationDegrees: number
+
+    /** The index into the map's tileset of the tile drawn by the object, or -1 when it does not draw a tile. */
+    readonly Tile: number
+
+    /** The custom properties set on the object in Tiled, by name. */
+    readonly Properties: { readonly [name: string]: TiledProperty }
+}
+
+/** A named rectangle within a SpriteFrame, drawn as a slice in Aseprite. */
+type SpriteSlice = {
+    /** The number of virtual pixels between the SpriteFrame's origin and the left border of the slice.  Negative values are to the left. */
+    readonly LeftVirtualPixels: number
+
+    /** The number of virtual pixels between the SpriteFrame's origin and the top border of the slice.  Negative values are above. */
+    readonly TopVirtualPixels: number
+
+    /** The width of the slice in virtual pixels. */
+    readonly WidthVirtualPixels: number
+
+    /** The height of the slice in virtual pixels. */
+    readonly HeightVirtualPixels: number
 }
\ No newline at end of file
@@ -6,8 +6,23 @@
 /// <reference path="Demos/SaveLoad.ts" />
 /// <reference path="Demos/Transitions.ts" />
 /// <reference path="Demos/Sounds.ts" />
+/// <reference path="Demos/Dialog.ts" />
 /// <reference path="Demos/Music.ts" />
 /// <reference path="Demos/BouncingBalls.ts" />
+/// <reference path="Demos/Input.ts" />
+/// <reference path="Demos/Pointer.ts" />
+/// <reference path="Demos/Easing.ts" />
+/// <reference path="Demos/Transforms.ts" />
+/// <reference path="Demos/ZOrder.ts" />
+/// <reference path="Demos/Reparenting.ts" />
+/// <reference path="Demos/Timeline.ts" />
+/// <reference path="Demos/Mixer.ts" />
+/// <reference path="Demos/SpatialAudio.ts" />
+/// <reference path="Demos/Camera.ts" />
+/// <reference path="Demos/Tilemap.ts" />
+/// <reference path="Demos/TiledMap.ts" />
+/// <reference path="Demos/Collision.ts" />
+/// <reference path="Demos/Playback.ts" />
 
 function DemoMenu() {
     const demos: {
@@ -40,12 +55,57 @@ function DemoMenu() {
     }, {
         Label: "Sounds",
         Run: SoundsDemo
+    }, {
+        Label: "Dialog",
+        Run: DialogDemo
     }, {
         Label: "Music",
         Run: MusicDemo
     }, {
         Label: "Bouncing Balls",
         Run: BouncingBallsDemo
+    }, {
+        Label: "Input",
+        Run: InputDemo
+    }, {
+        Label: "Pointer",
+        Run: PointerDemo
+    }, {
+        Label: "Easing",
+        Run: EasingDemo
+    }, {
+        Label: "Transforms",
+        Run: TransformsDemo
+    }, {
+        Label: "Z-Order",
+        Run: ZOrderDemo
+    }, {
+        Label: "Reparenting",
+        Run: ReparentingDemo
+    }, {
+        Label: "Timeline",
+        Run: TimelineDemo
+    }, {
+        Label: "Mixer",
+        Run: MixerDemo
+    }, {
+        Label: "Spatial Audio",
+        Run: SpatialAudioDemo
+    }, {
+        Label: "Camera",
+        Run: CameraDemo
+    }, {
+        Label: "Tilemap",
+        Run: TilemapDemo
+    }, {
+        Label: "Tiled Map",
+        Run: TiledMapDemo
+    }, {
+        Label: "Collision",
+        Run: CollisionDemo
+    }, {
+        Label: "Playback",
+        Run: PlaybackDemo
     }]
 
     const middleViewport = new Viewport()
@@ -0,0 +1,70 @@
+function CameraDemo() {
+    const worldWidthVirtualPixels = WidthVirtualPixels * 3
+    const worldHeightVirtualPixels = HeightVirtualPixels * 3
+
+    const middleViewport = new Viewport()
+    const camera = new Camera(middleViewport)
+    for (let x = 0; x <= worldWidthVirtualPixels; x += 80) for (let y = 0; y <= worldHeightVirtualPixels; y += 60) {
+        const marker = new Group(camera.World)
+        marker.Move(x, y)
+        FontBig.Write(marker, `${x / 80},${y / 60}`, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    const player = new Group(camera.World)
+    player.Move(worldWidthVirtualPixels / 2, worldHeightVirtualPixels / 2)
+    FontBig.Write(player, "Player", HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    function Wander() {
+        player.MoveAt(Math.random() * worldWidthVirtualPixels, Math.random() * worldHeightVirtualPixels, 80, Wander)
+    }
+    Wander()
+
+    let following = true
+    camera.Follow(player, 96, 48)
+    let bounded = true
+    camera.SetBounds(0, 0, worldWidthVirtualPixels, worldHeightVirtualPixels)
+
+    const buttons = [{
+        Label: "Follow",
+        Action: () => {
+            following = !following
+            if (following) camera.Follow(player, 96, 48)
+            else camera.Unfollow()
+        }
+    }, {
+        Label: "Pan",
+        Action: () => {
+            following = false
+            camera.MoveAt(Math.random() * worldWidthVirtualPixels, Math.random() * worldHeightVirtualPixels, 200, undefined, Easing.EaseInOut)
+        }
+    }, {
+        Label: "Shake",
+        Action: () => camera.Shake(8, 0.5)
+    }, {
+        Label: "Bounds",
+        Action: () => {
+            bounded = !bounded
+            if (bounded) camera.SetBounds(0, 0, worldWidthVirtualPixels, worldHeightVirtualPixels)
+            else camera.ClearBounds()
+        }
+    }, {
+        Label: "Clap",
+        Action: () => player.PlaySound(Content.Demos.Sounds.Clap)
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+function CollisionDemo() {
+    const middleViewport = new Viewport()
+
+    const player = new Sprite(middleViewport)
+    player.Loop(Content.Demos.SceneGraph.Sprite.Idle)
+    player.Move(WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+    player.OnOverlapEnter(other => other.Fade(0.25))
+    player.OnOverlapExit(other => other.Fade(1))
+
+    const ballSize = 32
+    for (let i = 0; i < 6; i++) {
+        const ball = new Sprite(middleViewport)
+        ball.Loop(Content.Demos.BouncingBalls.Red)
+        ball.Move(ballSize + Math.random() * (WidthVirtualPixels - ballSize * 2), ballSize + i * (HeightVirtualPixels - ballSize * 3) / 5)
+        let movingRight = Math.random() < 0.5
+        MoveAgain()
+        function MoveAgain() {
+            ball.MoveAt(movingRight ? WidthVirtualPixels - ballSize : ballSize, ball.VirtualPixelsFromTop(), 60 + Math.random() * 60, MoveAgain)
+            movingRight = !movingRight
+        }
+    }
+
+    const buttons = [{
+        Label: "Up",
+        Action: () => player.MoveOver(player.VirtualPixelsFromLeft(), Math.max(ballSize, player.VirtualPixelsFromTop() - ballSize), 0.5)
+    }, {
+        Label: "Down",
+        Action: () => player.MoveOver(player.VirtualPixelsFromLeft(), Math.min(HeightVirtualPixels - ballSize * 2, player.VirtualPixelsFromTop() + ballSize), 0.5)
+    }, {
+        Label: "Pop",
+        Action: () => {
+            for (const other of middleViewport.ObjectsWithin(player.VirtualPixelsFromLeft() - ballSize, player.VirtualPixelsFromTop() - ballSize, ballSize * 2, ballSize * 2)) if (other != player) other.Delete()
+        }
+    }, {
+        Label: "Pause",
+        Action: () => middleViewport.Pause()
+    }, {
+        Label: "Resume",
+        Action: () => middleViewport.Resume()
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
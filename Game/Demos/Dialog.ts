@@ -0,0 +1,43 @@
+function DialogDemo() {
+    const middleViewport = new Viewport()
+    const speaker = new Group(middleViewport)
+    speaker.Move(WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+    FontBig.Write(speaker, "Speaker", HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    let movingRight = false
+    function Move() {
+        movingRight = !movingRight
+        speaker.MoveAt(movingRight ? WidthVirtualPixels - 64 : 64, HeightVirtualPixels / 2, 150, Move)
+    }
+    Move()
+
+    const buttons = [{
+        Label: "Melody",
+        Action: () => speaker.PlayDialog(Content.Demos.Dialog.LongMelody)
+    }, {
+        Label: "Rhythm",
+        Action: () => speaker.PlayDialog(Content.Demos.Dialog.LongRhythm)
+    }, {
+        Label: "Pause",
+        Action: () => speaker.Pause()
+    }, {
+        Label: "Resume",
+        Action: () => speaker.Resume()
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
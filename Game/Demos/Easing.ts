@@ -0,0 +1,65 @@
+function EasingDemo() {
+    const middleViewport = new Viewport()
+    const easings = [{
+        Label: "Linear",
+        Easing: Easing.Linear
+    }, {
+        Label: "EaseIn",
+        Easing: Easing.EaseIn
+    }, {
+        Label: "EaseOut",
+        Easing: Easing.EaseOut
+    }, {
+        Label: "EaseInOut",
+        Easing: Easing.EaseInOut
+    }, {
+        Label: "CubicBezier",
+        Easing: Easing.CubicBezier(0.5, -0.5, 0.5, 1.5)
+    }, {
+        Label: "Steps",
+        Easing: Easing.Steps(6)
+    }]
+
+    const ballSize = 32
+    const left = WidthVirtualPixels / 4
+    const right = WidthVirtualPixels - ballSize
+    const rowHeight = (HeightVirtualPixels - ButtonHeight) / easings.length
+    for (const easing of easings) {
+        const top = (IndexOf(easings, easing) + 0.5) * rowHeight
+        FontBig.Write(middleViewport, easing.Label, HorizontalAlignment.Left, VerticalAlignment.Middle, 4, top)
+        const ball = new Sprite(middleViewport)
+        ball.Loop(Content.Demos.BouncingBalls.Red)
+        ball.Move(left, top)
+        let movingRight = true
+        MoveAgain()
+        function MoveAgain() {
+            ball.MoveOver(movingRight ? right : left, top, 2, MoveAgain, easing.Easing)
+            movingRight = !movingRight
+        }
+    }
+
+    const buttons = [{
+        Label: "Pause",
+        Action: () => middleViewport.Pause()
+    }, {
+        Label: "Resume",
+        Action: () => middleViewport.Resume()
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
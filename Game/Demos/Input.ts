@@ -0,0 +1,69 @@
+function InputDemo() {
+    const middleViewport = new Viewport()
+    const player = new Group(middleViewport)
+    player.Move(WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+    FontBig.Write(player, "Player", HorizontalAlignment.Middle, VerticalAlignment.Middle)
+
+    const margin = 32
+    const actions = ["Left", "Right", "Up", "Down"]
+
+    function Bind(left: Key, right: Key, up: Key, down: Key) {
+        for (const action of actions) Input.Unbind(action)
+        Input.BindKey("Left", left)
+        Input.BindKey("Right", right)
+        Input.BindKey("Up", up)
+        Input.BindKey("Down", down)
+        Input.BindGamepadButton("Left", GamepadStandardButton.Left)
+        Input.BindGamepadButton("Right", GamepadStandardButton.Right)
+        Input.BindGamepadButton("Up", GamepadStandardButton.Up)
+        Input.BindGamepadButton("Down", GamepadStandardButton.Down)
+    }
+    Bind(Key.Left, Key.Right, Key.Up, Key.Down)
+
+    function Steer() {
+        const horizontal = (Input.Held("Right") ? 1 : 0) - (Input.Held("Left") ? 1 : 0)
+        const vertical = (Input.Held("Down") ? 1 : 0) - (Input.Held("Up") ? 1 : 0)
+        const x = horizontal ? (horizontal > 0 ? WidthVirtualPixels - margin : margin) : player.VirtualPixelsFromLeft()
+        const y = vertical ? (vertical > 0 ? HeightVirtualPixels - margin : margin) : player.VirtualPixelsFromTop()
+        if (horizontal || vertical)
+            player.MoveAt(x, y, 100)
+        else
+            player.Move(x, y)
+    }
+    Input.Pressed.Listen(Steer)
+    Input.Released.Listen(Steer)
+
+    const buttons = [{
+        Label: "Arrows",
+        Action: () => Bind(Key.Left, Key.Right, Key.Up, Key.Down)
+    }, {
+        Label: "WASD",
+        Action: () => Bind(Key.A, Key.D, Key.W, Key.S)
+    }, {
+        Label: "Save",
+        Action: () => Input.SaveBindings("InputDemo")
+    }, {
+        Label: "Load",
+        Action: () => Input.LoadBindings("InputDemo")
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        Input.Pressed.Unlisten(Steer)
+        Input.Released.Unlisten(Steer)
+        for (const action of actions) Input.Unbind(action)
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
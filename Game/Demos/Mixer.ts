@@ -0,0 +1,98 @@
+function MixerDemo() {
+    const middleViewport = new Viewport()
+    Music.Set(Content.Demos.Music.Classical)
+
+    const buses = [{
+        Label: "Master",
+        Bus: MixerBus.Master
+    }, {
+        Label: "Music",
+        Bus: MixerBus.Music
+    }, {
+        Label: "Sound",
+        Bus: MixerBus.Sound
+    }, {
+        Label: "Dialog",
+        Bus: MixerBus.Dialog
+    }]
+    let selected = 0
+    let status = ""
+
+    let textGroup: Group | undefined = undefined
+    function Refresh() {
+        if (textGroup) textGroup.Delete()
+        textGroup = new Group(middleViewport)
+        let text = ""
+        for (const bus of buses) {
+            text += `${IndexOf(buses, bus) == selected ? ">" : " "} ${bus.Label}: ${Math.round(Mixer.Volume(bus.Bus) * 100)}%`
+            if (Mixer.Muted(bus.Bus)) text += " (muted)"
+            text += "\n"
+        }
+        text += `\n${status}`
+        FontBig.Write(textGroup, text, HorizontalAlignment.Middle, VerticalAlignment.Middle, WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+    }
+    Refresh()
+
+    function Changed() {
+        status = ""
+        Refresh()
+        middleViewport.PlaySound(Content.Demos.Sounds.Piano)
+    }
+
+    const buttons = [{
+        Label: "Bus",
+        Action: () => {
+            selected = (selected + 1) % buses.length
+            Refresh()
+        }
+    }, {
+        Label: "-",
+        Action: () => {
+            Mixer.SetVolume(buses[selected].Bus, Math.round(Mixer.Volume(buses[selected].Bus) * 10 - 1) / 10)
+            Changed()
+        }
+    }, {
+        Label: "+",
+        Action: () => {
+            Mixer.SetVolume(buses[selected].Bus, Math.round(Mixer.Volume(buses[selected].Bus) * 10 + 1) / 10)
+            Changed()
+        }
+    }, {
+        Label: "Mute",
+        Action: () => {
+            if (Mixer.Muted(buses[selected].Bus)) Mixer.Unmute(buses[selected].Bus)
+            else Mixer.Mute(buses[selected].Bus)
+            Changed()
+        }
+    }, {
+        Label: "Save",
+        Action: () => {
+            status = Mixer.SaveSettings("Mixer") ? "Saved." : "Could not save."
+            Refresh()
+        }
+    }, {
+        Label: "Load",
+        Action: () => {
+            status = Mixer.LoadSettings("Mixer") ? "Loaded." : "Could not load."
+            Refresh()
+        }
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        Music.Stop()
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
@@ -1,18 +1,44 @@
 function MusicDemo() {
+    const middleViewport = new Viewport()
     const bottomViewport = new Viewport(0, 1)
 
+    let textGroup: Group | undefined = undefined
+    function ShowStatus(text: string) {
+        if (textGroup) textGroup.Delete()
+        textGroup = new Group(middleViewport)
+        FontBig.Write(textGroup, text, HorizontalAlignment.Middle, VerticalAlignment.Middle, WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+    }
+    const ShowProgress = (progressUnitInterval: number) => ShowStatus(`Downloading (${Math.floor(progressUnitInterval * 100)}%)...`)
+
     const buttons = [{
         Label: "Classical",
-        Action: () => Music.Set(Content.Demos.Music.Classical)
+        Action: () => Music.Set(Content.Demos.Music.Classical, 2)
     }, {
         Label: "Synth",
-        Action: () => Music.Set(Content.Demos.Music.Synth)
+        Action: () => Music.Set(Content.Demos.Music.Synth, 2)
     }, {
         Label: "Easy L.",
-        Action: () => Music.Set(Content.Demos.Music.EasyListening)
+        Action: () => Music.Set(Content.Demos.Music.EasyListening, 2)
+    }, {
+        Label: "List",
+        Action: () => Music.Playlist([Content.Demos.Music.Classical, Content.Demos.Music.Synth, Content.Demos.Music.EasyListening], true, 2)
     }, {
         Label: "Stop",
-        Action: () => Music.Stop()
+        Action: () => Music.Stop(1)
+    }, {
+        Label: "Preload",
+        Action: () => {
+            const music = [Content.Demos.Music.Classical, Content.Demos.Music.Synth, Content.Demos.Music.EasyListening]
+            let remaining = music.length
+            let failed = false
+            ShowProgress(AudioCache.Progress())
+            for (const track of music) AudioCache.PreloadMusic(track).Listen(loaded => {
+                if (!loaded) failed = true
+                remaining--
+                if (remaining) return
+                ShowStatus(failed ? "Some music could not be downloaded." : "All music is downloaded.")
+            })
+        }
     }]
 
     for (const button of buttons) {
@@ -26,8 +52,12 @@ function MusicDemo() {
         FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
     }
 
+    AudioCache.ProgressChanged.Listen(ShowProgress)
+
     return () => {
+        AudioCache.ProgressChanged.Unlisten(ShowProgress)
         Music.Stop()
+        middleViewport.Delete()
         bottomViewport.Delete()
     }
 }
\ No newline at end of file
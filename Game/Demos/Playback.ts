@@ -0,0 +1,52 @@
+function PlaybackDemo() {
+    const middleViewport = new Viewport()
+
+    const sprite = new Sprite(middleViewport)
+    sprite.Loop(Content.Markers.AlternativeStrobeBounds.TopLeft)
+    sprite.Move(WidthVirtualPixels / 4, HeightVirtualPixels / 2)
+    let movingRight = true
+    MoveAgain()
+    function MoveAgain() {
+        sprite.MoveOver(movingRight ? WidthVirtualPixels * 3 / 4 : WidthVirtualPixels / 4, HeightVirtualPixels / 2, 2, MoveAgain, Easing.EaseInOut)
+        movingRight = !movingRight
+    }
+
+    const directions = [PlaybackDirection.Forward, PlaybackDirection.Reverse, PlaybackDirection.PingPong]
+
+    const buttons = [{
+        Label: "Slower",
+        Action: () => sprite.SetPlaybackRate(Math.max(0.25, sprite.PlaybackRate() / 2))
+    }, {
+        Label: "Faster",
+        Action: () => sprite.SetPlaybackRate(Math.min(4, sprite.PlaybackRate() * 2))
+    }, {
+        Label: "Direction",
+        Action: () => sprite.SetPlaybackDirection(directions[(IndexOf(directions, sprite.PlaybackDirection()) + 1) % directions.length])
+    }, {
+        Label: "Restart",
+        Action: () => sprite.SeekFrame(0)
+    }, {
+        Label: "Pause",
+        Action: () => sprite.PauseAnimation()
+    }, {
+        Label: "Resume",
+        Action: () => sprite.ResumeAnimation()
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+function PointerDemo() {
+    const middleViewport = new Viewport()
+
+    let statusGroup: Group | undefined = undefined
+    function Status(text: string) {
+        if (statusGroup) statusGroup.Delete()
+        statusGroup = new Group(middleViewport)
+        FontBig.Write(statusGroup, text, HorizontalAlignment.Middle, VerticalAlignment.Top, WidthVirtualPixels / 2, 8)
+    }
+    Status("Hover over, press or drag the handle")
+
+    const handle = new Group(middleViewport)
+    handle.Move(WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+    const handleSprite = new Sprite(handle).Loop(Content.Buttons.Narrow.Unpressed)
+    FontBig.Write(handle, "Handle", HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    handle
+        .OnHoverEnter(() => handleSprite.Loop(Content.Buttons.Narrow.Pressed))
+        .OnHoverLeave(() => handleSprite.Loop(Content.Buttons.Narrow.Unpressed))
+        .OnPointerDown((virtualPixelsFromLeft, virtualPixelsFromTop) => Status(`Down at ${Math.round(virtualPixelsFromLeft)}, ${Math.round(virtualPixelsFromTop)}`))
+        .OnPointerUp((virtualPixelsFromLeft, virtualPixelsFromTop) => Status(`Up at ${Math.round(virtualPixelsFromLeft)}, ${Math.round(virtualPixelsFromTop)}`))
+        .OnDrag((virtualPixelsRight, virtualPixelsDown) => handle.Move(handle.VirtualPixelsFromLeft() + virtualPixelsRight, handle.VirtualPixelsFromTop() + virtualPixelsDown), () => Status("Dropped"))
+
+    const buttons = [{
+        Label: "Enable",
+        Action: () => handle.Enable()
+    }, {
+        Label: "Disable",
+        Action: () => handle.Disable()
+    }, {
+        Label: "Reset",
+        Action: () => handle.Move(WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
@@ -0,0 +1,48 @@
+function ReparentingDemo() {
+    const middleViewport = new Viewport()
+    const leftGroup = new Group(middleViewport)
+    leftGroup.Move(WidthVirtualPixels / 4, HeightVirtualPixels / 4)
+    FontBig.Write(leftGroup, "Left", HorizontalAlignment.Middle, VerticalAlignment.Bottom)
+    const rightGroup = new Group(middleViewport)
+    rightGroup.Move(WidthVirtualPixels * 3 / 4, HeightVirtualPixels / 4)
+    FontBig.Write(rightGroup, "Right (paused)", HorizontalAlignment.Middle, VerticalAlignment.Bottom)
+    rightGroup.Pause()
+
+    const ball = new Sprite(leftGroup)
+    ball.Loop(Content.Demos.BouncingBalls.Red)
+    let movingDown = true
+    MoveAgain()
+    function MoveAgain() {
+        ball.MoveOver(0, movingDown ? HeightVirtualPixels / 2 : 0, 2, MoveAgain)
+        movingDown = !movingDown
+    }
+
+    let inLeftGroup = true
+    const buttons = [{
+        Label: "Swap",
+        Action: () => {
+            inLeftGroup = !inLeftGroup
+            ball.MoveTo(inLeftGroup ? leftGroup : rightGroup)
+        }
+    }, {
+        Label: "Sound",
+        Action: () => ball.PlaySound(Content.Demos.Sounds.Piano)
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
@@ -10,27 +10,34 @@ function SoundsDemo() {
     }
     Move()
 
-    const sounds = [{
+    let loop: SoundHandle | undefined = undefined
+    const buttons = [{
         Label: "Clap",
-        Sound: Content.Demos.Sounds.Clap
+        Action: () => emitter.PlaySound(Content.Demos.Sounds.Clap)
     }, {
         Label: "Synth",
-        Sound: Content.Demos.Sounds.Synth
+        Action: () => emitter.PlaySound(Content.Demos.Sounds.Synth)
     }, {
         Label: "Piano",
-        Sound: Content.Demos.Sounds.Piano
+        Action: () => emitter.PlaySound(Content.Demos.Sounds.Piano)
+    }, {
+        Label: "Loop",
+        Action: () => {
+            if (loop && !loop.Stopped()) loop.Stop()
+            else loop = emitter.PlaySound(Content.Demos.Sounds.Synth).SetVolume(0.5).SetLooping(true)
+        }
     }]
 
     const bottomViewport = new Viewport(0, 1)
-    for (const sound of sounds) {
+    for (const button of buttons) {
         const buttonGroup = new Group(bottomViewport, () => {
             staticSprite.Play(Content.Buttons.Narrow.Pressed)
-            emitter.PlaySound(sound.Sound)
+            button.Action()
         })
-        buttonGroup.Move(IndexOf(sounds, sound) * (WidthVirtualPixels - ButtonNarrowWidth) / (sounds.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
         const staticSprite = new Sprite(buttonGroup)
         staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
-        FontBig.Write(buttonGroup, sound.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
     }
 
     return () => {
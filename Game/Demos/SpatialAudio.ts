@@ -0,0 +1,95 @@
+function SpatialAudioDemo() {
+    const middleViewport = new Viewport()
+    const emitter = new Group(middleViewport)
+    emitter.Move(WidthVirtualPixels / 2, HeightVirtualPixels / 4)
+    FontBig.Write(emitter, "Emitter", HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    // Wanders slightly outside of the display to demonstrate OffscreenAudio.
+    function Wander() {
+        emitter.MoveAt(Math.random() * (WidthVirtualPixels + 128) - 64, Math.random() * (HeightVirtualPixels + 128) - 64, 100, Wander)
+    }
+    Wander()
+
+    const listener = new Group(middleViewport)
+    listener.Move(WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+    FontBig.Write(listener, "Listener", HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    let listenerMovingRight = false
+    function Patrol() {
+        listenerMovingRight = !listenerMovingRight
+        listener.MoveAt(listenerMovingRight ? WidthVirtualPixels - 64 : 64, HeightVirtualPixels / 2, 30, Patrol)
+    }
+
+    const modes = [{
+        Label: "Disabled",
+        Apply: () => SpatialAudio.Disable()
+    }, {
+        Label: "Unchanged",
+        Apply: () => SpatialAudio.Enable(32, 256, OffscreenAudio.Unchanged)
+    }, {
+        Label: "Clamp",
+        Apply: () => SpatialAudio.Enable(32, 256, OffscreenAudio.Clamp)
+    }, {
+        Label: "Fade",
+        Apply: () => SpatialAudio.Enable(32, 256, OffscreenAudio.Fade, 48)
+    }]
+    let mode = 0
+    let listenerFollowed = false
+
+    let textGroup: Group | undefined = undefined
+    function Refresh() {
+        if (textGroup) textGroup.Delete()
+        textGroup = new Group(middleViewport)
+        FontBig.Write(textGroup, `Mode: ${modes[mode].Label}\nListener: ${listenerFollowed ? "moving" : "display center"}`, HorizontalAlignment.Middle, VerticalAlignment.Top, WidthVirtualPixels / 2, 8)
+    }
+    Refresh()
+
+    let loop: SoundHandle | undefined = undefined
+    const buttons = [{
+        Label: "Loop",
+        Action: () => {
+            if (loop && !loop.Stopped()) loop.Stop()
+            else loop = emitter.PlaySound(Content.Demos.Sounds.Synth).SetLooping(true)
+        }
+    }, {
+        Label: "Clap",
+        Action: () => emitter.PlaySound(Content.Demos.Sounds.Clap)
+    }, {
+        Label: "Mode",
+        Action: () => {
+            mode = (mode + 1) % modes.length
+            modes[mode].Apply()
+            Refresh()
+        }
+    }, {
+        Label: "Listen",
+        Action: () => {
+            listenerFollowed = !listenerFollowed
+            if (listenerFollowed) {
+                SpatialAudio.SetListener(listener)
+                Patrol()
+            } else {
+                SpatialAudio.SetListener()
+                listener.Move(WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+            }
+            Refresh()
+        }
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        SpatialAudio.Disable()
+        SpatialAudio.SetListener()
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
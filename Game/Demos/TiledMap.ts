@@ -0,0 +1,47 @@
+function TiledMapDemo() {
+    const map = Content.Demos.Tilemap.Dungeon
+    const middleViewport = new Viewport()
+    const world = new Group(middleViewport)
+    world.Move((WidthVirtualPixels - map.Columns * map.TileWidthVirtualPixels) / 2, (HeightVirtualPixels - map.Rows * map.TileHeightVirtualPixels) / 2)
+    new Tilemap(world, map.Tileset(), map.TileWidthVirtualPixels, map.TileHeightVirtualPixels, map.Layers.Walls)
+    FontBig.Write(middleViewport, `${map.Properties.Title}`, HorizontalAlignment.Middle, VerticalAlignment.Top, WidthVirtualPixels / 2, 0)
+
+    const labels: TiledObject[] = []
+    let ball: Sprite | undefined = undefined
+    for (const object of map.ObjectLayers.Markers) {
+        if (object.Type == "Label") {
+            labels.push(object)
+            FontBig.Write(world, `${object.Properties["Text"]}`, HorizontalAlignment.Middle, VerticalAlignment.Middle, object.VirtualPixelsFromLeft, object.VirtualPixelsFromTop)
+        }
+        if (object.Tile != -1) {
+            ball = new Sprite(world)
+            ball.Loop(map.Tileset()[object.Tile])
+            // Tile objects are positioned by their bottom left corners, but sprites are centered on their origins.
+            ball.Move(object.VirtualPixelsFromLeft + object.WidthVirtualPixels / 2, object.VirtualPixelsFromTop - object.HeightVirtualPixels / 2)
+        }
+    }
+
+    const buttons = labels.map(label => ({
+        Label: label.Name,
+        Action: () => {
+            if (ball) ball.MoveAt(label.VirtualPixelsFromLeft, label.VirtualPixelsFromTop, 100, undefined, Easing.EaseInOut)
+        }
+    }))
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
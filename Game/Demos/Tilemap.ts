@@ -0,0 +1,52 @@
+function TilemapDemo() {
+    const tileWidthVirtualPixels = 24
+    const tileHeightVirtualPixels = 24
+    const tileset = [Content.Demos.BouncingBalls.Red, Content.Markers.Anchor, Content.Demos.SceneGraph.Sprite.Idle]
+    const layout: TilemapLayout = Content.Demos.Tilemap.Level
+
+    const middleViewport = new Viewport()
+    const camera = new Camera(middleViewport)
+    const tilemap = new Tilemap(camera.World, tileset, tileWidthVirtualPixels, tileHeightVirtualPixels, layout)
+    const worldWidthVirtualPixels = tilemap.Columns() * tileWidthVirtualPixels
+    const worldHeightVirtualPixels = tilemap.Rows() * tileHeightVirtualPixels
+    camera.SetBounds(0, 0, worldWidthVirtualPixels, worldHeightVirtualPixels)
+    camera.Move(worldWidthVirtualPixels / 2, HeightVirtualPixels / 2)
+
+    const buttons = [{
+        Label: "Up",
+        Action: () => camera.MoveAt(camera.VirtualPixelsFromLeft(), 0, 200, undefined, Easing.EaseInOut)
+    }, {
+        Label: "Down",
+        Action: () => camera.MoveAt(camera.VirtualPixelsFromLeft(), worldHeightVirtualPixels, 200, undefined, Easing.EaseInOut)
+    }, {
+        Label: "Change",
+        Action: () => {
+            const column = 1 + Math.floor(Math.random() * (tilemap.Columns() - 2))
+            const row = 1 + Math.floor(Math.random() * (tilemap.Rows() - 2))
+            tilemap.SetTile(column, row, Math.floor(Math.random() * (tileset.length + 1)) - 1)
+        }
+    }, {
+        Label: "Pause",
+        Action: () => tilemap.Pause()
+    }, {
+        Label: "Resume",
+        Action: () => tilemap.Resume()
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
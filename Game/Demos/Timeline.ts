@@ -0,0 +1,61 @@
+function TimelineDemo() {
+    const middleViewport = new Viewport()
+    const ball = new Sprite(middleViewport)
+    ball.Loop(Content.Demos.BouncingBalls.Red)
+
+    const left = WidthVirtualPixels / 4
+    const right = WidthVirtualPixels * 3 / 4
+    const top = HeightVirtualPixels / 4
+    const bottom = HeightVirtualPixels / 2
+    ball.Move(left, top)
+
+    let timeline: Timeline | undefined = undefined
+    Start()
+    function Start() {
+        if (timeline) timeline.Cancel()
+        ball.Move(left, top)
+        timeline = new Timeline(ball)
+            .MoveOver(right, top, 1, Easing.EaseInOut)
+            .PlaySound(Content.Demos.Sounds.Clap)
+            .Wait(0.5)
+            .MoveAt(right, bottom, 200, Easing.EaseOut)
+            .Parallel(
+                branch => branch.Wait(0.25).PlaySound(Content.Demos.Sounds.Piano),
+                branch => branch.MoveOver(left, bottom, 1.5, Easing.Steps(6))
+            )
+            .MoveOver(left, top, 1, Easing.EaseIn)
+            .PlaySound(Content.Demos.Sounds.Synth)
+            .Call(Start)
+    }
+
+    const buttons = [{
+        Label: "Pause",
+        Action: () => { if (timeline) timeline.Pause() }
+    }, {
+        Label: "Resume",
+        Action: () => { if (timeline) timeline.Resume() }
+    }, {
+        Label: "Cancel",
+        Action: () => { if (timeline) timeline.Cancel() }
+    }, {
+        Label: "Restart",
+        Action: Start
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
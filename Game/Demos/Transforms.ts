@@ -0,0 +1,44 @@
+function TransformsDemo() {
+    const middleViewport = new Viewport()
+    const group = new Group(middleViewport)
+    group.Move(WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+    new Sprite(group).Loop(Content.Demos.BouncingBalls.Red)
+    FontBig.Write(group, "Group", HorizontalAlignment.Left, VerticalAlignment.Middle, 20)
+
+    const buttons = [{
+        Label: "Scale",
+        Action: () => group.ScaleOver(group.ScaleFactor() == 1 ? 2 : 1, 1, undefined, Easing.EaseInOut)
+    }, {
+        Label: "Rotate",
+        Action: () => group.RotateOver(group.RotationDegrees() + 90, 1, undefined, Easing.EaseOut)
+    }, {
+        Label: "Fade",
+        Action: () => group.FadeOver(group.OpacityUnitInterval() == 1 ? 0.25 : 1, 1)
+    }, {
+        Label: "Mirror",
+        Action: () => group.Mirror(!group.MirroredHorizontally(), false)
+    }, {
+        Label: "Pause",
+        Action: () => middleViewport.Pause()
+    }, {
+        Label: "Resume",
+        Action: () => middleViewport.Resume()
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+function ZOrderDemo() {
+    const middleViewport = new Viewport()
+    const group = new Group(middleViewport)
+    const ballSize = 32
+    const balls: Sprite[] = []
+    for (let i = 0; i < 8; i++) {
+        const ball = new Sprite(group)
+        ball.Loop(Content.Demos.BouncingBalls.Red)
+        balls.push(ball)
+        ball.Move(ballSize + Math.random() * (WidthVirtualPixels - ballSize * 2), ballSize + Math.random() * (HeightVirtualPixels - ButtonHeight - ballSize * 2))
+        MoveAgain()
+        function MoveAgain() {
+            ball.MoveAt(ballSize + Math.random() * (WidthVirtualPixels - ballSize * 2), ballSize + Math.random() * (HeightVirtualPixels - ButtonHeight - ballSize * 2), 40, MoveAgain)
+        }
+    }
+    const label = new Group(group).SetLayer(1)
+    FontBig.Write(label, "Always on top", HorizontalAlignment.Middle, VerticalAlignment.Middle, WidthVirtualPixels / 2, HeightVirtualPixels / 2)
+
+    const buttons = [{
+        Label: "Y-Sort",
+        Action: () => group.SortChildren(SortMode.VirtualPixelsFromTop)
+    }, {
+        Label: "Insertion",
+        Action: () => group.SortChildren(SortMode.InsertionOrder)
+    }, {
+        Label: "Front",
+        Action: () => balls[0].BringToFront()
+    }, {
+        Label: "Back",
+        Action: () => balls[0].SendToBack()
+    }]
+
+    const bottomViewport = new Viewport(0, 1)
+    for (const button of buttons) {
+        const buttonGroup = new Group(bottomViewport, () => {
+            staticSprite.Play(Content.Buttons.Narrow.Pressed)
+            button.Action()
+        })
+        buttonGroup.Move(IndexOf(buttons, button) * (WidthVirtualPixels - ButtonNarrowWidth) / (buttons.length - 1) + ButtonNarrowWidth / 2, HeightVirtualPixels - ButtonHeight / 2)
+        const staticSprite = new Sprite(buttonGroup)
+        staticSprite.Loop(Content.Buttons.Narrow.Unpressed)
+        FontBig.Write(buttonGroup, button.Label, HorizontalAlignment.Middle, VerticalAlignment.Middle)
+    }
+
+    return () => {
+        middleViewport.Delete()
+        bottomViewport.Delete()
+    }
+}
\ No newline at end of file